@@ -22,6 +22,9 @@ CREATE INDEX IF NOT EXISTS idx_training_programs_sync_status ON training_program
 CREATE INDEX IF NOT EXISTS idx_training_programs_difficulty ON training_programs(difficulty_level);
 CREATE INDEX IF NOT EXISTS idx_training_programs_trainerize_id ON training_programs(trainerize_program_id);
 
+-- Trainerize client the program was exported to
+ALTER TABLE training_programs ADD COLUMN IF NOT EXISTS trainerize_client_id TEXT;
+
 -- 2. Create training_plans table
 CREATE TABLE IF NOT EXISTS training_plans (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -61,6 +64,13 @@ CREATE INDEX IF NOT EXISTS idx_plan_workouts_training_plan_id ON plan_workouts(t
 CREATE INDEX IF NOT EXISTS idx_plan_workouts_workout_template_id ON plan_workouts(workout_template_id);
 CREATE INDEX IF NOT EXISTS idx_plan_workouts_schedule ON plan_workouts(week_number, day_of_week, order_in_day);
 
+-- Per-workout export tracking so failed workouts can be retried individually
+ALTER TABLE plan_workouts ADD COLUMN IF NOT EXISTS trainerize_workout_id TEXT;
+ALTER TABLE plan_workouts ADD COLUMN IF NOT EXISTS sync_status TEXT DEFAULT 'pending' CHECK (sync_status IN ('pending', 'synced', 'error'));
+ALTER TABLE plan_workouts ADD COLUMN IF NOT EXISTS sync_error TEXT;
+ALTER TABLE plan_workouts ADD COLUMN IF NOT EXISTS synced_at TIMESTAMPTZ;
+CREATE INDEX IF NOT EXISTS idx_plan_workouts_sync_status ON plan_workouts(sync_status);
+
 -- 4. Create client_programs table
 CREATE TABLE IF NOT EXISTS client_programs (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -206,5 +216,279 @@ VALUES
   )
 ON CONFLICT (name) DO NOTHING;
 
+-- 12. Exercise sync tracking (exercises table is managed outside this script)
+-- Trainerize values as of the last successful sync, used as the base for three-way merges
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS last_synced_snapshot JSONB;
+
+-- 13. Create sync job queue tables
+CREATE TABLE IF NOT EXISTS sync_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_type TEXT NOT NULL CHECK (job_type IN ('sync_exercises', 'bulk_add_exercises', 'bulk_sync_workouts')),
+  status TEXT DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+  payload JSONB DEFAULT '{}',
+  cursor INTEGER DEFAULT 0,
+  total_items INTEGER DEFAULT 0,
+  processed_items INTEGER DEFAULT 0,
+  failed_items INTEGER DEFAULT 0,
+  attempts INTEGER DEFAULT 0,
+  max_attempts INTEGER DEFAULT 3,
+  locked_by TEXT,
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  result JSONB,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS sync_job_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES sync_jobs(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  item_key TEXT NOT NULL,
+  payload JSONB DEFAULT '{}',
+  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed', 'skipped')),
+  attempts INTEGER DEFAULT 0,
+  result JSONB,
+  error TEXT,
+  processed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(job_id, position)
+);
+
+-- Add indexes for sync job queue
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_status ON sync_jobs(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_sync_job_items_job_position ON sync_job_items(job_id, position);
+
+ALTER TABLE sync_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sync_job_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to sync_jobs" ON sync_jobs
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access to sync_job_items" ON sync_job_items
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- 14. Create sync tombstones table (deletions waiting to propagate to the other side)
+CREATE TABLE IF NOT EXISTS sync_tombstones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type TEXT NOT NULL DEFAULT 'exercise' CHECK (entity_type IN ('exercise')),
+  local_id UUID,
+  trainerize_id TEXT,
+  name TEXT,
+  deleted_from TEXT NOT NULL CHECK (deleted_from IN ('supabase', 'trainerize')),
+  deleted_at TIMESTAMPTZ DEFAULT NOW(),
+  propagation_status TEXT DEFAULT 'pending' CHECK (propagation_status IN ('pending', 'propagated', 'skipped', 'error')),
+  propagated_at TIMESTAMPTZ,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Add indexes for sync_tombstones
+CREATE INDEX IF NOT EXISTS idx_sync_tombstones_pending ON sync_tombstones(entity_type, deleted_from, propagation_status);
+CREATE INDEX IF NOT EXISTS idx_sync_tombstones_trainerize_id ON sync_tombstones(trainerize_id);
+-- One local deletion per exercise waiting to reach Trainerize
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_tombstones_open_local_deletion
+  ON sync_tombstones(local_id) WHERE deleted_from = 'supabase' AND propagation_status <> 'propagated';
+
+ALTER TABLE sync_tombstones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to sync_tombstones" ON sync_tombstones
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- 15. Create Trainerize connections table (one row per Trainerize group)
+-- api_token_encrypted holds AES-256-GCM ciphertext keyed by TRAINERIZE_TOKEN_ENCRYPTION_KEY.
+-- Rows with a NULL connection_id belong to the group configured through TRAINERIZE_GROUP_ID.
+CREATE TABLE IF NOT EXISTS trainerize_connections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  group_id TEXT NOT NULL UNIQUE,
+  api_token_encrypted TEXT NOT NULL,
+  is_active BOOLEAN DEFAULT TRUE,
+  last_validated_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_trainerize_connections_updated_at ON trainerize_connections;
+CREATE TRIGGER update_trainerize_connections_updated_at
+  BEFORE UPDATE ON trainerize_connections
+  FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+ALTER TABLE trainerize_connections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to trainerize_connections" ON trainerize_connections
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Scope synced data to a connection
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS connection_id UUID REFERENCES trainerize_connections(id);
+ALTER TABLE training_programs ADD COLUMN IF NOT EXISTS connection_id UUID REFERENCES trainerize_connections(id);
+ALTER TABLE workout_templates ADD COLUMN IF NOT EXISTS connection_id UUID REFERENCES trainerize_connections(id);
+ALTER TABLE sync_logs ADD COLUMN IF NOT EXISTS connection_id UUID REFERENCES trainerize_connections(id);
+ALTER TABLE sync_tombstones ADD COLUMN IF NOT EXISTS connection_id UUID REFERENCES trainerize_connections(id);
+
+CREATE INDEX IF NOT EXISTS idx_exercises_connection ON exercises(connection_id);
+CREATE INDEX IF NOT EXISTS idx_training_programs_connection ON training_programs(connection_id);
+CREATE INDEX IF NOT EXISTS idx_workout_templates_connection ON workout_templates(connection_id);
+CREATE INDEX IF NOT EXISTS idx_sync_logs_connection ON sync_logs(connection_id, status);
+
+-- Trainerize IDs are only unique within a group. Exercises without one (local-only, or
+-- imported and not pushed yet) are exempt. NULLs never collide in a unique index, so the
+-- default group (no connection_id) has an index of its own.
+ALTER TABLE exercises DROP CONSTRAINT IF EXISTS exercises_trainerize_id_key;
+ALTER TABLE exercises ALTER COLUMN trainerize_id DROP NOT NULL;
+DROP INDEX IF EXISTS idx_exercises_connection_trainerize_id;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exercises_trainerize_id_per_connection
+  ON exercises(connection_id, trainerize_id) WHERE trainerize_id IS NOT NULL AND connection_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exercises_trainerize_id_default_connection
+  ON exercises(trainerize_id) WHERE trainerize_id IS NOT NULL AND connection_id IS NULL;
+
+-- 16. Create exercise mapping profiles table
+-- Each save of a profile is a new version; at most one version is active and drives
+-- both pushing exercises to Trainerize and pulling them back.
+CREATE TABLE IF NOT EXISTS mapping_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  description TEXT,
+  fields JSONB NOT NULL DEFAULT '[]',
+  is_active BOOLEAN DEFAULT FALSE,
+  activated_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (name, version)
+);
+
+-- Only one active profile at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mapping_profiles_active ON mapping_profiles(is_active) WHERE is_active;
+
+ALTER TABLE mapping_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to mapping_profiles" ON mapping_profiles
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- 17. Exercise video processing
+-- Trainerize's videoStatus for an uploaded exercise video, polled by the track_video_status job
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS video_status TEXT CHECK (video_status IN ('processing', 'ready', 'failing'));
+CREATE INDEX IF NOT EXISTS idx_exercises_video_status ON exercises(video_status) WHERE video_status = 'processing';
+
+-- Jobs can wait before their next run, e.g. while a video is still processing
+ALTER TABLE sync_jobs ADD COLUMN IF NOT EXISTS run_after TIMESTAMPTZ;
+ALTER TABLE sync_jobs DROP CONSTRAINT IF EXISTS sync_jobs_job_type_check;
+ALTER TABLE sync_jobs ADD CONSTRAINT sync_jobs_job_type_check
+  CHECK (job_type IN ('sync_exercises', 'bulk_add_exercises', 'bulk_sync_workouts', 'track_video_status'));
+
+-- 18. Create exercise redirects table (exercises merged into another)
+-- The merged exercise stays, deactivated; syncs that still carry its trainerize_id
+-- resolve to the survivor through this table.
+CREATE TABLE IF NOT EXISTS exercise_redirects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  merged_exercise_id UUID NOT NULL UNIQUE REFERENCES exercises(id) ON DELETE CASCADE,
+  survivor_id UUID NOT NULL REFERENCES exercises(id) ON DELETE CASCADE,
+  trainerize_id TEXT,
+  connection_id UUID REFERENCES trainerize_connections(id),
+  name TEXT,
+  -- Where each merged field's value came from
+  field_choices JSONB DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_exercise_redirects_trainerize_id ON exercise_redirects(connection_id, trainerize_id);
+CREATE INDEX IF NOT EXISTS idx_exercise_redirects_survivor ON exercise_redirects(survivor_id);
+
+ALTER TABLE exercise_redirects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to exercise_redirects" ON exercise_redirects
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- 19. Create muscle and equipment taxonomy tables
+-- Canonical values for exercises.muscle_groups and exercises.equipment. Muscles form a
+-- hierarchy (quads -> legs) and top-level muscles carry the Trainerize exercise tag;
+-- synonyms are other spellings that normalize to the canonical name.
+CREATE TABLE IF NOT EXISTS muscle_taxonomy (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL UNIQUE,
+  parent_slug TEXT REFERENCES muscle_taxonomy(slug) ON UPDATE CASCADE,
+  trainerize_tag TEXT CHECK (trainerize_tag IN ('arms', 'shoulder', 'chest', 'back', 'abs', 'legs', 'cardio', 'fullBody')),
+  synonyms TEXT[] DEFAULT '{}',
+  sort_order INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS equipment_taxonomy (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL UNIQUE,
+  synonyms TEXT[] DEFAULT '{}',
+  sort_order INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE muscle_taxonomy ENABLE ROW LEVEL SECURITY;
+ALTER TABLE equipment_taxonomy ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to muscle_taxonomy" ON muscle_taxonomy
+  FOR ALL USING (auth.role() = 'service_role');
+CREATE POLICY "Service role full access to equipment_taxonomy" ON equipment_taxonomy
+  FOR ALL USING (auth.role() = 'service_role');
+CREATE POLICY "Authenticated users can view muscle_taxonomy" ON muscle_taxonomy
+  FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "Authenticated users can view equipment_taxonomy" ON equipment_taxonomy
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Same values as DEFAULT_TAXONOMY in src/lib/exercise-taxonomy.ts; parents come first
+INSERT INTO muscle_taxonomy (slug, name, parent_slug, trainerize_tag, synonyms, sort_order) VALUES
+  ('chest', 'Chest', NULL, 'chest', ARRAY['pecs', 'pectorals', 'pectoralis major'], 10),
+  ('back', 'Back', NULL, 'back', ARRAY['upper back'], 20),
+  ('lats', 'Lats', 'back', NULL, ARRAY['latissimus dorsi', 'latissimus'], 21),
+  ('traps', 'Traps', 'back', NULL, ARRAY['trapezius'], 22),
+  ('rhomboids', 'Rhomboids', 'back', NULL, ARRAY[]::TEXT[], 23),
+  ('lower-back', 'Lower Back', 'back', NULL, ARRAY['erector spinae', 'lumbar'], 24),
+  ('shoulders', 'Shoulders', NULL, 'shoulder', ARRAY['delts', 'deltoids'], 30),
+  ('front-delts', 'Front Delts', 'shoulders', NULL, ARRAY['anterior deltoid', 'front deltoid'], 31),
+  ('side-delts', 'Side Delts', 'shoulders', NULL, ARRAY['lateral deltoid', 'medial deltoid'], 32),
+  ('rear-delts', 'Rear Delts', 'shoulders', NULL, ARRAY['posterior deltoid', 'rear deltoid'], 33),
+  ('arms', 'Arms', NULL, 'arms', ARRAY['upper arms'], 40),
+  ('biceps', 'Biceps', 'arms', NULL, ARRAY['biceps brachii'], 41),
+  ('triceps', 'Triceps', 'arms', NULL, ARRAY['triceps brachii'], 42),
+  ('forearms', 'Forearms', 'arms', NULL, ARRAY['grip', 'wrist flexors'], 43),
+  ('core', 'Core', NULL, 'abs', ARRAY['abs', 'abdominals', 'midsection'], 50),
+  ('obliques', 'Obliques', 'core', NULL, ARRAY['side abs'], 51),
+  ('legs', 'Legs', NULL, 'legs', ARRAY['lower body'], 60),
+  ('quads', 'Quads', 'legs', NULL, ARRAY['quadriceps', 'thighs'], 61),
+  ('hamstrings', 'Hamstrings', 'legs', NULL, ARRAY['hams'], 62),
+  ('glutes', 'Glutes', 'legs', NULL, ARRAY['gluteus maximus', 'butt'], 63),
+  ('calves', 'Calves', 'legs', NULL, ARRAY['calf', 'gastrocnemius', 'soleus'], 64),
+  ('hip-flexors', 'Hip Flexors', 'legs', NULL, ARRAY['iliopsoas'], 65),
+  ('adductors', 'Adductors', 'legs', NULL, ARRAY['inner thighs'], 66),
+  ('abductors', 'Abductors', 'legs', NULL, ARRAY['outer thighs'], 67),
+  ('cardio', 'Cardio', NULL, 'cardio', ARRAY['cardiovascular', 'conditioning'], 70),
+  ('full-body', 'Full Body', NULL, 'fullBody', ARRAY['total body', 'whole body'], 80)
+ON CONFLICT (slug) DO NOTHING;
+
+INSERT INTO equipment_taxonomy (slug, name, synonyms, sort_order) VALUES
+  ('bodyweight', 'Bodyweight', ARRAY['body weight', 'no equipment', 'none'], 10),
+  ('dumbbells', 'Dumbbells', ARRAY['db', 'dumbell'], 20),
+  ('barbell', 'Barbell', ARRAY['bb', 'olympic bar'], 30),
+  ('ez-bar', 'EZ Bar', ARRAY['ez curl bar', 'curl bar'], 31),
+  ('kettlebell', 'Kettlebell', ARRAY['kb'], 40),
+  ('resistance-bands', 'Resistance Bands', ARRAY['band', 'loop band', 'mini band'], 50),
+  ('cable-machine', 'Cable Machine', ARRAY['cable', 'cable station', 'pulley'], 60),
+  ('machine', 'Machine', ARRAY['weight machine', 'selectorized machine'], 61),
+  ('smith-machine', 'Smith Machine', ARRAY['smith'], 62),
+  ('pull-up-bar', 'Pull-up Bar', ARRAY['chin-up bar', 'chinning bar'], 70),
+  ('bench', 'Bench', ARRAY['flat bench', 'adjustable bench', 'incline bench'], 80),
+  ('medicine-ball', 'Medicine Ball', ARRAY['med ball', 'mb', 'slam ball'], 90),
+  ('stability-ball', 'Stability Ball', ARRAY['swiss ball', 'exercise ball', 'physio ball'], 91),
+  ('suspension-trainer', 'Suspension Trainer', ARRAY['trx', 'suspension straps'], 100),
+  ('plyo-box', 'Plyo Box', ARRAY['box', 'jump box'], 110),
+  ('jump-rope', 'Jump Rope', ARRAY['skipping rope', 'skip rope'], 120),
+  ('foam-roller', 'Foam Roller', ARRAY['roller'], 130),
+  ('treadmill', 'Treadmill', ARRAY[]::TEXT[], 140),
+  ('rowing-machine', 'Rowing Machine', ARRAY['rower', 'erg'], 141),
+  ('stationary-bike', 'Stationary Bike', ARRAY['exercise bike', 'spin bike', 'bike'], 142)
+ON CONFLICT (slug) DO NOTHING;
+
 -- Success message
 SELECT 'Program Management Database Schema created successfully! 🎉' as status;
\ No newline at end of file
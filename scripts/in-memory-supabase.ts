@@ -0,0 +1,428 @@
+import { randomUUID } from 'node:crypto'
+import type { Database } from '../src/types/database'
+import type { DatabaseClient } from '../src/lib/supabase'
+
+// In-memory stand-in for the Supabase client, covering the query builder surface the
+// data-access classes use. Hand `db` to SyncService, TrainerizeProgramManager etc.
+// through their `db` option and inspect or seed `tables` directly.
+
+type TableName = keyof Database['public']['Tables']
+type Row = Record<string, any>
+type Filter = (row: Row) => boolean
+
+export interface InMemoryError {
+  message: string
+  code: string
+  details: string | null
+  hint: string | null
+}
+
+export interface InMemorySupabase {
+  db: DatabaseClient
+  tables: Record<TableName, Row[]>
+  // Register a stored procedure for `.rpc()`; unknown functions return an error like PostgREST
+  functions: Record<string, (args: any) => any>
+  reset: (seed?: Partial<Record<TableName, Row[]>>) => void
+}
+
+// Every table in src/types/database.ts; the Record type keeps this list complete
+const TABLES: Record<TableName, true> = {
+  training_programs: true,
+  training_plans: true,
+  plan_workouts: true,
+  client_programs: true,
+  generation_rules: true,
+  workout_templates: true,
+  exercises: true,
+  sync_logs: true,
+  sync_jobs: true,
+  sync_job_items: true,
+  sync_tombstones: true,
+  trainerize_connections: true,
+  mapping_profiles: true,
+  exercise_redirects: true,
+  muscle_taxonomy: true,
+  equipment_taxonomy: true
+}
+
+// Columns reported through information_schema for the tables SchemaInspector looks at
+const EXERCISE_COLUMNS: Record<keyof Database['public']['Tables']['exercises']['Row'], true> = {
+  id: true,
+  trainerize_id: true,
+  name: true,
+  description: true,
+  category: true,
+  muscle_groups: true,
+  equipment: true,
+  instructions: true,
+  video_url: true,
+  thumbnail_url: true,
+  difficulty_level: true,
+  is_active: true,
+  created_at: true,
+  updated_at: true,
+  synced_at: true,
+  sync_status: true,
+  metadata: true,
+  last_synced_snapshot: true,
+  connection_id: true,
+  video_status: true
+}
+
+const INSPECTABLE_COLUMNS: Partial<Record<TableName, string[]>> = {
+  exercises: Object.keys(EXERCISE_COLUMNS)
+}
+
+function error(code: string, message: string): InMemoryError {
+  return { message, code, details: null, hint: null }
+}
+
+// PostgREST compares through text, so '5' matches 5
+function sameValue(a: any, b: any): boolean {
+  if (a === undefined) a = null
+  if (b === undefined) b = null
+  if (a === null || b === null) return a === b
+  return String(a) === String(b)
+}
+
+function compare(a: any, b: any): number {
+  if (a === b) return 0
+  if (a === null || a === undefined) return 1
+  if (b === null || b === undefined) return -1
+  return a < b ? -1 : 1
+}
+
+function likePattern(pattern: string, caseInsensitive: boolean): RegExp {
+  const source = pattern
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/%/g, '.*')
+    .replace(/_/g, '.')
+  return new RegExp(`^${source}$`, caseInsensitive ? 'i' : '')
+}
+
+function containsValue(container: any, value: any): boolean {
+  if (Array.isArray(container)) {
+    const values = Array.isArray(value) ? value : [value]
+    return values.every(v => container.some(item => sameValue(item, v)))
+  }
+  if (container && typeof container === 'object' && value && typeof value === 'object') {
+    return Object.entries(value).every(([key, v]) => containsValue(container[key], v) || sameValue(container[key], v))
+  }
+  return false
+}
+
+// Parses "(a,b)" as well as plain arrays, since .not('col', 'in', '(a,b)') takes a string
+function listValues(value: any): any[] {
+  if (Array.isArray(value)) return value
+  return String(value).replace(/^\(|\)$/g, '').split(',').map(v => v.trim())
+}
+
+function operatorFilter(column: string, operator: string, value: any): Filter {
+  switch (operator) {
+    case 'eq': return row => sameValue(row[column], value)
+    case 'neq': return row => !sameValue(row[column], value)
+    case 'gt': return row => row[column] !== null && row[column] !== undefined && compare(row[column], value) > 0
+    case 'gte': return row => row[column] !== null && row[column] !== undefined && compare(row[column], value) >= 0
+    case 'lt': return row => row[column] !== null && row[column] !== undefined && compare(row[column], value) < 0
+    case 'lte': return row => row[column] !== null && row[column] !== undefined && compare(row[column], value) <= 0
+    case 'in': return row => listValues(value).some(v => sameValue(row[column], v))
+    case 'is': return row => (row[column] ?? null) === (value === 'null' ? null : value)
+    case 'like': return row => typeof row[column] === 'string' && likePattern(value, false).test(row[column])
+    case 'ilike': return row => typeof row[column] === 'string' && likePattern(value, true).test(row[column])
+    case 'cs': return row => containsValue(row[column], value)
+    default:
+      throw new Error(`In-memory Supabase does not support the "${operator}" filter`)
+  }
+}
+
+// Splits a select list on top-level commas, leaving embedded resource lists intact
+function splitColumns(columns: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let current = ''
+  for (const char of columns.replace(/\s+/g, '')) {
+    if (char === '(') depth++
+    if (char === ')') depth--
+    if (char === ',' && depth === 0) {
+      parts.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  if (current) parts.push(current)
+  return parts
+}
+
+const singular = (table: string) => table.replace(/s$/, '')
+const lastWord = (name: string) => name.split('_').pop() as string
+
+class InMemoryQuery implements PromiseLike<any> {
+  private action: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select'
+  private values: Row[] = []
+  private patch: Row = {}
+  private conflictColumns = ['id']
+  private columns: string | null = '*'
+  private countRows = false
+  private head = false
+  private filters: Filter[] = []
+  private orders: Array<{ column: string; ascending: boolean }> = []
+  private rangeFrom = 0
+  private rangeTo: number | null = null
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many'
+
+  constructor(private store: InMemorySupabase, private table: string) {}
+
+  select(columns = '*', options: { count?: 'exact' | 'planned' | 'estimated'; head?: boolean } = {}) {
+    this.columns = columns
+    this.countRows = !!options.count
+    this.head = !!options.head
+    return this
+  }
+
+  insert(values: Row | Row[]) {
+    this.action = 'insert'
+    this.values = Array.isArray(values) ? values : [values]
+    this.columns = null
+    return this
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string } = {}) {
+    this.action = 'upsert'
+    this.values = Array.isArray(values) ? values : [values]
+    this.conflictColumns = (options.onConflict || 'id').split(',').map(c => c.trim())
+    this.columns = null
+    return this
+  }
+
+  update(patch: Row) {
+    this.action = 'update'
+    this.patch = patch
+    this.columns = null
+    return this
+  }
+
+  delete() {
+    this.action = 'delete'
+    this.columns = null
+    return this
+  }
+
+  eq(column: string, value: any) { return this.where(column, 'eq', value) }
+  neq(column: string, value: any) { return this.where(column, 'neq', value) }
+  gt(column: string, value: any) { return this.where(column, 'gt', value) }
+  gte(column: string, value: any) { return this.where(column, 'gte', value) }
+  lt(column: string, value: any) { return this.where(column, 'lt', value) }
+  lte(column: string, value: any) { return this.where(column, 'lte', value) }
+  in(column: string, values: any[]) { return this.where(column, 'in', values) }
+  is(column: string, value: any) { return this.where(column, 'is', value) }
+  like(column: string, pattern: string) { return this.where(column, 'like', pattern) }
+  ilike(column: string, pattern: string) { return this.where(column, 'ilike', pattern) }
+  contains(column: string, value: any) { return this.where(column, 'cs', value) }
+  filter(column: string, operator: string, value: any) { return this.where(column, operator, value) }
+
+  not(column: string, operator: string, value: any) {
+    const filter = operatorFilter(column, operator, value)
+    this.filters.push(row => !filter(row))
+    return this
+  }
+
+  match(query: Row) {
+    for (const [column, value] of Object.entries(query)) this.eq(column, value)
+    return this
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orders.push({ column, ascending: options.ascending !== false })
+    return this
+  }
+
+  limit(count: number) {
+    this.rangeTo = this.rangeFrom + count - 1
+    return this
+  }
+
+  range(from: number, to: number) {
+    this.rangeFrom = from
+    this.rangeTo = to
+    return this
+  }
+
+  single() {
+    this.cardinality = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.cardinality = 'maybeSingle'
+    return this
+  }
+
+  then<TResult1 = any, TResult2 = never>(
+    onfulfilled?: ((value: any) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected)
+  }
+
+  private where(column: string, operator: string, value: any) {
+    this.filters.push(operatorFilter(column, operator, value))
+    return this
+  }
+
+  private rows(): Row[] {
+    if (this.table === 'information_schema.tables') {
+      return Object.keys(this.store.tables).map(table_name => ({ table_schema: 'public', table_name }))
+    }
+    if (this.table === 'information_schema.columns') {
+      return Object.entries(INSPECTABLE_COLUMNS).flatMap(([table_name, columns]) => columns!.map(column_name => ({
+        table_schema: 'public',
+        table_name,
+        column_name,
+        data_type: 'text',
+        is_nullable: column_name === 'id' ? 'NO' : 'YES',
+        column_default: column_name === 'id' ? 'gen_random_uuid()' : null,
+        character_maximum_length: null
+      })))
+    }
+
+    const rows = this.store.tables[this.table as TableName]
+    if (!rows) throw error('42P01', `relation "public.${this.table}" does not exist`)
+    return rows
+  }
+
+  private matching(): Row[] {
+    return this.rows().filter(row => this.filters.every(filter => filter(row)))
+  }
+
+  private execute() {
+    try {
+      let rows: Row[]
+      switch (this.action) {
+        case 'insert':
+          rows = this.values.map(value => this.insertRow(value))
+          break
+        case 'upsert':
+          rows = this.values.map(value => {
+            const existing = this.rows().find(row => this.conflictColumns.every(c => sameValue(row[c], value[c])))
+            return existing ? Object.assign(existing, value) : this.insertRow(value)
+          })
+          break
+        case 'update':
+          rows = this.matching().map(row => Object.assign(row, this.patch))
+          break
+        case 'delete': {
+          rows = this.matching()
+          const table = this.store.tables[this.table as TableName]
+          this.store.tables[this.table as TableName] = table.filter(row => !rows.includes(row))
+          break
+        }
+        default:
+          rows = this.matching()
+      }
+
+      for (const { column, ascending } of [...this.orders].reverse()) {
+        rows = [...rows].sort((a, b) => (ascending ? 1 : -1) * compare(a[column], b[column]))
+      }
+
+      const count = this.countRows ? rows.length : null
+      rows = rows.slice(this.rangeFrom, this.rangeTo === null ? undefined : this.rangeTo + 1)
+
+      // Mutations only return rows when followed by .select()
+      if (this.columns === null || this.head) {
+        return { data: null, error: null, count, status: 200, statusText: 'OK' }
+      }
+
+      const data = rows.map(row => this.project(row, this.table, this.columns!))
+      if (this.cardinality !== 'many') {
+        if (data.length > 1 || (data.length === 0 && this.cardinality === 'single')) {
+          throw error('PGRST116', `JSON object requested, multiple (or no) rows returned (${data.length} rows)`)
+        }
+        return { data: data[0] ?? null, error: null, count, status: 200, statusText: 'OK' }
+      }
+
+      return { data, error: null, count, status: 200, statusText: 'OK' }
+    } catch (caught: any) {
+      if (caught instanceof Error) throw caught
+      return { data: null, error: caught as InMemoryError, count: null, status: 400, statusText: 'Bad Request' }
+    }
+  }
+
+  private insertRow(value: Row): Row {
+    const rows = this.rows()
+    const row = { id: randomUUID(), created_at: new Date().toISOString(), ...value }
+    if (rows.some(existing => sameValue(existing.id, row.id))) {
+      throw error('23505', `duplicate key value violates unique constraint "${this.table}_pkey"`)
+    }
+    rows.push(row)
+    return { ...row }
+  }
+
+  // Applies a select list, resolving embedded resources through <name>_id foreign keys
+  private project(row: Row, table: string, columns: string): Row {
+    const result: Row = {}
+    for (const part of splitColumns(columns)) {
+      const embedded = part.match(/^(?:(\w+):)?(\w+)(?:!\w+)?\((.*)\)$/)
+      if (embedded) {
+        const [, alias, target, nested] = embedded
+        result[alias || target] = this.embed(row, table, alias, target, nested)
+        continue
+      }
+      if (part === '*') {
+        Object.assign(result, row)
+        continue
+      }
+      const [alias, column] = part.includes(':') ? part.split(':') : [part, part]
+      result[alias] = row[column]
+    }
+    return result
+  }
+
+  private embed(row: Row, table: string, alias: string | undefined, target: string, columns: string): any {
+    const targetRows = this.store.tables[target as TableName] || []
+
+    // Many-to-one: this row points at the target
+    const foreignKey = [alias, singular(target), lastWord(singular(target))]
+      .filter(Boolean)
+      .map(name => `${name}_id`)
+      .find(key => key in row)
+    if (foreignKey) {
+      const parent = targetRows.find(candidate => sameValue(candidate.id, row[foreignKey]))
+      return parent ? this.project(parent, target, columns) : null
+    }
+
+    // One-to-many: target rows point at this row
+    const backReference = [singular(table), lastWord(singular(table))]
+      .map(name => `${name}_id`)
+      .find(key => targetRows.some(candidate => key in candidate))
+    if (!backReference) return []
+    return targetRows
+      .filter(candidate => sameValue(candidate[backReference], row.id))
+      .map(child => this.project(child, target, columns))
+  }
+}
+
+export function createInMemorySupabase(seed: Partial<Record<TableName, Row[]>> = {}): InMemorySupabase {
+  const store = {
+    functions: {},
+    reset(nextSeed: Partial<Record<TableName, Row[]>> = {}) {
+      store.tables = Object.fromEntries(
+        Object.keys(TABLES).map(table => [table, (nextSeed[table as TableName] || []).map(row => ({ ...row }))])
+      ) as Record<TableName, Row[]>
+    }
+  } as InMemorySupabase
+
+  store.reset(seed)
+  store.db = {
+    from: (table: string) => new InMemoryQuery(store, table),
+    rpc: async (fn: string, args: any = {}) => {
+      const handler = store.functions[fn]
+      if (!handler) {
+        return { data: null, error: error('PGRST202', `Could not find the function public.${fn}`), count: null, status: 404, statusText: 'Not Found' }
+      }
+      return { data: await handler(args), error: null, count: null, status: 200, statusText: 'OK' }
+    }
+  } as unknown as DatabaseClient
+
+  return store
+}
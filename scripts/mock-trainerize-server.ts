@@ -0,0 +1,374 @@
+#!/usr/bin/env tsx
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+// In-process stand-in for the Trainerize v03 API. Point TrainerizeClient at it by
+// setting TRAINERIZE_API_URL to the returned url, or run this file directly to get
+// a standalone server for `npm run dev` (control it through the /__mock/* endpoints).
+
+export type MockFailureType = 'rate_limit' | 'unauthorized' | 'api_error' | 'server_error'
+
+export interface MockFailureRule {
+  type: MockFailureType
+  // Only fail this endpoint (e.g. '/exercise/add'); every endpoint when omitted
+  endpoint?: string
+  // How many requests to fail before the rule expires; forever when omitted
+  times?: number
+  // For api_error: the Trainerize `code` and `message` to return
+  code?: number
+  message?: string
+  // For rate_limit: value of the Retry-After header, in seconds
+  retryAfter?: number
+}
+
+export interface MockTrainerizeState {
+  nextId: number
+  users: Map<number, any>
+  exercises: Map<number, any>
+  workoutDefs: Map<number, any>
+  trainingPlans: Map<number, any>
+  calendar: any[]
+}
+
+export interface MockTrainerizeServer {
+  url: string
+  state: MockTrainerizeState
+  requests: Array<{ endpoint: string; body: any; status: number }>
+  fail: (rule: MockFailureRule) => void
+  reset: (options?: { seed?: boolean }) => void
+  close: () => Promise<void>
+}
+
+class MockApiError extends Error {
+  constructor(public code: number, message: string) {
+    super(message)
+  }
+}
+
+type EndpointHandler = (body: any, state: MockTrainerizeState) => any
+
+export const MOCK_GROUP_ID = 1000
+
+function createState(seed: boolean): MockTrainerizeState {
+  const state: MockTrainerizeState = {
+    nextId: 5000,
+    users: new Map(),
+    exercises: new Map(),
+    workoutDefs: new Map(),
+    trainingPlans: new Map(),
+    calendar: []
+  }
+
+  if (seed) seedState(state)
+  return state
+}
+
+// A small library that exercises discovery, templates and training plans
+function seedState(state: MockTrainerizeState): void {
+  const now = new Date().toISOString()
+  state.users.set(MOCK_GROUP_ID, { id: MOCK_GROUP_ID, firstName: 'Mock', lastName: 'Trainer', type: 'trainer' })
+
+  const exercises = [
+    { id: 101, name: 'Push-ups', description: 'Basic bodyweight exercise', recordType: 'strength', tag: 'arms', muscle_groups: ['Chest', 'Triceps'], equipment: ['Bodyweight'] },
+    { id: 102, name: 'Squats', description: 'Lower body compound exercise', recordType: 'strength', tag: 'legs', muscle_groups: ['Legs', 'Glutes'], equipment: ['Bodyweight'] },
+    { id: 103, name: 'Plank', description: 'Core hold', recordType: 'timedStrength', tag: 'core', muscle_groups: ['Core'], equipment: ['Bodyweight'] }
+  ]
+  for (const exercise of exercises) {
+    state.exercises.set(exercise.id, { ...exercise, modified: now })
+  }
+
+  const workout = (id: number, name: string, exerciseIds: number[], extra: any = {}) => {
+    state.workoutDefs.set(id, {
+      id,
+      name,
+      type: 'workoutRegular',
+      instructions: '',
+      exercises: exerciseIds.map(exerciseId => ({
+        def: { id: exerciseId, name: state.exercises.get(exerciseId)?.name, sets: 3, target: '10 reps', restTime: 60 }
+      })),
+      modified: now,
+      ...extra
+    })
+  }
+
+  workout(301, 'Full Body A', [101, 102])
+  workout(302, 'Core Finisher', [103])
+
+  state.trainingPlans.set(401, {
+    id: 401,
+    userID: MOCK_GROUP_ID,
+    name: 'Mock Strength Plan',
+    durationType: 'week',
+    duration: 4,
+    startDate: now.split('T')[0],
+    modified: now
+  })
+  workout(311, 'Upper Body - Week 1 Day 1', [101], { trainingPlanID: 401 })
+  workout(312, 'Lower Body - Week 1 Day 3', [102, 103], { trainingPlanID: 401 })
+
+  state.calendar.push({
+    date: now.split('T')[0],
+    userID: MOCK_GROUP_ID,
+    workout: { id: 311, name: 'Upper Body - Week 1 Day 1', exercises: [state.exercises.get(101)] }
+  })
+}
+
+function requireItem(map: Map<number, any>, id: any, label: string): any {
+  const item = map.get(parseInt(id))
+  if (!item) throw new MockApiError(404, `${label} ${id} not found`)
+  return item
+}
+
+function nextId(state: MockTrainerizeState): number {
+  return state.nextId++
+}
+
+const endpoints: Record<string, EndpointHandler> = {
+  '/user/getProfile': (body, state) => ({
+    users: (body.usersid || []).map((id: number) => state.users.get(id) || { id, firstName: 'Mock', lastName: `User ${id}` })
+  }),
+
+  '/exercise/add': (body, state) => {
+    if (!body.name) throw new MockApiError(40, 'Exercise name is required')
+    const id = nextId(state)
+    state.exercises.set(id, { ...body, id, modified: new Date().toISOString() })
+    return { id }
+  },
+
+  '/exercise/set': (body, state) => {
+    const exercise = requireItem(state.exercises, body.id, 'Exercise')
+    state.exercises.set(exercise.id, { ...exercise, ...body, id: exercise.id, modified: new Date().toISOString() })
+    return {}
+  },
+
+  '/exercise/get': (body, state) => ({ ...requireItem(state.exercises, body.id, 'Exercise') }),
+
+  '/exercise/delete': (body, state) => {
+    requireItem(state.exercises, body.id, 'Exercise')
+    state.exercises.delete(parseInt(body.id))
+    return {}
+  },
+
+  '/workoutDef/add': (body, state) => {
+    if (!body.workoutDef?.name) throw new MockApiError(40, 'Workout name is required')
+    if (body.type === 'trainingPlan') requireItem(state.trainingPlans, body.trainingPlanID, 'Training plan')
+
+    const id = nextId(state)
+    state.workoutDefs.set(id, {
+      ...body.workoutDef,
+      id,
+      ...(body.type === 'trainingPlan' && { trainingPlanID: parseInt(body.trainingPlanID) }),
+      ...(body.userID && { userID: body.userID }),
+      modified: new Date().toISOString()
+    })
+    return { id }
+  },
+
+  '/workoutDef/set': (body, state) => {
+    const def = requireItem(state.workoutDefs, body.workoutDef?.id, 'Workout')
+    state.workoutDefs.set(def.id, { ...def, ...body.workoutDef, id: def.id, modified: new Date().toISOString() })
+    return {}
+  },
+
+  '/workoutDef/delete': (body, state) => {
+    requireItem(state.workoutDefs, body.id, 'Workout')
+    state.workoutDefs.delete(parseInt(body.id))
+    return {}
+  },
+
+  // Library templates are the workout definitions that don't belong to a training plan
+  '/workoutTemplate/getList': (body, state) => {
+    const templates = Array.from(state.workoutDefs.values()).filter(def => !def.trainingPlanID)
+    const start = body.start || 0
+    const count = body.count || 100
+    return {
+      total: templates.length,
+      templates: templates.slice(start, start + count).map(def => ({ id: def.id, name: def.name, type: def.type }))
+    }
+  },
+
+  '/workoutTemplate/get': (body, state) => ({ ...requireItem(state.workoutDefs, body.id, 'Workout template') }),
+
+  '/trainingPlan/getList': (body, state) => ({
+    plans: Array.from(state.trainingPlans.values()).filter(plan => plan.userID === body.userID)
+  }),
+
+  '/trainingPlan/add': (body, state) => {
+    if (!body.plan?.name) throw new MockApiError(40, 'Plan name is required')
+    const id = nextId(state)
+    state.trainingPlans.set(id, { ...body.plan, id, userID: body.userID, modified: new Date().toISOString() })
+    return { id }
+  },
+
+  '/trainingPlan/set': (body, state) => {
+    const plan = requireItem(state.trainingPlans, body.planID, 'Training plan')
+    state.trainingPlans.set(plan.id, { ...plan, ...body.plan, id: plan.id, modified: new Date().toISOString() })
+    return {}
+  },
+
+  '/trainingPlan/getWorkoutDefList': (body, state) => {
+    requireItem(state.trainingPlans, body.planID, 'Training plan')
+    return {
+      workouts: Array.from(state.workoutDefs.values())
+        .filter(def => def.trainingPlanID === parseInt(body.planID))
+        .map(def => ({ workoutDef: def }))
+    }
+  },
+
+  '/calendar/getList': (body, state) => ({
+    data: state.calendar.filter(item =>
+      item.userID === body.userID &&
+      (!body.startDate || item.date >= body.startDate) &&
+      (!body.endDate || item.date <= body.endDate)
+    )
+  })
+}
+
+async function readBody(req: IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk as Buffer)
+  const raw = Buffer.concat(chunks).toString('utf8')
+  return raw ? JSON.parse(raw) : {}
+}
+
+function send(res: ServerResponse, status: number, body: any, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+  res.end(JSON.stringify(body))
+}
+
+export async function startMockTrainerizeServer(options: { port?: number; seed?: boolean } = {}): Promise<MockTrainerizeServer> {
+  const { port = 0, seed = true } = options
+  let state = createState(seed)
+  let failures: MockFailureRule[] = []
+  const requests: MockTrainerizeServer['requests'] = []
+
+  const takeFailure = (endpoint: string): MockFailureRule | undefined => {
+    const rule = failures.find(f => !f.endpoint || f.endpoint === endpoint)
+    if (!rule) return undefined
+
+    if (rule.times !== undefined) {
+      rule.times--
+      if (rule.times <= 0) failures = failures.filter(f => f !== rule)
+    }
+    return rule
+  }
+
+  const server = createServer(async (req, res) => {
+    const endpoint = (req.url || '/').split('?')[0]
+
+    try {
+      const body = await readBody(req)
+
+      // Control endpoints for driving a standalone server from curl or another process
+      if (endpoint === '/__mock/fail') {
+        failures.push(body)
+        return send(res, 200, { code: 0 })
+      }
+      if (endpoint === '/__mock/reset') {
+        state = createState(body.seed !== false)
+        failures = []
+        requests.length = 0
+        return send(res, 200, { code: 0 })
+      }
+      if (endpoint === '/__mock/state') {
+        return send(res, 200, {
+          exercises: Array.from(state.exercises.values()),
+          workoutDefs: Array.from(state.workoutDefs.values()),
+          trainingPlans: Array.from(state.trainingPlans.values()),
+          requests
+        })
+      }
+
+      const record = (status: number) => requests.push({ endpoint, body, status })
+
+      if (req.method !== 'POST') {
+        record(405)
+        return send(res, 405, { code: 405, message: 'Trainerize only accepts POST' })
+      }
+
+      if (!req.headers.authorization?.startsWith('Basic ')) {
+        record(401)
+        return send(res, 401, { code: 401, message: 'Missing credentials' })
+      }
+
+      const failure = takeFailure(endpoint)
+      if (failure?.type === 'rate_limit') {
+        record(429)
+        return send(res, 429, { code: 429, message: 'Too many requests' }, { 'Retry-After': String(failure.retryAfter ?? 1) })
+      }
+      if (failure?.type === 'unauthorized') {
+        record(401)
+        return send(res, 401, { code: 401, message: 'Invalid credentials' })
+      }
+      if (failure?.type === 'server_error') {
+        record(503)
+        return send(res, 503, { code: 503, message: failure.message || 'Service unavailable' })
+      }
+      if (failure?.type === 'api_error') {
+        record(200)
+        return send(res, 200, { code: failure.code ?? 500, message: failure.message || 'Mock Trainerize error' })
+      }
+
+      const handler = endpoints[endpoint]
+      if (!handler) {
+        record(404)
+        return send(res, 404, { code: 404, message: `Unknown endpoint ${endpoint}` })
+      }
+
+      const result = handler(body, state)
+      record(200)
+      send(res, 200, { code: 0, ...result })
+    } catch (error) {
+      if (error instanceof MockApiError) {
+        requests.push({ endpoint, body: null, status: 200 })
+        return send(res, 200, { code: error.code, message: error.message })
+      }
+      requests.push({ endpoint, body: null, status: 500 })
+      send(res, 500, { code: 500, message: error instanceof Error ? error.message : String(error) })
+    }
+  })
+
+  await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve))
+  const { port: boundPort } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${boundPort}`,
+    get state() {
+      return state
+    },
+    requests,
+    fail: rule => {
+      failures.push({ ...rule })
+    },
+    reset: ({ seed = true } = {}) => {
+      state = createState(seed)
+      failures = []
+      requests.length = 0
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close(err => (err ? reject(err) : resolve())))
+  }
+}
+
+// Lets the live test scripts run offline: `tsx scripts/test-trainerize.ts --mock`
+export async function startMockIfRequested(): Promise<MockTrainerizeServer | null> {
+  if (!process.argv.includes('--mock') && process.env.TRAINERIZE_MOCK !== 'true') {
+    return null
+  }
+
+  const mock = await startMockTrainerizeServer()
+  process.env.TRAINERIZE_API_URL = mock.url
+  process.env.TRAINERIZE_GROUP_ID = String(MOCK_GROUP_ID)
+  process.env.TRAINERIZE_API_TOKEN = process.env.TRAINERIZE_API_TOKEN || 'mock-token'
+  console.log(`🧪 Using mock Trainerize API at ${mock.url}`)
+  return mock
+}
+
+// Run standalone: `npm run mock:trainerize`, then start the app with TRAINERIZE_API_URL set
+if (process.argv[1]?.endsWith('mock-trainerize-server.ts')) {
+  const port = parseInt(process.env.TRAINERIZE_MOCK_PORT || '4010')
+  startMockTrainerizeServer({ port }).then(mock => {
+    console.log(`🧪 Mock Trainerize API listening at ${mock.url}`)
+    console.log(`   Set TRAINERIZE_API_URL=${mock.url} to use it`)
+  })
+}
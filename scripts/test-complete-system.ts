@@ -3,6 +3,7 @@
 import { config } from 'dotenv'
 import { supabaseAdmin } from '../src/lib/supabase'
 import { TrainerizeClient } from '../src/lib/trainerize-client'
+import { startMockIfRequested } from './mock-trainerize-server'
 
 // Load environment variables
 config({ path: '.env.local' })
@@ -340,6 +341,9 @@ class SystemTester {
 
 // Run tests
 async function main() {
+  // Pass --mock to run against the in-process Trainerize stand-in
+  await startMockIfRequested()
+
   const tester = new SystemTester()
   
   try {
@@ -0,0 +1,1325 @@
+#!/usr/bin/env tsx
+
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { deflateRawSync } from 'zlib'
+import { TrainerizeClient } from '../src/lib/trainerize-client'
+import { TrainerizeFixtures } from '../src/lib/trainerize-fixtures'
+import { TrainerizeAuthError, TrainerizeBusinessError, TrainerizeNotFoundError, TrainerizeCircuitOpenError } from '../src/lib/trainerize-errors'
+import { TokenBucketRateLimiter } from '../src/lib/rate-limiter'
+import { CircuitBreaker } from '../src/lib/circuit-breaker'
+import { SyncService } from '../src/lib/sync-service'
+import { SyncTombstones } from '../src/lib/sync-tombstones'
+import { JobQueue } from '../src/lib/job-queue'
+import { TrainerizeConnections } from '../src/lib/trainerize-connections'
+import { MappingProfiles, MappingProfileValidationError } from '../src/lib/mapping-profiles'
+import { TaxonomyTerms, TaxonomyValidationError } from '../src/lib/taxonomy-terms'
+import { expandMuscleGroup } from '../src/lib/exercise-taxonomy'
+import { DEFAULT_MAPPING_PROFILE, previewMapping } from '../src/lib/exercise-mapping'
+import { ExerciseVideos, StubVideoMetadataProvider, normalizeVideoUrl } from '../src/lib/exercise-videos'
+import { scoreSimilarity, DUPLICATE_THRESHOLD } from '../src/lib/exercise-similarity'
+import { ExerciseMerges } from '../src/lib/exercise-merge'
+import { ExerciseImports, ExerciseImportError } from '../src/lib/exercise-import'
+import { SpreadsheetError } from '../src/lib/spreadsheet-reader'
+import { ExercisePull } from '../src/lib/exercise-pull'
+import { ExerciseRangeScanner, getRangeCheckpoint } from '../src/lib/exercise-range-scanner'
+import { TrainerizeProgramManager, ProgramSyncStaleError, type ClientAssessment } from '../src/lib/trainerize-program-manager'
+import { startMockTrainerizeServer, MOCK_GROUP_ID, type MockTrainerizeServer } from './mock-trainerize-server'
+import { createInMemorySupabase, type InMemorySupabase } from './in-memory-supabase'
+
+// Runs the Trainerize client and the sync/program services against the in-process
+// Trainerize mock and an in-memory database, no credentials or network needed
+
+let mock: MockTrainerizeServer
+let memory: InMemorySupabase
+let client: TrainerizeClient
+let rateLimiter: TokenBucketRateLimiter
+
+const assessment: ClientAssessment = {
+  clientId: String(MOCK_GROUP_ID),
+  fitnessLevel: 'beginner',
+  goals: ['strength'],
+  equipment: ['Bodyweight'],
+  availableDays: 3,
+  sessionDuration: 45,
+  assessmentDate: '2024-01-01'
+}
+
+const workoutTemplates = [
+  { id: 'wt-1', name: 'Full Body A', trainerize_id: '301', sync_status: 'synced' },
+  { id: 'wt-2', name: 'Core Finisher', trainerize_id: '302', sync_status: 'synced' }
+]
+
+async function testAddExercise() {
+  console.log('🔍 Testing exercise creation...')
+
+  const result = await client.addExercise({ name: 'Mock Lunge', recordType: 'strength', tag: 'legs' })
+  if (!result.success || !mock.state.exercises.has(result.id)) {
+    console.log('❌ Exercise was not created in the mock:', result.error)
+    return false
+  }
+
+  console.log(`✅ Created exercise ${result.id}`)
+  return true
+}
+
+async function testUpdateExercise() {
+  console.log('\n🔍 Testing exercise update...')
+
+  await client.updateExercise({ id: 101, name: 'Push-ups', description: 'Updated offline' })
+  const updated = mock.state.exercises.get(101)
+  if (updated?.description !== 'Updated offline') {
+    console.log('❌ Update did not reach the mock')
+    return false
+  }
+
+  console.log('✅ Exercise updated')
+  return true
+}
+
+async function testRateLimitRetry() {
+  console.log('\n🔍 Testing 429 retry...')
+
+  mock.fail({ type: 'rate_limit', endpoint: '/exercise/get', times: 1, retryAfter: 1 })
+  const startedAt = Date.now()
+  const response = await client.makeRequest('/exercise/get', { id: 102 })
+  const elapsed = Date.now() - startedAt
+  const attempts = mock.requests.filter(r => r.endpoint === '/exercise/get')
+
+  if (response?.name !== 'Squats' || attempts.length !== 2 || attempts[0].status !== 429) {
+    console.log('❌ Rate limited request was not retried')
+    return false
+  }
+
+  // The retry has to wait out the mock's Retry-After of one second
+  if (elapsed < 900 || rateLimiter.getMetrics().rateLimitedResponses !== 1) {
+    console.log(`❌ Retry-After was not honored (retried after ${elapsed}ms)`)
+    return false
+  }
+
+  console.log(`✅ Rate limited request retried after ${elapsed}ms and succeeded`)
+  return true
+}
+
+async function testRangeScan() {
+  console.log('\n🔍 Testing range ID discovery...')
+
+  const { data: log } = await memory.db
+    .from('sync_logs')
+    .insert([{ sync_type: 'manual', metadata: { mode: 'range', range: { startId: 1, endId: 400 } } }])
+    .select()
+    .single()
+  const scanner = new ExerciseRangeScanner(client, memory.db)
+  const options = { concurrency: 3, sparseThreshold: 5, maxStride: 2, checkpointEvery: 10, logId: log!.id }
+
+  // Stop once something turns up, as a restart would
+  const stop = new AbortController()
+  const first = await scanner.scan({ ...options, startId: 1, endId: 400, signal: stop.signal, onExercise: () => stop.abort() })
+  const checkpoint = getRangeCheckpoint(memory.tables.sync_logs[0].metadata)
+  if (first.completed || !checkpoint || checkpoint.lastScannedId < 100 || checkpoint.lastScannedId >= 400) {
+    console.log('❌ Interrupted scan did not checkpoint where it stopped:', checkpoint)
+    return false
+  }
+
+  const rest = await scanner.scan({ ...options, startId: checkpoint.lastScannedId + 1, endId: checkpoint.endId })
+  // IDs after the checkpoint may be probed twice; saving them is an upsert
+  const ids = [...new Set([...first.exercises, ...rest.exercises].map(exercise => exercise.id))].sort()
+  if (!rest.completed || ids.join() !== '101,102,103' || rest.skipped === 0) {
+    console.log('❌ Resumed scan found unexpected exercises:', ids, rest)
+    return false
+  }
+
+  const probes = mock.requests.filter(r => r.endpoint === '/exercise/get').length
+  console.log(`✅ Found ${ids.length} exercises in 400 IDs with ${probes} probes, resuming from ID ${checkpoint.lastScannedId + 1}`)
+  return true
+}
+
+async function testAuthenticationFailure() {
+  console.log('\n🔍 Testing authentication failure...')
+
+  mock.fail({ type: 'unauthorized', endpoint: '/user/getProfile' })
+  const isValid = await client.validateConnection()
+  const attempts = mock.requests.filter(r => r.endpoint === '/user/getProfile')
+
+  if (isValid || attempts.length !== 1) {
+    console.log(`❌ Expected one failed attempt, got ${attempts.length}`)
+    return false
+  }
+
+  console.log('✅ Authentication failure reported without retrying')
+  return true
+}
+
+async function testApiErrorCode() {
+  console.log('\n🔍 Testing Trainerize error codes...')
+
+  mock.fail({ type: 'api_error', endpoint: '/exercise/delete', times: 1, code: 40, message: 'Exercise is in use' })
+  try {
+    await client.deleteExercise(103)
+    console.log('❌ Expected the delete to fail')
+    return false
+  } catch (error) {
+    const attempts = mock.requests.filter(r => r.endpoint === '/exercise/delete')
+    if (!(error instanceof TrainerizeBusinessError) || error.apiCode !== 40 || error.retryable) {
+      console.log('❌ Unexpected error:', error)
+      return false
+    }
+    // The API refused the request, so trying again can't help
+    if (attempts.length !== 1) {
+      console.log(`❌ Business error was retried (${attempts.length} attempts)`)
+      return false
+    }
+  }
+
+  console.log('✅ Error code surfaced as a business error without retrying')
+  return true
+}
+
+async function testCircuitBreaker() {
+  console.log('\n🔍 Testing circuit breaker...')
+
+  const circuitBreaker = new CircuitBreaker({ failureThreshold: 5, resetTimeoutMs: 300 })
+  const guarded = new TrainerizeClient({ rateLimiter, circuitBreaker, maxRetries: 3, retryDelay: 10 })
+
+  // Three attempts per item: the fifth failure, during the second item, opens the circuit
+  mock.fail({ type: 'server_error', endpoint: '/exercise/get' })
+  for (const id of [101, 102, 103]) {
+    await guarded.makeRequest('/exercise/get', { id }).catch(() => undefined)
+  }
+
+  const attempts = mock.requests.filter(r => r.endpoint === '/exercise/get')
+  const status = circuitBreaker.getStatus()
+  if (status.state !== 'open' || attempts.length !== 5) {
+    console.log(`❌ Expected the circuit to open after 5 attempts, got ${status.state} after ${attempts.length}`)
+    return false
+  }
+
+  try {
+    await guarded.makeRequest('/exercise/get', { id: 101 })
+    console.log('❌ Expected the open circuit to fail fast')
+    return false
+  } catch (error) {
+    if (!(error instanceof TrainerizeCircuitOpenError) || mock.requests.length !== attempts.length) {
+      console.log('❌ Open circuit still called the API:', error)
+      return false
+    }
+  }
+
+  // Thrown rather than reported as a failed add, so a queued bulk add defers the item
+  const added = await guarded.addExercise({ name: 'Mock Lunge', recordType: 'strength', tag: 'legs' }).catch(error => error)
+  if (!(added instanceof TrainerizeCircuitOpenError)) {
+    console.log('❌ Add during an open circuit was not thrown as retryable:', added)
+    return false
+  }
+
+  // After the reset timeout one probe goes out and closes the circuit again
+  mock.reset()
+  await new Promise(resolve => setTimeout(resolve, 350))
+  const exercise = await guarded.makeRequest('/exercise/get', { id: 101 })
+  const recovered = circuitBreaker.getStatus()
+  if (exercise?.name !== 'Push-ups' || recovered.state !== 'closed' || recovered.latency.samples !== 6) {
+    console.log('❌ Circuit did not close after a successful probe:', recovered)
+    return false
+  }
+
+  console.log(`✅ Circuit opened after 5 failures, failed fast, then closed (p95 ${recovered.latency.p95}ms)`)
+  return true
+}
+
+async function testPagination() {
+  console.log('\n🔍 Testing list pagination...')
+
+  // 2 seeded templates plus 5 more: three pages of 3
+  for (let id = 401; id <= 405; id++) {
+    mock.state.workoutDefs.set(id, { id, name: `Template ${id}`, type: 'workoutRegular', exercises: [] })
+  }
+  const pageRequests = () => mock.requests.filter(r => r.endpoint === '/workoutTemplate/getList')
+
+  const all = await client.getAllPages('/workoutTemplate/getList', { view: 'all' }, { pageSize: 3 })
+  if (all.length !== 7 || pageRequests().length !== 3) {
+    console.log(`❌ Expected 7 templates over 3 pages, got ${all.length} over ${pageRequests().length}`)
+    return false
+  }
+
+  mock.requests.length = 0
+  const seen: number[] = []
+  for await (const template of client.paginate('/workoutTemplate/getList', { view: 'all' }, { pageSize: 3 })) {
+    seen.push(template.id)
+    if (seen.length === 4) break
+  }
+  const limited = await client.getAllPages('/workoutTemplate/getList', { view: 'all' }, { pageSize: 3, maxItems: 5 })
+
+  // Breaking after 4 needs 2 pages, and so does capping at 5
+  if (seen.length !== 4 || limited.length !== 5 || pageRequests().length !== 4) {
+    console.log(`❌ Early termination fetched ${pageRequests().length} pages`)
+    return false
+  }
+
+  console.log('✅ Paged through every template and stopped early when asked')
+  return true
+}
+
+async function testExerciseDiscovery() {
+  console.log('\n🔍 Testing exercise discovery from plans...')
+
+  const exercises = await client.discoverExercisesFromPlans([MOCK_GROUP_ID])
+  const ids = exercises.map(e => e.id)
+  if (ids.join(',') !== '101,102,103') {
+    console.log('❌ Unexpected exercises discovered:', ids)
+    return false
+  }
+
+  // A workout edited inside a plan whose own timestamp is older than the watermark
+  const before = new Date(Date.now() - 60 * 60 * 1000).toISOString()
+  for (const record of [mock.state.trainingPlans.get(401), mock.state.workoutDefs.get(311)]) {
+    record.modified = before
+  }
+  mock.state.calendar = []
+  const since = new Date(Date.now() - 60 * 1000).toISOString()
+  const changed = (await client.discoverExercisesFromPlans([MOCK_GROUP_ID], { since })).map(e => e.id)
+  if (changed.join(',') !== '102,103') {
+    console.log('❌ Incremental discovery missed the edited workout:', changed)
+    return false
+  }
+
+  console.log(`✅ Discovered ${exercises.length} exercises, ${changed.length} from the one workout changed since the watermark`)
+  return true
+}
+
+async function testExercisePull() {
+  console.log('\n🔍 Testing exercise pull watermarks...')
+
+  // Saving Squats fails, as a constraint violation would
+  const failingDb = {
+    ...memory.db,
+    from: (table: string) => {
+      const query: any = memory.db.from(table as 'exercises')
+      const insert = query.insert.bind(query)
+      query.insert = (rows: any[]) => rows.some(row => row.name === 'Squats')
+        ? Promise.resolve({ data: null, error: { message: 'violates check constraint' } })
+        : insert(rows)
+      return query
+    }
+  } as typeof memory.db
+
+  const partial = await new ExercisePull({ db: failingDb, client }).run('incremental')
+  const [failedLog] = memory.tables.sync_logs
+  if (partial.created !== 2 || partial.failed !== 1 || partial.errors[0]?.trainerize_id !== '102' ||
+      failedLog.status !== 'failed' || failedLog.metadata.watermarks) {
+    console.log('❌ Failed exercise was dropped or the watermark advanced past it:', partial, failedLog)
+    return false
+  }
+
+  // Without a watermark the next run is a full one again, and picks up the exercise
+  const retried = await new ExercisePull({ db: memory.db, client }).run('incremental')
+  const next = await new ExercisePull({ db: memory.db, client }).run('incremental')
+  if (retried.plan.sync_type !== 'full' || retried.created !== 1 || retried.failed !== 0 ||
+      next.plan.sync_type !== 'incremental' || memory.tables.exercises.length !== 3) {
+    console.log('❌ Retried pull did not save the exercise or record a watermark:', retried, next.plan)
+    return false
+  }
+
+  // Pulling an exercise merged into another leaves the duplicate deactivated
+  const pulled = (trainerizeId: string) => memory.tables.exercises.find(row => String(row.trainerize_id) === trainerizeId)!
+  await new ExerciseMerges(memory.db, client).merge({ survivorId: pulled('101').id, mergedId: pulled('102').id })
+  const afterMerge = await new ExercisePull({ db: memory.db, client }).run('full')
+  const duplicate = pulled('102')
+  if (duplicate.is_active !== false || !duplicate.metadata?.merged_into || afterMerge.failed !== 0 ||
+      afterMerge.skipped === 0 || memory.tables.exercises.length !== 3) {
+    console.log('❌ Pull revived the merged exercise:', duplicate, afterMerge)
+    return false
+  }
+
+  console.log(`✅ Pull with ${partial.failed} failed exercise kept the previous watermark, the retry advanced it; a merged duplicate stayed merged`)
+  return true
+}
+
+async function testRecordAndReplay() {
+  console.log('\n🔍 Testing fixture recording and replay...')
+
+  const dir = await mkdtemp(path.join(tmpdir(), 'trainerize-fixtures-'))
+  try {
+    const recorder = new TrainerizeClient({ rateLimiter, retryDelay: 10, fixtures: new TrainerizeFixtures('record', dir) })
+    const exercise = await recorder.makeRequest('/exercise/get', { id: 101 })
+    const plans = await recorder.getTrainingPlans(MOCK_GROUP_ID)
+    // The mock has no /user/add, but the 404 is still recorded with the request body
+    await recorder.makeRequest('/user/add', {
+      user: { firstName: 'Fixture', lastName: 'Client', email: 'fixture@example.com' },
+      password: 'hunter2'
+    }).catch(error => {
+      if (!(error instanceof TrainerizeNotFoundError)) throw error
+    })
+
+    // Replay must not reach the (now empty) mock at all
+    mock.reset({ seed: false })
+    const replayer = new TrainerizeClient({ rateLimiter, fixtures: new TrainerizeFixtures('replay', dir) })
+    const replayedExercise = await replayer.makeRequest('/exercise/get', { id: 101 })
+    const replayedPlans = await replayer.getTrainingPlans(MOCK_GROUP_ID)
+
+    if (JSON.stringify(replayedExercise) !== JSON.stringify(exercise) ||
+        JSON.stringify(replayedPlans) !== JSON.stringify(plans) ||
+        mock.requests.length > 0) {
+      console.log('❌ Replay did not match the recording')
+      return false
+    }
+
+    const files = (await readdir(dir, { recursive: true })).filter(file => file.endsWith('.json'))
+    const contents = await Promise.all(files.map(file => readFile(path.join(dir, file), 'utf8')))
+    if (contents.some(content => content.includes('hunter2') || /authorization/i.test(content))) {
+      console.log('❌ Credentials were written to a fixture')
+      return false
+    }
+
+    try {
+      await replayer.makeRequest('/exercise/get', { id: 999 })
+      console.log('❌ Expected a missing fixture to fail')
+      return false
+    } catch (error) {
+      if (!(error instanceof Error) || !error.message.includes('No recorded Trainerize fixture')) throw error
+    }
+
+    console.log(`✅ Recorded ${files.length} fixtures and replayed them offline`)
+    return true
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
+
+async function testSyncPreviewAndPerform() {
+  console.log('\n🔍 Testing sync preview and perform...')
+
+  const service = new SyncService({ db: memory.db, client })
+  const preview = await service.previewSync()
+  if (preview.summary.to_create === 0 || preview.summary.to_create !== preview.total_trainerize_exercises) {
+    console.log('❌ Expected every exercise to be created on an empty database:', preview.summary)
+    return false
+  }
+
+  const result = await service.performSync(preview.operations)
+  if (!result.success || memory.tables.exercises.length !== preview.summary.to_create) {
+    console.log('❌ Sync did not create the exercises:', result.summary, result.errors)
+    return false
+  }
+
+  // The stored snapshots make an immediate second sync a no-op
+  const again = await service.previewSync()
+  if (again.summary.to_create !== 0 || again.summary.to_update !== 0 || again.summary.conflicts !== 0) {
+    console.log('❌ Second preview was not empty:', again.summary)
+    return false
+  }
+
+  console.log(`✅ Synced ${result.summary.created} exercises, second preview skips all of them`)
+  return true
+}
+
+async function testSyncDeletes() {
+  console.log('\n🔍 Testing delete propagation...')
+
+  const { data: rows } = await memory.db
+    .from('exercises')
+    .insert([
+      { name: 'Push-ups', trainerize_id: 'tr_1' },
+      { name: 'Cable Fly', trainerize_id: 'tr_9' },
+      { name: 'Plank', trainerize_id: '103' }
+    ])
+    .select()
+  const [pushups, missing, plank] = rows!
+  const service = new SyncService({ db: memory.db, client })
+
+  // The placeholder listing is partial, so Cable Fly and Plank being absent proves nothing
+  const partial = await service.previewSync({ deletePolicy: { trainerize_to_supabase: true } })
+  if (partial.summary.to_delete !== 0 || partial.summary.deletes_unverified !== 2) {
+    console.log('❌ A partial listing proposed deletes:', partial.summary)
+    return false
+  }
+
+  const listing = { complete: true, exercises: [{ id: 'tr_1', name: 'Push-ups' }, { id: '103', name: 'Plank' }] }
+  const blocked = await service.previewSync({ listing, deletePolicy: { trainerize_to_supabase: false } })
+  if (blocked.summary.to_delete !== 0 || blocked.summary.deletes_blocked !== 1) {
+    console.log('❌ Delete policy did not block the delete:', blocked.summary)
+    return false
+  }
+
+  const complete = await service.previewSync({ listing, deletePolicy: { trainerize_to_supabase: true } })
+  const remove = complete.operations.filter(op => op.operation === 'delete')
+  await service.performSync(remove)
+  const deleted = memory.tables.exercises.find(row => row.id === missing.id)
+  if (remove.length !== 1 || remove[0].direction !== 'to_supabase' || deleted?.is_active !== false ||
+      memory.tables.sync_tombstones[0]?.deleted_from !== 'trainerize') {
+    console.log('❌ Deleted Trainerize exercise was not soft-deleted:', remove, deleted)
+    return false
+  }
+
+  // Deleting twice still proposes one delete; reactivating proposes none and pulls it again
+  const tombstones = new SyncTombstones(memory.db)
+  await tombstones.softDeleteExercise(pushups.id)
+  await tombstones.softDeleteExercise(pushups.id)
+  const twice = await service.previewSync({ listing, deletePolicy: { supabase_to_trainerize: true } })
+  await memory.db.from('exercises').update({ is_active: true }).eq('id', pushups.id)
+  await tombstones.clearLocalDeletion(pushups.id)
+  const restored = await service.previewSync({ listing, deletePolicy: { supabase_to_trainerize: true } })
+  const restoredOp = restored.operations.find(op => op.existing_data?.id === pushups.id)
+  if (twice.operations.filter(op => op.operation === 'delete').length !== 1 || restored.summary.to_delete !== 0 ||
+      restoredOp?.reason === 'Deleted in Supabase') {
+    console.log('❌ Repeated or undone delete was proposed:', twice.summary, restored.summary, restoredOp?.reason)
+    return false
+  }
+
+  // A local delete only reaches Trainerize when the policy allows it
+  await tombstones.softDeleteExercise(plank.id)
+  const held = await service.previewSync({ listing })
+  const pushed = await service.previewSync({ listing, deletePolicy: { supabase_to_trainerize: true } })
+  const push = pushed.operations.filter(op => op.operation === 'delete')
+  if (held.summary.to_delete !== 0 || push.length !== 1 || push[0].direction !== 'to_trainerize') {
+    console.log('❌ Local delete was not proposed as the policy says:', held.summary, push)
+    return false
+  }
+
+  await service.performSync(push)
+  const tombstone = memory.tables.sync_tombstones.find(row => row.local_id === plank.id)
+  if (mock.state.exercises.has(103) || tombstone?.propagation_status !== 'propagated') {
+    console.log('❌ Local delete did not reach Trainerize:', tombstone)
+    return false
+  }
+
+  console.log('✅ Partial listings delete nothing; the policy gates deletes in both directions')
+  return true
+}
+
+async function testSyncMerge() {
+  console.log('\n🔍 Testing three-way sync merge...')
+
+  const base = { name: 'Push-ups', description: 'Hands under shoulders', category: 'strength', is_active: true }
+  const { data: rows } = await memory.db
+    .from('exercises')
+    .insert([
+      // Recategorized locally since the last sync
+      { ...base, trainerize_id: 'tr_1', category: 'bodyweight', last_synced_snapshot: base },
+      // Described differently on both sides
+      { ...base, name: 'Squats', trainerize_id: 'tr_2', description: 'Sit back', last_synced_snapshot: { ...base, name: 'Squats' } },
+      // Not linked yet, under the same name as a Trainerize exercise
+      { name: 'Goblet Squat', trainerize_id: null, description: 'Local notes', is_active: true }
+    ])
+    .select()
+  const [recategorized, , unlinked] = rows!
+  const service = new SyncService({ db: memory.db, client })
+
+  const listing = {
+    complete: false,
+    exercises: [
+      { ...base, id: 'tr_1', description: 'Elbows at 45 degrees' },
+      { ...base, id: 'tr_2', name: 'Squats', description: 'Knees over toes' },
+      { id: 'tr_3', name: 'Goblet Squat', description: 'Trainerize notes', is_active: true }
+    ]
+  }
+  const preview = await service.previewSync({ listing })
+  const [merged, conflicted, nameMatch] = preview.operations
+
+  // Changed on one side only: Trainerize's description is taken, the local category kept
+  if (merged.operation !== 'update' || merged.mapped_data.description !== 'Elbows at 45 degrees' || 'category' in merged.mapped_data ||
+      merged.merged_fields?.from_trainerize.join() !== 'description' || merged.merged_fields?.kept_local.join() !== 'category') {
+    console.log('❌ One-sided changes were not merged:', merged)
+    return false
+  }
+  const [fieldConflict] = conflicted.field_conflicts || []
+  if (conflicted.operation !== 'conflict' || conflicted.conflict_type !== 'fields' || conflicted.field_conflicts!.length !== 1 ||
+      fieldConflict.base !== base.description || fieldConflict.local !== 'Sit back' || fieldConflict.trainerize !== 'Knees over toes') {
+    console.log('❌ Field changed on both sides was not a conflict:', conflicted)
+    return false
+  }
+  if (nameMatch.operation !== 'conflict' || nameMatch.conflict_type !== 'name_match' || nameMatch.existing_data?.id !== unlinked.id) {
+    console.log('❌ Unlinked exercise with the same name was not flagged:', nameMatch)
+    return false
+  }
+
+  // An exercise linked to Trainerize can only keep one side or the other
+  const refused = (() => {
+    try {
+      service.resolveConflicts(preview.conflicts, [{ operation_id: 'tr_2', action: 'merge_as_new' }])
+    } catch (error) {
+      return error
+    }
+  })()
+  if (!(refused instanceof Error)) {
+    console.log('❌ A linked exercise was resolved as a new one')
+    return false
+  }
+
+  const resolved = service.resolveConflicts(preview.conflicts, [
+    { operation_id: 'tr_2', action: 'keep_local', fields: { description: 'trainerize' } },
+    { operation_id: 'tr_3', action: 'link' }
+  ])
+  const result = await service.performSync([merged, ...resolved])
+  const [pushUps, squats, goblet] = memory.tables.exercises
+  if (!result.success || pushUps.id !== recategorized.id || pushUps.category !== 'bodyweight' || pushUps.description !== 'Elbows at 45 degrees' ||
+      squats.description !== 'Knees over toes' || squats.last_synced_snapshot.description !== 'Knees over toes' ||
+      goblet.trainerize_id !== 'tr_3' || goblet.description !== 'Local notes' || memory.tables.exercises.length !== 3) {
+    console.log('❌ Resolved sync wrote unexpected rows:', result.errors, memory.tables.exercises)
+    return false
+  }
+
+  // The next sync merges against the new snapshots: nothing left to change, and the linked
+  // exercise only picks up the Trainerize payload the link left out
+  const again = await service.previewSync({ listing })
+  if (again.operations.slice(0, 2).some(op => op.operation !== 'skip') || again.conflicts.length !== 0 ||
+      'description' in again.operations[2].mapped_data) {
+    console.log('❌ Resynced exercises were not up to date:', again.operations)
+    return false
+  }
+
+  console.log('✅ Took one-sided changes, flagged both-sided ones and applied the chosen resolutions')
+  return true
+}
+
+async function testJobItemRetries() {
+  console.log('\n🔍 Testing job item retries...')
+
+  const now = new Date().toISOString()
+  memory.reset({
+    sync_jobs: [{
+      id: 'job-1', job_type: 'sync_exercises', status: 'queued', payload: {}, cursor: 0, total_items: 12,
+      processed_items: 0, failed_items: 0, attempts: 0, max_attempts: 3, locked_by: null, locked_at: null,
+      run_after: null, last_error: null, result: null, started_at: null, completed_at: null, created_at: now, updated_at: now
+    }],
+    sync_job_items: Array.from({ length: 12 }, (_, position) => ({
+      id: `item-${position}`, job_id: 'job-1', position, item_key: String(position), payload: {},
+      status: 'pending', attempts: 0, result: null, error: null, processed_at: null, created_at: now
+    }))
+  })
+
+  // Five transient failures spread over the job, one item that never succeeds and one
+  // that asks to be looked at again later
+  const flaky = new Map([['1', 1], ['4', 2], ['8', 1], ['10', 1], ['11', Infinity]])
+  let waitedOn = false
+  const queue = new JobQueue(memory.db)
+  queue.register('sync_exercises', {
+    retryDelayMs: 0,
+    async processItem(item) {
+      const failures = flaky.get(item.item_key) || 0
+      if (item.attempts < failures) throw new Error(`Transient failure on ${item.item_key}`)
+      if (item.item_key === '6' && !waitedOn) {
+        waitedOn = true
+        return { status: 'deferred' }
+      }
+      return { status: 'completed', result: { key: item.item_key } }
+    }
+  })
+
+  let passes = 0
+  while (memory.tables.sync_jobs[0].status === 'queued' && passes++ < 5) {
+    await queue.processJobs({ jobId: 'job-1' })
+  }
+
+  const [job] = memory.tables.sync_jobs
+  const failed = memory.tables.sync_job_items.filter(item => item.status === 'failed')
+  if (job.status !== 'completed' || job.attempts !== 0 || job.processed_items !== 12 || passes !== 3) {
+    console.log('❌ Transient item failures stopped the job:', job.status, job.attempts, job.last_error, passes)
+    return false
+  }
+  if (failed.length !== 1 || failed[0].item_key !== '11' || failed[0].attempts !== 3 || job.failed_items !== 1) {
+    console.log('❌ Expected only the persistently failing item to fail:', failed)
+    return false
+  }
+
+  // Cancelled while its last item fails: requeueing that item must not revive the job
+  memory.tables.sync_jobs.push({ ...job, id: 'job-2', status: 'queued', cursor: 0, processed_items: 0, failed_items: 0, completed_at: null })
+  memory.tables.sync_job_items.push(...Array.from({ length: 4 }, (_, position) => ({
+    id: `job-2-item-${position}`, job_id: 'job-2', position, item_key: String(position), payload: {},
+    status: 'pending', attempts: 0, result: null, error: null, processed_at: null, created_at: now
+  })))
+  const cancelling = new JobQueue(memory.db)
+  cancelling.register('sync_exercises', {
+    async processItem(item) {
+      if (item.item_key === '3') {
+        await cancelling.cancel('job-2')
+        throw new Error('Connection reset')
+      }
+      return { status: 'completed' }
+    }
+  })
+  await cancelling.processJobs({ jobId: 'job-2' })
+  const cancelled = memory.tables.sync_jobs.find(row => row.id === 'job-2')!
+  if (cancelled.status !== 'cancelled' || cancelled.result !== null) {
+    console.log('❌ Cancel during a run was overwritten:', cancelled.status, cancelled.result)
+    return false
+  }
+
+  console.log(`✅ Job completed in ${passes} passes through ${[...flaky.values()].filter(Number.isFinite).reduce((a, b) => a + b)} transient item failures`)
+  return true
+}
+
+async function testPayloadRoundTrip() {
+  console.log('\n🔍 Testing round-trip of unmodelled Trainerize fields...')
+
+  const service = new SyncService({ db: memory.db, client })
+  await service.performSync((await service.previewSync()).operations)
+  const stored = memory.tables.exercises[0]
+  const raw = stored?.metadata?.raw
+  if (!raw) {
+    console.log('❌ Pulled exercise has no stored Trainerize payload:', stored?.metadata)
+    return false
+  }
+
+  // A change Trainerize made only to a field we don't model still refreshes the payload
+  stored.metadata = { ...stored.metadata, raw: { ...raw, videoStatus: 'processing' } }
+  const preview = await service.previewSync()
+  const refresh = preview.operations.find(op => op.existing_data?.id === stored.id)
+  if (refresh?.operation !== 'update' || refresh.mapped_data.metadata?.raw?.videoStatus !== raw.videoStatus) {
+    console.log('❌ Payload-only change was not picked up:', refresh?.operation, refresh?.reason)
+    return false
+  }
+
+  // Pushing an edit sends the stored payload back with the edit laid over it
+  await client.updateExercise({ id: 101, name: 'Edited locally', description: undefined }, stored.metadata)
+  const [sent] = mock.requests.filter(r => r.endpoint === '/exercise/set')
+  const lost = Object.keys(stored.metadata.raw).filter(key => !(key in sent.body))
+  if (sent.body.name !== 'Edited locally' || sent.body.videoStatus !== 'processing' || lost.length > 0) {
+    console.log('❌ /exercise/set dropped stored fields:', lost, sent.body)
+    return false
+  }
+
+  console.log(`✅ Pushed ${Object.keys(sent.body).length} fields back, none of the stored payload lost`)
+  return true
+}
+
+async function testConnectionScoping() {
+  console.log('\n🔍 Testing per-connection scoping...')
+
+  process.env.TRAINERIZE_TOKEN_ENCRYPTION_KEY = 'a'.repeat(64)
+  const connections = new TrainerizeConnections(memory.db)
+  const created = await connections.create({ name: 'Second Gym', groupId: '777', apiToken: 'secret-token' })
+  // The in-memory store doesn't apply column defaults
+  await connections.update(created.id, { isActive: true })
+
+  const stored = memory.tables.trainerize_connections[0]
+  const connectionClient = await connections.getClient(created.id)
+  if (stored.api_token_encrypted.includes('secret-token') || 'api_token_encrypted' in created || connectionClient.groupId !== '777') {
+    console.log('❌ Connection token was not stored encrypted or not decrypted for its client')
+    return false
+  }
+
+  const service = new SyncService({ db: memory.db, client, connectionId: created.id })
+  const result = await service.performSync((await service.previewSync()).operations)
+  const scoped = memory.tables.exercises.filter(exercise => exercise.connection_id === created.id)
+  if (!result.success || scoped.length === 0 || scoped.length !== memory.tables.exercises.length) {
+    console.log('❌ Synced exercises were not tagged with their connection:', result.summary)
+    return false
+  }
+
+  // The default connection doesn't see them and would create its own copies
+  const preview = await new SyncService({ db: memory.db, client }).previewSync()
+  if (preview.summary.to_create !== scoped.length) {
+    console.log('❌ Default connection saw another connection\'s exercises:', preview.summary)
+    return false
+  }
+
+  console.log(`✅ Synced ${scoped.length} exercises into the connection, invisible to the default one`)
+  return true
+}
+
+async function testMappingProfiles() {
+  console.log('\n🔍 Testing mapping profiles...')
+
+  const profiles = new MappingProfiles(memory.db)
+  const profileClient = new TrainerizeClient({
+    rateLimiter,
+    maxRetries: 3,
+    retryDelay: 10,
+    mappingProfiles: profiles,
+    taxonomyTerms: new TaxonomyTerms(memory.db)
+  })
+
+  // The default profile tags through the taxonomy: rear delts sit under shoulders
+  const pushed = await profileClient.mapSupabaseToTrainerize({
+    name: 'Face Pull',
+    category: 'Strength',
+    muscle_groups: ['rear delts'],
+    video_url: 'https://youtu.be/abc'
+  })
+  if (pushed.tag !== 'shoulder' || pushed.recordType !== 'strength' || pushed.videoType !== 'youtube') {
+    console.log('❌ Default profile pushed unexpected fields:', pushed)
+    return false
+  }
+
+  try {
+    await profiles.create({ name: 'broken', fields: [{ column: 'name', trainerize: 'name', pull: [{ type: 'regex', pattern: '(' }] }] })
+    console.log('❌ A profile with an invalid regex was saved')
+    return false
+  } catch (error) {
+    if (!(error instanceof MappingProfileValidationError)) throw error
+  }
+
+  const prefixedFields = DEFAULT_MAPPING_PROFILE.fields.map(field =>
+    field.column === 'name' ? { ...field, pull: [{ type: 'regex' as const, pattern: '^', replacement: 'TZ: ' }] } : field
+  )
+  await profiles.create({ name: 'gym', fields: DEFAULT_MAPPING_PROFILE.fields })
+  const v2 = await profiles.create({ name: 'gym', fields: prefixedFields })
+
+  const [row] = previewMapping(
+    { id: v2.id, name: v2.name, version: v2.version, fields: prefixedFields },
+    await profiles.getActive(),
+    'pull',
+    [{ id: '1', name: 'Squat' }]
+  )
+  if (v2.version !== 2 || row.candidate.name !== 'TZ: Squat' || row.changed.join() !== 'name') {
+    console.log('❌ Unexpected version or preview:', v2.version, row)
+    return false
+  }
+
+  // Pulls go through the activated version
+  await profiles.activate(v2.id)
+  const preview = await new SyncService({ db: memory.db, client: profileClient }).previewSync()
+  const names = preview.operations.map(op => op.mapped_data.name)
+  if (preview.mapping_profile.version !== 2 || names.length === 0 || !names.every(name => name.startsWith('TZ: '))) {
+    console.log('❌ Sync preview did not use the active profile:', preview.mapping_profile, names)
+    return false
+  }
+
+  console.log(`✅ Activated ${v2.name} v${v2.version}; ${names.length} pulled exercises mapped through it`)
+  return true
+}
+
+async function testExerciseTaxonomy() {
+  console.log('\n🔍 Testing exercise taxonomy...')
+
+  const { data: rows } = await memory.db
+    .from('exercises')
+    .insert([
+      { name: 'Goblet Squat', trainerize_id: '201', muscle_groups: ['quadriceps', 'Glutes', 'grip'], equipment: ['kettlebells'] },
+      { name: 'Spleen Squeeze', trainerize_id: '202', muscle_groups: ['Spleen'], equipment: ['Dumbbells'] }
+    ])
+    .select()
+  const terms = new TaxonomyTerms(memory.db)
+
+  const dryRun = await terms.normalizeExisting({ dryRun: true })
+  const untouched = memory.tables.exercises.find(row => row.id === rows![0].id)
+  if (dryRun.changed.length !== 1 || untouched?.muscle_groups[0] !== 'quadriceps') {
+    console.log('❌ Dry run reported or changed the wrong rows:', dryRun.changed, untouched?.muscle_groups)
+    return false
+  }
+
+  // Unknown values stay and are counted
+  const result = await terms.normalizeExisting()
+  const [squat, squeeze] = memory.tables.exercises
+  if (squat.muscle_groups.join() !== 'Quads,Glutes,Forearms' || squat.equipment.join() !== 'Kettlebell' ||
+      squeeze.muscle_groups.join() !== 'Spleen' || result.unknown.muscle_groups.Spleen !== 1) {
+    console.log('❌ Normalization produced unexpected values:', squat, squeeze, result.unknown)
+    return false
+  }
+
+  const valid = await terms.validate({ muscle_groups: ['abs'], equipment: ['TRX'] })
+  if (valid.muscle_groups.join() !== 'Core' || valid.equipment.join() !== 'Suspension Trainer') {
+    console.log('❌ Validation did not canonicalize:', valid)
+    return false
+  }
+  try {
+    await terms.validate({ muscle_groups: ['Chest', 'wings'] })
+    console.log('❌ An unknown muscle group passed validation')
+    return false
+  } catch (error) {
+    if (!(error instanceof TaxonomyValidationError) || error.errors.join() !== 'Unknown muscle group "wings"') throw error
+  }
+
+  // A stored taxonomy replaces the built-in one, tags included
+  await memory.db.from('muscle_taxonomy').insert([
+    { slug: 'upper-body', name: 'Upper Body', parent_slug: null, trainerize_tag: 'arms', synonyms: [], sort_order: 1 },
+    { slug: 'neck', name: 'Neck', parent_slug: 'upper-body', trainerize_tag: null, synonyms: ['traps'], sort_order: 2 }
+  ])
+  const stored = await new TaxonomyTerms(memory.db).get()
+  const storedClient = new TrainerizeClient({ rateLimiter, mappingProfiles: new MappingProfiles(memory.db), taxonomyTerms: new TaxonomyTerms(memory.db) })
+  const pushed = await storedClient.mapSupabaseToTrainerize({ name: 'Shrug', muscle_groups: ['traps'] })
+  if (pushed.tag !== 'arms' || expandMuscleGroup('upper body', stored).join() !== 'Upper Body,Neck') {
+    console.log('❌ Stored taxonomy was not used:', pushed.tag, expandMuscleGroup('upper body', stored))
+    return false
+  }
+
+  console.log(`✅ Normalized ${result.changed.length} of ${result.scanned} exercises, rejected an unknown muscle group, tagged from the stored taxonomy`)
+  return true
+}
+
+async function testDuplicateDetection() {
+  console.log('\n🔍 Testing fuzzy duplicate detection...')
+
+  const abbreviated = scoreSimilarity({ name: 'DB Bench Press' }, { name: 'Dumbbell Bench Press' })
+  const variation = scoreSimilarity(
+    { name: 'Barbell Squat', equipment: ['Barbell'] },
+    { name: 'Barbell Front Squat', equipment: ['Barbell'] }
+  )
+  if (abbreviated.score < DUPLICATE_THRESHOLD || variation.score >= DUPLICATE_THRESHOLD) {
+    console.log('❌ Unexpected similarity scores:', abbreviated, variation)
+    return false
+  }
+
+  // A bulk add skips the abbreviated copy of a linked exercise
+  const outcome = await client.addExerciseFromSupabase(
+    { id: 'local-1', name: 'DB Bench Press', equipment: ['Dumbbells'] },
+    { existingExercises: [{ id: 'linked-1', name: 'Dumbbell Bench Press', equipment: ['Dumbbell'], trainerize_id: '555' }] }
+  )
+  if (outcome.status !== 'duplicate' || mock.requests.some(r => r.endpoint === '/exercise/add')) {
+    console.log('❌ Probable duplicate was pushed to Trainerize:', outcome)
+    return false
+  }
+
+  // The sync preview flags a Trainerize exercise that matches an unlinked local one
+  await memory.db.from('exercises').insert([{ name: 'Pushup', trainerize_id: null as any, equipment: ['Bodyweight'] }])
+  const preview = await new SyncService({ db: memory.db, client }).previewSync()
+  const flagged = preview.operations.find(op => op.trainerize_data.name === 'Push-ups')
+  if (flagged?.operation !== 'conflict' || flagged.duplicate_candidates?.[0]?.name !== 'Pushup') {
+    console.log('❌ Sync preview did not flag the probable duplicate:', flagged?.operation, flagged?.reason)
+    return false
+  }
+
+  console.log(`✅ Flagged "DB Bench Press" (score ${outcome.duplicate_score}) and "Pushup" as duplicates, "Front Squat" as distinct`)
+  return true
+}
+
+async function testExerciseMerge() {
+  console.log('\n🔍 Testing exercise merge...')
+
+  const { data: rows } = await memory.db
+    .from('exercises')
+    .insert([
+      { name: 'Dumbbell Push-up', trainerize_id: '101', equipment: ['Dumbbell'], description: '' },
+      { name: 'Push-ups', trainerize_id: 'tr_1', equipment: ['Bodyweight'], description: 'Basic bodyweight exercise' }
+    ])
+    .select()
+  const [survivor, duplicate] = rows!
+  await memory.db.from('workout_templates').insert([
+    { name: 'Full Body A', trainerize_id: '301', exercises: [{ def: { id: 'tr_1', name: 'Push-ups', sets: 3 } }, { def: { id: 102, name: 'Squats', sets: 3 } }] },
+    { name: 'Local Circuit', exercises: [{ exercise_id: duplicate.id, name: 'Push-ups', sets: 2 }] }
+  ])
+
+  const result = await new ExerciseMerges(memory.db, client).merge({
+    survivorId: survivor.id,
+    mergedId: duplicate.id,
+    fields: { equipment: 'union' }
+  })
+
+  const merged = memory.tables.exercises.find(row => row.id === duplicate.id)
+  if (result.survivor.equipment.join() !== 'Dumbbell,Bodyweight' ||
+      result.survivor.description !== 'Basic bodyweight exercise' ||
+      merged?.is_active !== false) {
+    console.log('❌ Fields were not merged as chosen:', result.survivor, merged?.is_active)
+    return false
+  }
+
+  // Both template shapes now point at the survivor, and the Trainerize workout was pushed
+  const [pushedTemplate, localTemplate] = memory.tables.workout_templates
+  const pushed = mock.state.workoutDefs.get(301)
+  if (pushedTemplate.exercises[0].def.id !== '101' || localTemplate.exercises[0].exercise_id !== survivor.id ||
+      result.workouts.pushed.length !== 1 || String(pushed?.exercises[0].def.id) !== '101') {
+    console.log('❌ Workout references were not repointed:', result.workouts, pushed?.exercises)
+    return false
+  }
+
+  // A late sync of the duplicate's Trainerize exercise resolves to the survivor
+  const preview = await new SyncService({ db: memory.db, client }).previewSync()
+  const late = preview.operations.find(op => op.id === 'tr_1')
+  if (late?.operation !== 'skip' || late.existing_data?.id !== survivor.id) {
+    console.log('❌ Late sync of the merged exercise was not redirected:', late?.operation, late?.reason)
+    return false
+  }
+
+  console.log(`✅ Merged into "${result.survivor.name}", repointed ${result.workouts.updated.length} templates, redirected the late sync`)
+  return true
+}
+
+// A minimal XLSX: deflated zip entries without CRCs, which the reader doesn't check
+function buildXlsx(parts: Record<string, string>): Buffer {
+  const locals: Buffer[] = []
+  const central: Buffer[] = []
+  let offset = 0
+
+  for (const [name, content] of Object.entries(parts)) {
+    const fileName = Buffer.from(name)
+    const data = deflateRawSync(Buffer.from(content))
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(8, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(Buffer.byteLength(content), 22)
+    local.writeUInt16LE(fileName.length, 26)
+
+    const entry = Buffer.alloc(46)
+    entry.writeUInt32LE(0x02014b50, 0)
+    entry.writeUInt16LE(8, 10)
+    entry.writeUInt32LE(data.length, 20)
+    entry.writeUInt32LE(Buffer.byteLength(content), 24)
+    entry.writeUInt16LE(fileName.length, 28)
+    entry.writeUInt32LE(offset, 42)
+
+    locals.push(local, fileName, data)
+    central.push(entry, fileName)
+    offset += local.length + fileName.length + data.length
+  }
+
+  const directory = Buffer.concat(central)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(central.length / 2, 8)
+  end.writeUInt16LE(central.length / 2, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...locals, directory, end])
+}
+
+async function testExerciseImport() {
+  console.log('\n🔍 Testing exercise import...')
+
+  await memory.db.from('exercises').insert([
+    { name: 'Push-ups', trainerize_id: '101', muscle_groups: ['Chest'], equipment: ['Bodyweight'] }
+  ])
+  const imports = new ExerciseImports(memory.db, client)
+
+  const csv = [
+    'Exercise Name,Muscle Group,Equipment,Difficulty,Video,Coach Notes',
+    '"Goblet Squat","quadriceps; glutes",kettlebell,Beginner,https://youtu.be/dQw4w9WgXcQ,"Chest up, ""sit back"""',
+    'Push Ups,chest,none,beginner,,',
+    'Wing Flap,wings,,expert,,',
+    'Goblet Squats,quads,kettlebell,beginner,,',
+    ',,,,,'
+  ].join('\r\n')
+
+  const preview = await imports.importFile(Buffer.from(csv), 'exercises.csv')
+  const statuses = preview.rows.map(row => `${row.row}:${row.status}`).join()
+  if (statuses !== '2:valid,3:duplicate,4:invalid,5:duplicate' || preview.unmappedHeaders.join() !== 'Coach Notes' ||
+      preview.rows[0].exercise.muscle_groups.join() !== 'Quads,Glutes' || memory.tables.exercises.length !== 1) {
+    console.log('❌ Unexpected dry run:', statuses, preview.mapping, preview.rows[0])
+    return false
+  }
+  if (!preview.rows[2].errors.includes('Unknown muscle group "wings"') || !preview.rows[3].duplicates[0]?.inFile) {
+    console.log('❌ Row problems were not reported:', preview.rows[2].errors, preview.rows[3].duplicates)
+    return false
+  }
+
+  // A mapping parsed from the request can be any JSON value
+  for (const mapping of [null, ['name'], 'name', { name: 5 }]) {
+    const error = await imports.importFile(Buffer.from(csv), 'exercises.csv', { mapping: mapping as any }).catch(error => error)
+    if (!(error instanceof ExerciseImportError)) {
+      console.log('❌ Malformed mapping was not refused:', mapping, error)
+      return false
+    }
+  }
+
+  // Confirmed, with the notes column mapped by hand
+  const result = await imports.importFile(Buffer.from(csv), 'exercises.csv', { dryRun: false, mapping: { description: 'Coach Notes' } })
+  const imported = memory.tables.exercises.find(row => row.id === result.importedIds[0])
+  if (result.importedIds.length !== 1 || imported?.description !== 'Chest up, "sit back"' ||
+      imported?.equipment.join() !== 'Kettlebell' || imported?.sync_status !== 'pending') {
+    console.log('❌ Confirmed import inserted unexpected rows:', result.summary, imported)
+    return false
+  }
+
+  // Shared rich-text and inline strings, and a skipped sheet row
+  const xlsx = buildXlsx({
+    'xl/workbook.xml': '<workbook><sheets><sheet name="Exercises" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/exercises.xml"/></Relationships>',
+    'xl/sharedStrings.xml': '<sst><si><t>Name</t></si><si><r><t>Bench </t></r><r><t>Press</t></r></si><si><t>Gear</t></si></sst>',
+    'xl/worksheets/exercises.xml': '<worksheet><sheetData>' +
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>2</v></c></row>' +
+      '<row r="3"><c r="A3" t="s"><v>1</v></c><c r="B3" t="inlineStr"><is><t>BB</t></is></c></row>' +
+      '</sheetData></worksheet>'
+  })
+  const sheet = await imports.importFile(xlsx, 'exercises.xlsx')
+  const [row] = sheet.rows
+  if (sheet.rows.length !== 1 || row.row !== 3 || row.status !== 'valid' ||
+      row.exercise.name !== 'Bench Press' || row.exercise.equipment?.join() !== 'Barbell') {
+    console.log('❌ XLSX was read incorrectly:', sheet.headers, sheet.mapping, sheet.rows)
+    return false
+  }
+
+  // Files that would crash the reader or fill memory are refused as bad files
+  const pastEnd = Buffer.from(xlsx)
+  pastEnd.writeUInt32LE(0xffffff00, pastEnd.length - 6)
+  const malformed = [
+    pastEnd,
+    buildXlsx({ 'xl/worksheets/sheet1.xml': '<worksheet><sheetData><row r="900000000"><c><v>1</v></c></row></sheetData></worksheet>' }),
+    buildXlsx({ 'xl/worksheets/sheet1.xml': ' '.repeat(51 * 1024 * 1024) })
+  ]
+  for (const file of malformed) {
+    const error = await imports.importFile(file, 'exercises.xlsx').catch(error => error)
+    if (!(error instanceof SpreadsheetError)) {
+      console.log('❌ Malformed XLSX was not refused as a bad file:', error)
+      return false
+    }
+  }
+
+  console.log(`✅ Dry run flagged ${preview.summary.invalid} invalid and ${preview.summary.duplicates} duplicate rows, imported ${result.summary.imported}, read XLSX, refused malformed files`)
+  return true
+}
+
+async function testExerciseVideos() {
+  console.log('\n🔍 Testing exercise videos...')
+
+  const shapes = [
+    'https://youtu.be/dQw4w9WgXcQ?t=42',
+    'youtube.com/shorts/dQw4w9WgXcQ',
+    'https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ'
+  ]
+  const canonical = shapes.map(url => normalizeVideoUrl(url)?.canonicalUrl)
+  if (!canonical.every(url => url === 'https://www.youtube.com/watch?v=dQw4w9WgXcQ') ||
+      normalizeVideoUrl('https://player.vimeo.com/video/76979871')?.canonicalUrl !== 'https://vimeo.com/76979871') {
+    console.log('❌ Video URLs were not normalized:', canonical)
+    return false
+  }
+
+  // Unsupported hosts never reach /exercise/add
+  const rejected = await client.addExercise({ name: 'Mock Row', videoUrl: 'https://example.com/row.mp4' })
+  if (rejected.success || mock.requests.some(r => r.endpoint === '/exercise/add')) {
+    console.log('❌ Exercise with an unsupported video was sent to Trainerize')
+    return false
+  }
+
+  const { data: inserted } = await memory.db
+    .from('exercises')
+    .insert([{ name: 'Push-ups', trainerize_id: '101', video_url: 'youtu.be/dQw4w9WgXcQ', metadata: { raw: { id: 101 } } }])
+    .select()
+    .single()
+  const videos = new ExerciseVideos(memory.db, new StubVideoMetadataProvider())
+  await videos.applyToExercise(inserted!)
+  const stored = memory.tables.exercises[0]
+  if (stored.video_url !== 'https://www.youtube.com/watch?v=dQw4w9WgXcQ' ||
+      stored.thumbnail_url !== 'https://i.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg') {
+    console.log('❌ Video details were not saved:', stored.video_url, stored.thumbnail_url)
+    return false
+  }
+
+  // Trainerize reports processing until the video is ready
+  const exercise = mock.state.exercises.get(101)!
+  exercise.videoUrl = stored.video_url
+  exercise.videoStatus = 'processing'
+  const first = await videos.checkStatus(stored.id, client)
+  delete exercise.videoStatus
+  const second = await videos.checkStatus(stored.id, client)
+  if (first !== 'processing' || second !== 'ready' || stored.video_status !== 'ready' || stored.metadata.raw.videoStatus !== 'ready') {
+    console.log('❌ Unexpected video status:', first, second, stored.video_status)
+    return false
+  }
+
+  console.log('✅ Normalized video URLs, rejected an unsupported host and tracked processing → ready')
+  return true
+}
+
+async function testProgramGeneration() {
+  console.log('\n🔍 Testing program generation...')
+
+  memory.reset({ workout_templates: workoutTemplates })
+  const manager = new TrainerizeProgramManager({ db: memory.db, client })
+  const { program, workouts } = await manager.generateProgramFromAssessment(assessment)
+
+  // Beginners get 8 weeks; every day of the week is scheduled, the rest as rest days
+  const trainingDays = workouts.filter(w => !w.rest_day)
+  if (workouts.length !== 8 * 7 || trainingDays.length !== 8 * 3 || memory.tables.plan_workouts.length !== workouts.length) {
+    console.log(`❌ Unexpected schedule: ${workouts.length} workouts, ${trainingDays.length} training days`)
+    return false
+  }
+
+  console.log(`✅ Generated "${program.name}" with ${trainingDays.length} training days`)
+  return true
+}
+
+async function testProgramCloning() {
+  console.log('\n🔍 Testing program cloning...')
+
+  memory.reset({ workout_templates: workoutTemplates })
+  const manager = new TrainerizeProgramManager({ db: memory.db, client })
+  const { program, trainingPlan } = await manager.generateProgramFromAssessment(assessment)
+  const clone = await manager.cloneProgram(program.id)
+
+  const [clonedPlan] = await manager.getTrainingPlansForProgram(clone.id)
+  const original = await manager.getScheduledWorkouts(trainingPlan.id)
+  const cloned = clonedPlan ? await manager.getScheduledWorkouts(clonedPlan.id) : []
+
+  if (clone.id === program.id || clone.name !== `${program.name} (Copy)` || cloned.length !== original.length) {
+    console.log(`❌ Clone has ${cloned.length} scheduled workouts, expected ${original.length}`)
+    return false
+  }
+
+  console.log(`✅ Cloned program with ${cloned.length} scheduled workouts`)
+  return true
+}
+
+async function testProgramImport() {
+  console.log('\n🔍 Testing program import...')
+
+  await memory.db.from('exercises').insert([{ name: 'Push-ups', trainerize_id: '101', is_active: true }])
+  const manager = new TrainerizeProgramManager({ db: memory.db, client })
+
+  const first = await manager.importFromTrainerize(String(MOCK_GROUP_ID))
+  const [plan] = first.trainingPlans
+  if (first.trainingPlans.length !== 1 || plan.trainerize_plan_id !== '401' || first.importedWorkouts !== 2 ||
+      first.importedTemplates !== 2 || first.importedExercises !== 2 || memory.tables.exercises.length !== 3) {
+    console.log('❌ Training plan was not imported:', first.trainingPlans, first.importedWorkouts, first.importedExercises)
+    return false
+  }
+
+  // Re-importing refreshes the same program instead of adding another
+  mock.state.workoutDefs.get(312).name = 'Lower Body Strength - Week 1 Day 3'
+  const second = await manager.importFromTrainerize(String(MOCK_GROUP_ID))
+  const renamed = memory.tables.workout_templates.find(row => row.trainerize_id === '312')
+  if (second.program.id !== first.program.id || memory.tables.training_programs.length !== 1 || memory.tables.training_plans.length !== 1 ||
+      memory.tables.plan_workouts.length !== 2 || memory.tables.workout_templates.length !== 2 ||
+      renamed?.name !== 'Lower Body Strength' || second.importedExercises !== 0) {
+    console.log('❌ Re-import duplicated or missed changes:', second.program, memory.tables.plan_workouts, memory.tables.workout_templates)
+    return false
+  }
+
+  // Another connection gets a program and exercises of its own
+  const otherGroup = new TrainerizeProgramManager({ db: memory.db, client, connectionId: 'conn-b' })
+  const elsewhere = await otherGroup.importFromTrainerize(String(MOCK_GROUP_ID))
+  const otherExercises = memory.tables.exercises.filter(row => row.connection_id === 'conn-b')
+  if (elsewhere.program.id === first.program.id || elsewhere.importedExercises !== 3 || otherExercises.length !== 3 ||
+      memory.tables.exercises.filter(row => !row.connection_id).length !== 3) {
+    console.log('❌ Import for another connection reused the default one:', elsewhere.program, memory.tables.exercises)
+    return false
+  }
+
+  // Workouts without a week in their name repeat every week; a fresh import is in sync
+  for (const id of [311, 312]) {
+    mock.state.workoutDefs.get(id).name = `Workout ${id}`
+  }
+  const repeated = await manager.importFromTrainerize(String(MOCK_GROUP_ID))
+  for (const sourceOfTruth of ['local', 'trainerize'] as const) {
+    const preview = await manager.previewProgramSync(repeated.program.id, { sourceOfTruth, allowRemovals: true })
+    if (repeated.importedWorkouts <= 2 || preview.operations.length !== 0) {
+      console.log(`❌ Preview against ${sourceOfTruth} right after an import proposed changes:`, repeated.importedWorkouts, preview.operations)
+      return false
+    }
+  }
+
+  // A failed fetch leaves the schedule alone instead of reading as an empty plan
+  mock.fail({ type: 'api_error', endpoint: '/trainingPlan/getWorkoutDefList', code: 400, message: 'Bad request' })
+  const failedDefs = await manager.importFromTrainerize(String(MOCK_GROUP_ID)).catch(error => error)
+  mock.fail({ type: 'unauthorized', endpoint: '/trainingPlan/getList', times: 1 })
+  const failedPlans = await manager.importFromTrainerize(String(MOCK_GROUP_ID)).catch(error => error)
+  if (!(failedDefs instanceof TrainerizeBusinessError) || !(failedPlans instanceof TrainerizeAuthError) ||
+      memory.tables.plan_workouts.filter(row => row.training_plan_id === plan.id).length !== repeated.importedWorkouts) {
+    console.log('❌ Failed re-import was not reported or cleared the schedule:', failedDefs, failedPlans)
+    return false
+  }
+
+  console.log(`✅ Imported ${first.importedWorkouts} scheduled workouts and ${first.importedExercises} new exercises, re-import updated in place`)
+  return true
+}
+
+async function testProgramSync() {
+  console.log('\n🔍 Testing program export and sync...')
+
+  memory.reset({ workout_templates: workoutTemplates })
+  const manager = new TrainerizeProgramManager({ db: memory.db, client })
+  const own = await manager.generateProgramFromAssessment(assessment)
+  const other = await manager.generateProgramFromAssessment({ ...assessment, clientId: '2000' })
+
+  const exported = await manager.exportToTrainerize(own.program.id, String(MOCK_GROUP_ID))
+  await manager.exportToTrainerize(other.program.id, '2000')
+  const [plan] = await manager.getTrainingPlansForProgram(own.program.id)
+  const [otherPlan] = await manager.getTrainingPlansForProgram(other.program.id)
+  if (exported.syncStatus !== 'success' || !plan.trainerize_plan_id || !mock.state.trainingPlans.has(parseInt(plan.trainerize_plan_id))) {
+    console.log('❌ Program was not exported:', exported)
+    return false
+  }
+
+  // The plan is deleted in Trainerize; only the preview decides what a removal targets
+  mock.state.trainingPlans.delete(parseInt(plan.trainerize_plan_id))
+  const options = { sourceOfTruth: 'trainerize' as const, allowRemovals: true }
+  const preview = await manager.previewProgramSync(own.program.id, options)
+  const removal = preview.operations.find(op => op.action === 'remove' && op.entity === 'plan')
+
+  const forged = await manager.performReviewedProgramSync(own.program.id, [`plan:remove:${otherPlan.id}`], options).catch(error => error)
+  if (!(forged instanceof ProgramSyncStaleError) || !memory.tables.training_plans.some(row => row.id === otherPlan.id)) {
+    console.log('❌ An operation on another program\'s plan was applied:', forged)
+    return false
+  }
+
+  const result = await manager.performReviewedProgramSync(own.program.id, [removal!.id], options)
+  const remaining = memory.tables.training_plans.map(row => row.id)
+  if (!result.success || result.summary.removed !== 1 || remaining.includes(plan.id) || !remaining.includes(otherPlan.id)) {
+    console.log('❌ Reviewed removal was not applied:', result, remaining)
+    return false
+  }
+
+  console.log(`✅ Exported ${exported.exportedWorkouts} workouts, rejected a forged removal, applied the previewed one`)
+  return true
+}
+
+async function main() {
+  console.log('🚀 Offline Trainerize Test Suite')
+  console.log('=' .repeat(40))
+
+  mock = await startMockTrainerizeServer()
+  memory = createInMemorySupabase()
+  process.env.TRAINERIZE_API_URL = mock.url
+  process.env.TRAINERIZE_GROUP_ID = String(MOCK_GROUP_ID)
+  rateLimiter = new TokenBucketRateLimiter({ requestsPerSecond: 100, burst: 100 })
+  client = new TrainerizeClient({
+    rateLimiter,
+    maxRetries: 3,
+    retryDelay: 10,
+    mappingProfiles: new MappingProfiles(memory.db),
+    taxonomyTerms: new TaxonomyTerms(memory.db)
+  })
+
+  const tests = [
+    { name: 'Add Exercise', fn: testAddExercise },
+    { name: 'Update Exercise', fn: testUpdateExercise },
+    { name: 'Rate Limit Retry', fn: testRateLimitRetry },
+    { name: 'Range Scan', fn: testRangeScan },
+    { name: 'Authentication Failure', fn: testAuthenticationFailure },
+    { name: 'API Error Code', fn: testApiErrorCode },
+    { name: 'Circuit Breaker', fn: testCircuitBreaker },
+    { name: 'Pagination', fn: testPagination },
+    { name: 'Exercise Discovery', fn: testExerciseDiscovery },
+    { name: 'Exercise Pull', fn: testExercisePull },
+    { name: 'Record and Replay', fn: testRecordAndReplay },
+    { name: 'Sync Preview and Perform', fn: testSyncPreviewAndPerform },
+    { name: 'Sync Deletes', fn: testSyncDeletes },
+    { name: 'Sync Merge', fn: testSyncMerge },
+    { name: 'Job Item Retries', fn: testJobItemRetries },
+    { name: 'Payload Round-Trip', fn: testPayloadRoundTrip },
+    { name: 'Connection Scoping', fn: testConnectionScoping },
+    { name: 'Mapping Profiles', fn: testMappingProfiles },
+    { name: 'Exercise Taxonomy', fn: testExerciseTaxonomy },
+    { name: 'Duplicate Detection', fn: testDuplicateDetection },
+    { name: 'Exercise Merge', fn: testExerciseMerge },
+    { name: 'Exercise Import', fn: testExerciseImport },
+    { name: 'Exercise Videos', fn: testExerciseVideos },
+    { name: 'Program Generation', fn: testProgramGeneration },
+    { name: 'Program Cloning', fn: testProgramCloning },
+    { name: 'Program Import', fn: testProgramImport },
+    { name: 'Program Sync', fn: testProgramSync }
+  ]
+
+  let passed = 0
+  let failed = 0
+
+  for (const test of tests) {
+    mock.reset()
+    memory.reset()
+    try {
+      if (await test.fn()) {
+        passed++
+      } else {
+        failed++
+      }
+    } catch (error) {
+      console.error(`❌ ${test.name} crashed:`, error)
+      failed++
+    }
+  }
+
+  await mock.close()
+
+  console.log('\n📊 Test Results:')
+  console.log(`   ✅ Passed: ${passed}`)
+  console.log(`   ❌ Failed: ${failed}`)
+
+  process.exit(failed === 0 ? 0 : 1)
+}
+
+main().catch(error => {
+  console.error('❌ Test suite crashed:', error)
+  process.exit(1)
+})
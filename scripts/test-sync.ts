@@ -4,6 +4,7 @@ import { config } from 'dotenv'
 import { syncService } from '../src/lib/sync-service'
 import { schemaInspector } from '../src/lib/schema-inspector'
 import { supabaseAdmin } from '../src/lib/supabase'
+import { startMockIfRequested } from './mock-trainerize-server'
 
 // Load environment variables
 config({ path: '.env.local' })
@@ -160,6 +161,9 @@ async function main() {
   console.log('🚀 Trainerize Sync Test Suite')
   console.log('=' .repeat(40))
 
+  // Pass --mock to run against the in-process Trainerize stand-in
+  await startMockIfRequested()
+
   const tests = [
     { name: 'Database Connection', fn: testDatabaseConnection },
     { name: 'Schema Inspection', fn: inspectSchema },
@@ -2,6 +2,7 @@
 
 import { config } from 'dotenv'
 import { trainerizeClient } from '../src/lib/trainerize-client'
+import { startMockIfRequested } from './mock-trainerize-server'
 
 // Load environment variables
 config({ path: '.env.local' })
@@ -165,8 +166,9 @@ async function testClientStats() {
     
     console.log('📊 Client Stats:')
     console.log(`   Connection valid: ${stats.connectionValid ? '✅' : '❌'}`)
-    console.log(`   Rate limit delay: ${stats.rateLimitDelay}ms`)
-    console.log(`   Last request: ${stats.lastRequestTime > 0 ? new Date(stats.lastRequestTime).toLocaleTimeString() : 'Never'}`)
+    console.log(`   Requests: ${stats.rateLimit.requests} (${stats.rateLimit.delayedRequests} delayed)`)
+    console.log(`   Rate limit wait: avg ${stats.rateLimit.averageWaitMs}ms, max ${stats.rateLimit.maxWaitMs}ms`)
+    console.log(`   429 responses: ${stats.rateLimit.rateLimitedResponses}`)
     
     return stats
   } catch (error) {
@@ -178,6 +180,9 @@ async function testClientStats() {
 async function main() {
   console.log('🚀 Trainerize Client Test Suite')
   console.log('=' .repeat(50))
+
+  // Pass --mock to run against the in-process Trainerize stand-in
+  await startMockIfRequested()
   
   // Check environment variables
   const requiredEnvVars = ['TRAINERIZE_GROUP_ID', 'TRAINERIZE_API_TOKEN']
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { trainerizeConnections } from '@/lib/trainerize-connections'
+import { errorResponse } from '@/lib/api-errors'
+import type { ApiResponse } from '@/types'
+
+// Rename a connection, rotate its token, or switch it on and off
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { name, groupId, apiToken, isActive } = await request.json()
+
+    const connection = await trainerizeConnections.update(id, {
+      name,
+      groupId: groupId !== undefined ? String(groupId) : undefined,
+      apiToken,
+      isActive
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: connection
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error updating Trainerize connection:', error)
+    return errorResponse(error, 'Failed to update connection')
+  }
+}
+
+// Re-checks the stored credentials against Trainerize
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const valid = await trainerizeConnections.validate(id)
+
+    return NextResponse.json({
+      success: true,
+      data: { valid },
+      message: valid ? 'Connection is valid' : 'Trainerize rejected the connection credentials'
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error validating Trainerize connection:', error)
+    return errorResponse(error, 'Failed to validate connection')
+  }
+}
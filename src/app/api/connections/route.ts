@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { trainerizeConnections } from '@/lib/trainerize-connections'
+import { errorResponse } from '@/lib/api-errors'
+import type { ApiResponse } from '@/types'
+
+export async function GET() {
+  try {
+    const connections = await trainerizeConnections.list()
+
+    return NextResponse.json({
+      success: true,
+      data: connections
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error listing Trainerize connections:', error)
+    return errorResponse(error, 'Failed to list connections')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { name, groupId, apiToken, validate = true } = body
+
+    if (!name || !groupId || !apiToken) {
+      return NextResponse.json(
+        { success: false, error: 'name, groupId and apiToken are required' } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const connection = await trainerizeConnections.create({
+      name,
+      groupId: String(groupId),
+      apiToken
+    })
+
+    const valid = validate ? await trainerizeConnections.validate(connection.id) : null
+
+    return NextResponse.json({
+      success: true,
+      data: { connection, valid },
+      message: valid === false
+        ? `Connection "${name}" saved, but Trainerize rejected its credentials`
+        : `Connection "${name}" saved`
+    } as ApiResponse, { status: 201 })
+
+  } catch (error) {
+    console.error('Error creating Trainerize connection:', error)
+    return errorResponse(error, 'Failed to create connection')
+  }
+}
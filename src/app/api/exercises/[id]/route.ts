@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
+import { syncTombstones } from '@/lib/sync-tombstones'
+import { taxonomyTerms, TaxonomyValidationError } from '@/lib/taxonomy-terms'
 import type { ApiResponse } from '@/types'
 
 export async function GET(
@@ -42,8 +44,21 @@ export async function PUT(
 ) {
   try {
     const { id } = await params
-    const body = await request.json()
-    
+    let body = await request.json()
+
+    // Muscle groups and equipment are saved as canonical taxonomy names
+    try {
+      body = await taxonomyTerms.validate(body)
+    } catch (taxonomyError) {
+      if (taxonomyError instanceof TaxonomyValidationError) {
+        return NextResponse.json(
+          { success: false, error: 'Validation failed', details: taxonomyError.errors } as ApiResponse,
+          { status: 400 }
+        )
+      }
+      throw taxonomyError
+    }
+
     const { data, error } = await supabase
       .from('exercises')
       .update({ ...body, updated_at: new Date().toISOString() })
@@ -59,6 +74,11 @@ export async function PUT(
       )
     }
 
+    // Reactivating undoes a delete that hasn't reached Trainerize yet
+    if (body.is_active === true) {
+      await syncTombstones.clearLocalDeletion(id)
+    }
+
     return NextResponse.json({
       success: true,
       data,
@@ -80,12 +100,11 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params
-    const { error } = await supabase
-      .from('exercises')
-      .delete()
-      .eq('id', id)
 
-    if (error) {
+    // Soft delete with a tombstone so the next sync can propagate it to Trainerize
+    try {
+      await syncTombstones.softDeleteExercise(id)
+    } catch (error) {
       console.error('Error deleting exercise:', error)
       return NextResponse.json(
         { success: false, error: 'Failed to delete exercise' } as ApiResponse,
@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { trainerizeClient } from '@/lib/trainerize-client'
 import { supabaseAdmin } from '@/lib/supabase'
+import { trainerizeConnections } from '@/lib/trainerize-connections'
+import { jobQueue, trackVideoStatus } from '@/lib/sync-jobs'
+import { exerciseVideos, VideoValidationError } from '@/lib/exercise-videos'
+import { taxonomyTerms, TaxonomyValidationError } from '@/lib/taxonomy-terms'
+import { errorResponse } from '@/lib/api-errors'
 import type { ApiResponse } from '@/types'
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { exerciseId, exerciseData, addToTrainerize = true } = body
+    const { exerciseId, exerciseData, addToTrainerize = true, connectionId = null, allowDuplicates = false } = body
+    const trainerizeClient = await trainerizeConnections.getClient(connectionId)
 
     let exercise: any
 
@@ -48,27 +53,60 @@ export async function POST(request: NextRequest) {
       } as ApiResponse)
     }
 
+    // Muscle groups and equipment must be taxonomy terms; they go on as canonical names
+    try {
+      exercise = await taxonomyTerms.validate(exercise)
+    } catch (taxonomyError) {
+      if (taxonomyError instanceof TaxonomyValidationError) {
+        return NextResponse.json(
+          { success: false, error: 'Validation failed', details: taxonomyError.errors } as ApiResponse,
+          { status: 400 }
+        )
+      }
+      throw taxonomyError
+    }
+
+    // Canonical video URL and a thumbnail; unsupported video hosts never reach Trainerize
+    try {
+      exercise = await exerciseVideos.applyToExercise(exercise)
+    } catch (videoError) {
+      if (videoError instanceof VideoValidationError) {
+        return NextResponse.json(
+          { success: false, error: videoError.message } as ApiResponse,
+          { status: 400 }
+        )
+      }
+      throw videoError
+    }
+
     let trainerizeResult = null
 
     // Add to Trainerize if requested
     if (addToTrainerize) {
       try {
-        // Check for duplicates first
-        const duplicateCheck = await trainerizeClient.checkForDuplicates(exercise.name)
+        // Check for probable duplicates first; allowDuplicates adds it anyway
+        const duplicateCheck = await trainerizeClient.checkForDuplicates(exercise)
         
-        if (duplicateCheck.isDuplicate) {
+        if (duplicateCheck.isDuplicate && !allowDuplicates) {
           return NextResponse.json({
             success: false,
             error: 'Duplicate exercise found in Trainerize',
             data: {
               duplicate: duplicateCheck.existingExercise,
+              candidates: duplicateCheck.candidates.map(candidate => ({
+                id: candidate.exercise.id,
+                name: candidate.exercise.name,
+                trainerize_id: candidate.exercise.trainerize_id,
+                score: candidate.score,
+                matched_on: candidate.matchedOn
+              })),
               reason: 'Exercise with similar name already exists in Trainerize'
             }
           } as ApiResponse, { status: 409 })
         }
 
         // Map and add to Trainerize
-        const trainerizeFormat = trainerizeClient.mapSupabaseToTrainerize(exercise)
+        const trainerizeFormat = await trainerizeClient.mapSupabaseToTrainerize(exercise)
         const result = await trainerizeClient.addExercise(trainerizeFormat)
 
         if (result.success && result.id) {
@@ -78,7 +116,8 @@ export async function POST(request: NextRequest) {
             .update({
               trainerize_id: result.id.toString(),
               synced_at: new Date().toISOString(),
-              sync_status: 'synced'
+              sync_status: 'synced',
+              connection_id: connectionId
             })
             .eq('id', exercise.id)
 
@@ -86,10 +125,16 @@ export async function POST(request: NextRequest) {
             console.error('Failed to update Supabase with Trainerize ID:', updateError)
           }
 
+          // Trainerize processes uploaded videos in the background; follow it until ready
+          const videoJob = exercise.video_url && exercise.id
+            ? await trackVideoStatus([exercise.id], { connectionId })
+            : null
+
           trainerizeResult = {
             success: true,
             trainerize_id: result.id.toString(),
-            synced_at: new Date().toISOString()
+            synced_at: new Date().toISOString(),
+            video_job_id: videoJob?.id
           }
         } else {
           trainerizeResult = {
@@ -114,6 +159,7 @@ export async function POST(request: NextRequest) {
         status: 'completed',
         started_at: new Date().toISOString(),
         completed_at: new Date().toISOString(),
+        connection_id: connectionId,
         records_processed: 1,
         records_created: trainerizeResult?.success ? 1 : 0,
         error_message: trainerizeResult?.success === false ? trainerizeResult.error : null,
@@ -141,13 +187,7 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('Error adding exercise:', error)
-    return NextResponse.json(
-      { 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Failed to add exercise' 
-      } as ApiResponse,
-      { status: 500 }
-    )
+    return errorResponse(error, 'Failed to add exercise')
   }
 }
 
@@ -157,7 +197,8 @@ export async function PUT(request: NextRequest) {
     const { 
       exerciseIds, 
       skipExisting = true, 
-      checkForDuplicates = true 
+      checkForDuplicates = true,
+      connectionId = null
     } = body
 
     if (!exerciseIds || !Array.isArray(exerciseIds)) {
@@ -167,154 +208,41 @@ export async function PUT(request: NextRequest) {
       )
     }
 
-    // Start bulk operation log
-    const { data: bulkLog } = await supabaseAdmin
-      .from('sync_logs')
-      .insert([{
-        sync_type: 'manual',
-        status: 'started',
-        started_at: new Date().toISOString(),
-        metadata: {
-          operation: 'bulk_add_to_trainerize',
-          total_exercises: exerciseIds.length,
-          skip_existing: skipExisting,
-          check_duplicates: checkForDuplicates
-        }
-      }])
-      .select('id')
-      .single()
-
-    // Use streaming response for real-time progress updates
-    const encoder = new TextEncoder()
-    const stream = new TransformStream()
-    const writer = stream.writable.getWriter()
-
-    // Process in background
-    ;(async () => {
-      try {
-        await writer.write(
-          encoder.encode(`data: ${JSON.stringify({
-            type: 'start',
-            total: exerciseIds.length,
-            message: 'Starting bulk add operation...'
-          })}\n\n`)
-        )
-
-        const results = await trainerizeClient.bulkAddExercises(exerciseIds, {
-          skipExisting,
-          checkForDuplicates,
-          onProgress: async (current, total, exercise) => {
-            await writer.write(
-              encoder.encode(`data: ${JSON.stringify({
-                type: 'progress',
-                current,
-                total,
-                exercise_name: exercise?.name,
-                percentage: Math.round((current / total) * 100)
-              })}\n\n`)
-            )
-          }
-        })
-
-        // Update bulk log
-        if (bulkLog) {
-          await supabaseAdmin
-            .from('sync_logs')
-            .update({
-              status: 'completed',
-              completed_at: new Date().toISOString(),
-              records_processed: exerciseIds.length,
-              records_created: results.successful.length,
-              error_message: results.failed.length > 0 ? 
-                `${results.failed.length} exercises failed to sync` : null,
-              metadata: {
-                operation: 'bulk_add_to_trainerize',
-                results: {
-                  successful: results.successful.length,
-                  failed: results.failed.length,
-                  skipped: results.skipped.length,
-                  duplicates: results.duplicates.length
-                }
-              }
-            })
-            .eq('id', bulkLog.id)
-        }
-
-        await writer.write(
-          encoder.encode(`data: ${JSON.stringify({
-            type: 'complete',
-            results: {
-              successful: results.successful.length,
-              failed: results.failed.length,
-              skipped: results.skipped.length,
-              duplicates: results.duplicates.length,
-              details: {
-                successful: results.successful.map(r => ({
-                  name: r.exercise.name,
-                  trainerize_id: r.trainerize_id
-                })),
-                failed: results.failed.map(r => ({
-                  name: r.exercise.name,
-                  error: r.error
-                })),
-                skipped: results.skipped.map(r => ({
-                  name: r.exercise.name,
-                  reason: r.reason
-                })),
-                duplicates: results.duplicates.map(r => ({
-                  name: r.exercise.name,
-                  existing_name: r.existing_name
-                }))
-              }
-            },
-            message: `Bulk add completed: ${results.successful.length} successful, ${results.failed.length} failed, ${results.skipped.length} skipped, ${results.duplicates.length} duplicates`
-          })}\n\n`)
-        )
-
-      } catch (error: any) {
-        console.error('Bulk add error:', error)
+    // Queue the push so it survives request timeouts; /api/jobs/worker processes it
+    const job = await jobQueue.enqueue(
+      'bulk_add_exercises',
+      exerciseIds.map((id: string) => ({ key: id })),
+      {
+        skipExisting,
+        checkForDuplicates,
+        connectionId
+      }
+    )
 
-        // Update bulk log with error
-        if (bulkLog) {
-          await supabaseAdmin
-            .from('sync_logs')
-            .update({
-              status: 'failed',
-              completed_at: new Date().toISOString(),
-              error_message: error.message
-            })
-            .eq('id', bulkLog.id)
-        }
+    // Videos are tracked once their exercise has been added
+    const { data: withVideos } = await supabaseAdmin
+      .from('exercises')
+      .select('id')
+      .in('id', exerciseIds)
+      .not('video_url', 'is', null)
 
-        await writer.write(
-          encoder.encode(`data: ${JSON.stringify({
-            type: 'error',
-            message: error.message
-          })}\n\n`)
-        )
-      } finally {
-        await writer.close()
-      }
-    })()
+    const videoJob = await trackVideoStatus(
+      (withVideos || []).map(exercise => exercise.id),
+      { connectionId, afterJobId: job.id }
+    )
 
-    return new NextResponse(stream.readable, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Cache-Control'
-      }
-    })
+    return NextResponse.json({
+      success: true,
+      data: {
+        job_id: job.id,
+        video_job_id: videoJob?.id,
+        total: exerciseIds.length
+      },
+      message: `Queued ${exerciseIds.length} exercises for Trainerize`
+    } as ApiResponse, { status: 202 })
 
   } catch (error) {
     console.error('Error in bulk add:', error)
-    return NextResponse.json(
-      { 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Bulk add failed' 
-      } as ApiResponse,
-      { status: 500 }
-    )
+    return errorResponse(error, 'Bulk add failed')
   }
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
+import { syncTombstones } from '@/lib/sync-tombstones'
 import type { ApiResponse, BulkOperationResult } from '@/types'
 
 export async function POST(request: NextRequest) {
@@ -62,21 +63,11 @@ async function bulkDelete(ids: string[]): Promise<BulkOperationResult> {
     errors: []
   }
 
+  // Soft delete with a tombstone so the next sync can propagate it to Trainerize
   for (const id of ids) {
     try {
-      const { error } = await supabase
-        .from('exercises')
-        .delete()
-        .eq('id', id)
-
-      if (error) {
-        result.errors.push({
-          id,
-          message: error.message
-        })
-      } else {
-        result.processed++
-      }
+      await syncTombstones.softDeleteExercise(id)
+      result.processed++
     } catch (error) {
       result.errors.push({
         id,
@@ -112,6 +103,10 @@ async function bulkUpdate(ids: string[], updateData: Record<string, any>): Promi
           message: error.message
         })
       } else {
+        // Reactivating undoes a delete that hasn't reached Trainerize yet
+        if (updateData.is_active === true) {
+          await syncTombstones.clearLocalDeletion(id)
+        }
         result.processed++
       }
     } catch (error) {
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { exerciseImports, ExerciseImportError } from '@/lib/exercise-import'
+import { SpreadsheetError } from '@/lib/spreadsheet-reader'
+import { errorResponse } from '@/lib/api-errors'
+import type { ApiResponse } from '@/types'
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024
+
+// Multipart upload of a CSV or XLSX exercise list. Reports how every row maps and checks
+// out; rows are only inserted when dryRun is "false", typically after the report has been
+// reviewed. Pushing the imported exercises to Trainerize is a separate bulk add.
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData()
+    const file = form.get('file')
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { success: false, error: 'A CSV or XLSX file is required' } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json(
+        { success: false, error: 'The file is larger than 5 MB' } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    let mapping
+    try {
+      mapping = form.get('mapping') ? JSON.parse(String(form.get('mapping'))) : undefined
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'mapping must be a JSON object of field to column header' } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const dryRun = form.get('dryRun') !== 'false'
+    const report = await exerciseImports.importFile(Buffer.from(await file.arrayBuffer()), file.name, {
+      mapping,
+      dryRun,
+      includeDuplicates: form.get('includeDuplicates') === 'true',
+      connectionId: (form.get('connectionId') as string | null) || null
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+      message: dryRun
+        ? `${report.summary.valid} of ${report.summary.total} rows are ready to import`
+        : `Imported ${report.summary.imported} exercises`
+    } as ApiResponse, { status: dryRun ? 200 : 201 })
+
+  } catch (error) {
+    if (error instanceof ExerciseImportError || error instanceof SpreadsheetError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    console.error('Error importing exercises:', error)
+    return errorResponse(error, 'Failed to import exercises')
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { exerciseMerges, ExerciseMergeError } from '@/lib/exercise-merge'
+import { errorResponse } from '@/lib/api-errors'
+import type { ApiResponse } from '@/types'
+
+// Merges mergedId into survivorId. fields picks, per field, the survivor's value, the
+// merged exercise's, or for lists the union of both. dryRun returns the plan without
+// changing anything.
+export async function POST(request: NextRequest) {
+  try {
+    const { survivorId, mergedId, fields, pushWorkouts = true, dryRun = false } = await request.json()
+
+    if (!survivorId || !mergedId) {
+      return NextResponse.json(
+        { success: false, error: 'survivorId and mergedId are required' } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    if (dryRun) {
+      const plan = await exerciseMerges.plan({ survivorId, mergedId, fields })
+      return NextResponse.json({
+        success: true,
+        data: plan
+      } as ApiResponse)
+    }
+
+    const result = await exerciseMerges.merge({ survivorId, mergedId, fields, pushWorkouts })
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Merged "${result.redirect.name}" into "${result.survivor.name}"; ${result.workouts.updated.length} workout templates updated`
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof ExerciseMergeError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    console.error('Error merging exercises:', error)
+    return errorResponse(error, 'Failed to merge exercises')
+  }
+}
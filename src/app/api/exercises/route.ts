@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin, isSupabaseConfigured } from '@/lib/supabase'
 import { schemaInspector } from '@/lib/schema-inspector'
+import { taxonomyTerms } from '@/lib/taxonomy-terms'
+import { expandMuscleGroup, findEquipment } from '@/lib/exercise-taxonomy'
 import type { ApiResponse } from '@/types'
 
 export async function GET(request: NextRequest) {
@@ -66,7 +68,8 @@ export async function GET(request: NextRequest) {
     if (muscleGroup) {
       const muscleGroupsCol = columnMap.muscle_groups || 'muscle_groups'
       if (schemaInfo.columns[muscleGroupsCol]?.data_type?.includes('[]')) {
-        query = query.contains(muscleGroupsCol, [muscleGroup])
+        // A group matches the muscles below it too: Legs finds exercises listing Quads
+        query = query.overlaps(muscleGroupsCol, expandMuscleGroup(muscleGroup, await taxonomyTerms.get()))
       } else {
         query = query.ilike(muscleGroupsCol, `%${muscleGroup}%`)
       }
@@ -75,7 +78,8 @@ export async function GET(request: NextRequest) {
     if (equipment) {
       const equipmentCol = columnMap.equipment || 'equipment'
       if (schemaInfo.columns[equipmentCol]?.data_type?.includes('[]')) {
-        query = query.contains(equipmentCol, [equipment])
+        const term = findEquipment(equipment, await taxonomyTerms.get())
+        query = query.contains(equipmentCol, [term ? term.name : equipment])
       } else {
         query = query.ilike(equipmentCol, `%${equipment}%`)
       }
@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { trainerizeClient, type TrainerizeExerciseUpdate } from '@/lib/trainerize-client'
-import { supabaseAdmin } from '@/lib/supabase'
+import type { TrainerizeExerciseUpdate } from '@/lib/trainerize-client'
+import { trainerizeConnections } from '@/lib/trainerize-connections'
+import { supabaseAdmin, scopeToConnection } from '@/lib/supabase'
+import { errorResponse } from '@/lib/api-errors'
 import type { ApiResponse } from '@/types'
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { exercise, syncToTrainerize = true } = body
+    const { exercise, syncToTrainerize = true, connectionId = null } = body
 
     // Validate required fields
     if (!exercise.id) {
@@ -16,6 +18,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const trainerizeClient = await trainerizeConnections.getClient(connectionId)
+
     // Validate exercise data
     const validation = trainerizeClient.validateExerciseUpdate(exercise)
     if (!validation.isValid) {
@@ -43,10 +47,13 @@ export async function POST(request: NextRequest) {
     if (exercise.videoUrl) updateData.video_url = exercise.videoUrl
     if (exercise.instructions) updateData.instructions = exercise.instructions
 
-    const { data: updatedExercise, error: dbError } = await supabaseAdmin
-      .from('exercises')
-      .update(updateData)
-      .eq('trainerize_id', exercise.id)
+    const { data: updatedExercise, error: dbError } = await scopeToConnection(
+      supabaseAdmin
+        .from('exercises')
+        .update(updateData)
+        .eq('trainerize_id', exercise.id),
+      connectionId
+    )
       .select()
       .single()
 
@@ -74,20 +81,23 @@ export async function POST(request: NextRequest) {
           tag: exercise.tag,
           videoUrl: exercise.videoUrl,
           videoType: exercise.videoType,
-          tags: exercise.tags || []
+          tags: exercise.tags
         }
 
-        const success = await trainerizeClient.updateExercise(trainerizeUpdate)
+        const success = await trainerizeClient.updateExercise(trainerizeUpdate, updatedExercise?.metadata)
         
         if (success) {
           // Update sync status in database
-          await supabaseAdmin
-            .from('exercises')
-            .update({
-              sync_status: 'synced',
-              synced_at: new Date().toISOString()
-            })
-            .eq('trainerize_id', exercise.id)
+          await scopeToConnection(
+            supabaseAdmin
+              .from('exercises')
+              .update({
+                sync_status: 'synced',
+                synced_at: new Date().toISOString()
+              })
+              .eq('trainerize_id', exercise.id),
+            connectionId
+          )
         }
 
         trainerizeResult = { 
@@ -98,12 +108,15 @@ export async function POST(request: NextRequest) {
         console.error('Trainerize sync error:', syncError)
         
         // Update sync status to error
-        await supabaseAdmin
-          .from('exercises')
-          .update({
-            sync_status: 'error'
-          })
-          .eq('trainerize_id', exercise.id)
+        await scopeToConnection(
+          supabaseAdmin
+            .from('exercises')
+            .update({
+              sync_status: 'error'
+            })
+            .eq('trainerize_id', exercise.id),
+          connectionId
+        )
 
         trainerizeResult = {
           success: false,
@@ -122,6 +135,7 @@ export async function POST(request: NextRequest) {
         completed_at: new Date().toISOString(),
         records_processed: 1,
         records_updated: 1,
+        connection_id: connectionId,
         metadata: {
           operation: 'update',
           exercise_id: exercise.id,
@@ -141,20 +155,14 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('Error updating exercise:', error)
-    return NextResponse.json(
-      { 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Update failed' 
-      } as ApiResponse,
-      { status: 500 }
-    )
+    return errorResponse(error, 'Update failed')
   }
 }
 
 export async function PUT(request: NextRequest) {
   try {
     const body = await request.json()
-    const { exercises, syncToTrainerize = true } = body
+    const { exercises, syncToTrainerize = true, connectionId = null } = body
 
     if (!exercises || !Array.isArray(exercises)) {
       return NextResponse.json(
@@ -170,6 +178,7 @@ export async function PUT(request: NextRequest) {
         sync_type: 'manual',
         status: 'started',
         started_at: new Date().toISOString(),
+        connection_id: connectionId,
         metadata: {
           operation: 'batch_update',
           total_exercises: exercises.length,
@@ -198,7 +207,8 @@ export async function PUT(request: NextRequest) {
           },
           body: JSON.stringify({
             exercise,
-            syncToTrainerize
+            syncToTrainerize,
+            connectionId
           })
         })
 
@@ -249,12 +259,6 @@ export async function PUT(request: NextRequest) {
 
   } catch (error) {
     console.error('Error in batch update:', error)
-    return NextResponse.json(
-      { 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Batch update failed' 
-      } as ApiResponse,
-      { status: 500 }
-    )
+    return errorResponse(error, 'Batch update failed')
   }
 }
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { trainerizeClient } from '@/lib/trainerize-client'
+import { isSupabaseConfigured } from '@/lib/supabase'
+import { errorResponse } from '@/lib/api-errors'
+import type { ApiResponse } from '@/types'
+
+// Trainerize integration health for the dashboard and uptime checks. `status` is
+// unavailable while the circuit breaker is open, degraded while it is probing or the
+// connection check fails.
+export async function GET() {
+  try {
+    const trainerize = await trainerizeClient.getStats()
+
+    const status = trainerize.circuit.state === 'open'
+      ? 'unavailable'
+      : trainerize.circuit.state === 'half_open' || !trainerize.connectionValid
+        ? 'degraded'
+        : 'healthy'
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        status,
+        checkedAt: new Date().toISOString(),
+        database: { configured: isSupabaseConfigured() },
+        trainerize
+      }
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error checking health:', error)
+    return errorResponse(error, 'Health check failed')
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { jobQueue } from '@/lib/sync-jobs'
+import { errorResponse } from '@/lib/api-errors'
+import type { ApiResponse } from '@/types'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const progress = await jobQueue.getProgress(id)
+
+    if (!progress) {
+      return NextResponse.json(
+        { success: false, error: 'Sync job not found' } as ApiResponse,
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: progress
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error fetching sync job:', error)
+    return errorResponse(error, 'Failed to fetch sync job')
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    await jobQueue.cancel(id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Sync job cancelled'
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error cancelling sync job:', error)
+    return errorResponse(error, 'Failed to cancel sync job')
+  }
+}
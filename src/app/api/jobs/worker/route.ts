@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { jobQueue } from '@/lib/sync-jobs'
+import { errorResponse } from '@/lib/api-errors'
+import type { ApiResponse } from '@/types'
+
+// Processes queued sync jobs for a bounded amount of time. Call it on a schedule
+// (GET, e.g. from a cron) or from the UI with a jobId to drive one job forward.
+async function runWorker(jobId?: string, timeBudgetMs?: number) {
+  try {
+    const run = await jobQueue.processJobs({ jobId, timeBudgetMs })
+    const progress = jobId ? await jobQueue.getProgress(jobId) : null
+
+    return NextResponse.json({
+      success: true,
+      data: { ...run, progress },
+      message: `Processed ${run.jobs.length} job${run.jobs.length === 1 ? '' : 's'}`
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error running sync worker:', error)
+    return errorResponse(error, 'Sync worker failed')
+  }
+}
+
+export async function GET() {
+  return runWorker()
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+  return runWorker(body.jobId, body.timeBudgetMs)
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { mappingProfiles } from '@/lib/mapping-profiles'
+import { errorResponse } from '@/lib/api-errors'
+import type { ApiResponse } from '@/types'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const profile = await mappingProfiles.get(id)
+
+    return NextResponse.json({
+      success: true,
+      data: profile
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error fetching mapping profile:', error)
+    return errorResponse(error, 'Failed to fetch mapping profile')
+  }
+}
+
+// Makes this version the mapping every push and pull uses
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const profile = await mappingProfiles.activate(id)
+
+    return NextResponse.json({
+      success: true,
+      data: profile,
+      message: `Activated ${profile.name} v${profile.version}`
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error activating mapping profile:', error)
+    return errorResponse(error, 'Failed to activate mapping profile')
+  }
+}
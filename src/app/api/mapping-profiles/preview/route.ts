@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin, scopeToConnection } from '@/lib/supabase'
+import { mappingProfiles, toMappingProfile } from '@/lib/mapping-profiles'
+import { previewMapping, validateMappingFields, type MappingDirection } from '@/lib/exercise-mapping'
+import { taxonomyTerms } from '@/lib/taxonomy-terms'
+import { errorResponse } from '@/lib/api-errors'
+import type { ApiResponse } from '@/types'
+
+// Shows what a profile would send to and read from Trainerize for sample rows, next to
+// the active profile, before it is activated. The candidate is a saved version
+// (profileId) or unsaved fields. Without explicit rows, exercises are sampled and their
+// stored Trainerize payload (metadata) is used for the pull side.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const {
+      profileId,
+      fields,
+      directions = ['push', 'pull'],
+      rows,
+      trainerizeRows,
+      sampleSize = 5,
+      connectionId = null
+    } = body
+
+    if (!profileId && !fields) {
+      return NextResponse.json(
+        { success: false, error: 'profileId or fields is required' } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    if (fields) {
+      const errors = validateMappingFields(fields)
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { success: false, error: 'Validation failed', details: errors } as ApiResponse,
+          { status: 400 }
+        )
+      }
+    }
+
+    const candidate = profileId
+      ? toMappingProfile(await mappingProfiles.get(profileId))
+      : { id: null, name: 'unsaved', version: 0, fields }
+    const current = await mappingProfiles.getActive()
+
+    let pushRows: Record<string, any>[] = rows || []
+    let pullRows: Record<string, any>[] = trainerizeRows || []
+
+    if (!rows || !trainerizeRows) {
+      const { data: sample, error } = await scopeToConnection(
+        supabaseAdmin
+          .from('exercises')
+          .select('*'),
+        connectionId
+      )
+        .order('updated_at', { ascending: false })
+        .limit(Math.min(Math.max(1, sampleSize), 50))
+
+      if (error) {
+        throw new Error(`Failed to sample exercises: ${error.message}`)
+      }
+
+      if (!rows) pushRows = sample || []
+      if (!trainerizeRows) {
+        pullRows = (sample || [])
+          .map(exercise => exercise.metadata)
+          .filter((metadata): metadata is Record<string, any> => !!metadata && typeof metadata === 'object' && !Array.isArray(metadata))
+      }
+    }
+
+    const taxonomy = await taxonomyTerms.get()
+    const preview: Partial<Record<MappingDirection, ReturnType<typeof previewMapping>>> = {}
+    if (directions.includes('push')) preview.push = previewMapping(candidate, current, 'push', pushRows, taxonomy)
+    if (directions.includes('pull')) preview.pull = previewMapping(candidate, current, 'pull', pullRows, taxonomy)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        candidate: { id: candidate.id, name: candidate.name, version: candidate.version },
+        current: { id: current.id, name: current.name, version: current.version },
+        ...preview
+      }
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error previewing mapping profile:', error)
+    return errorResponse(error, 'Mapping preview failed')
+  }
+}
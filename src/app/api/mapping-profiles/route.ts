@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { mappingProfiles, MappingProfileValidationError } from '@/lib/mapping-profiles'
+import { DEFAULT_MAPPING_PROFILE } from '@/lib/exercise-mapping'
+import { errorResponse } from '@/lib/api-errors'
+import type { ApiResponse } from '@/types'
+
+export async function GET() {
+  try {
+    const [profiles, active] = await Promise.all([
+      mappingProfiles.list(),
+      mappingProfiles.getActive()
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        profiles,
+        active: { id: active.id, name: active.name, version: active.version },
+        default: DEFAULT_MAPPING_PROFILE
+      }
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error listing mapping profiles:', error)
+    return errorResponse(error, 'Failed to list mapping profiles')
+  }
+}
+
+// Saves a new version of a profile; activate it separately once the preview looks right
+export async function POST(request: NextRequest) {
+  try {
+    const { name, description, fields } = await request.json()
+
+    if (!name) {
+      return NextResponse.json(
+        { success: false, error: 'Profile name is required' } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const profile = await mappingProfiles.create({ name, description, fields })
+
+    return NextResponse.json({
+      success: true,
+      data: profile,
+      message: `Saved ${profile.name} v${profile.version}`
+    } as ApiResponse, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof MappingProfileValidationError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: error.errors } as ApiResponse,
+        { status: 400 }
+      )
+    }
+    console.error('Error saving mapping profile:', error)
+    return errorResponse(error, 'Failed to save mapping profile')
+  }
+}
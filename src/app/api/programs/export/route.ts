@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { TrainerizeProgramManager } from '@/lib/trainerize-program-manager';
+import { getProgramManager } from '@/lib/trainerize-program-manager';
+import { errorResponse } from '@/lib/api-errors';
 
 export async function POST(request: NextRequest) {
   try {
-    const { programId, clientId } = await request.json();
+    const { programId, clientId, connectionId } = await request.json();
     
     // Validate input
     if (!programId || !clientId) {
@@ -13,23 +14,22 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const manager = new TrainerizeProgramManager();
+    const manager = await getProgramManager(connectionId);
     
     // Export program to Trainerize
-    const result = await manager.exportToTrainerize(programId, clientId);
+    const result = await manager.exportToTrainerize(programId, String(clientId));
     
     return NextResponse.json({
-      success: true,
+      success: result.syncStatus !== 'error',
       trainerizeProgramId: result.trainerizeProgramId,
       exportedWorkouts: result.exportedWorkouts,
-      syncStatus: result.syncStatus
+      failedWorkouts: result.failedWorkouts,
+      syncStatus: result.syncStatus,
+      plans: result.plans
     });
     
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error exporting program:', error);
-    return NextResponse.json(
-      { error: error.message },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Failed to export program');
   }
 }
\ No newline at end of file
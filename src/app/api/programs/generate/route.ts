@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { TrainerizeProgramManager } from '@/lib/trainerize-program-manager';
+import { getProgramManager } from '@/lib/trainerize-program-manager';
+import { errorResponse } from '@/lib/api-errors';
 
 export async function POST(request: NextRequest) {
   try {
-    const assessment = await request.json();
+    const { connectionId, ...assessment } = await request.json();
     
     // Validate assessment
     if (!assessment.clientId || !assessment.fitnessLevel) {
@@ -13,7 +14,7 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const manager = new TrainerizeProgramManager();
+    const manager = await getProgramManager(connectionId);
     
     // Generate program
     const result = await manager.generateProgramFromAssessment(assessment);
@@ -25,11 +26,8 @@ export async function POST(request: NextRequest) {
       workouts: result.workouts
     });
     
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error generating program:', error);
-    return NextResponse.json(
-      { error: error.message },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Failed to generate program');
   }
 }
\ No newline at end of file
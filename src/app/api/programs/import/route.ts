@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProgramManager } from '@/lib/trainerize-program-manager';
+import { errorResponse } from '@/lib/api-errors';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { clientId, connectionId } = await request.json();
+    
+    // Validate input
+    if (!clientId) {
+      return NextResponse.json(
+        { error: 'Client ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    const manager = await getProgramManager(connectionId);
+    
+    // Import the client's training plans from Trainerize
+    const result = await manager.importFromTrainerize(String(clientId));
+    
+    return NextResponse.json({
+      success: true,
+      program: result.program,
+      trainingPlans: result.trainingPlans,
+      importedWorkouts: result.importedWorkouts,
+      importedTemplates: result.importedTemplates,
+      importedExercises: result.importedExercises
+    });
+    
+  } catch (error) {
+    console.error('Error importing program:', error);
+    return errorResponse(error, 'Failed to import program');
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProgramManager, ProgramSyncStaleError, type SyncSourceOfTruth } from '@/lib/trainerize-program-manager';
+import { errorResponse } from '@/lib/api-errors';
+
+const SOURCES_OF_TRUTH: SyncSourceOfTruth[] = ['local', 'trainerize'];
+
+// GET - Preview the changes a program sync would make
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const programId = searchParams.get('programId');
+    const sourceOfTruth = (searchParams.get('sourceOfTruth') || 'local') as SyncSourceOfTruth;
+    const allowRemovals = searchParams.get('allowRemovals') === 'true';
+    const connectionId = searchParams.get('connectionId');
+
+    if (!programId) {
+      return NextResponse.json(
+        { error: 'Program ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!SOURCES_OF_TRUTH.includes(sourceOfTruth)) {
+      return NextResponse.json(
+        { error: `sourceOfTruth must be one of: ${SOURCES_OF_TRUTH.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const manager = await getProgramManager(connectionId);
+    const preview = await manager.previewProgramSync(programId, { sourceOfTruth, allowRemovals });
+
+    return NextResponse.json(preview);
+
+  } catch (error) {
+    console.error('Error previewing program sync:', error);
+    return errorResponse(error, 'Failed to preview program sync');
+  }
+}
+
+// POST - Apply reviewed operations (previewed operations or their ids), or run a full sync
+// when none are given. The same sourceOfTruth and allowRemovals as the preview must be sent.
+export async function POST(request: NextRequest) {
+  try {
+    const { programId, operations, sourceOfTruth = 'local', allowRemovals = false, connectionId } = await request.json();
+
+    if (!programId) {
+      return NextResponse.json(
+        { error: 'Program ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!SOURCES_OF_TRUTH.includes(sourceOfTruth)) {
+      return NextResponse.json(
+        { error: `sourceOfTruth must be one of: ${SOURCES_OF_TRUTH.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const manager = await getProgramManager(connectionId);
+    const result = Array.isArray(operations)
+      ? await manager.performReviewedProgramSync(
+          programId,
+          operations.map((op: any) => String(typeof op === 'string' ? op : op?.id)),
+          { sourceOfTruth, allowRemovals }
+        )
+      : await manager.syncProgramWithTrainerize(programId, { sourceOfTruth, allowRemovals });
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    if (error instanceof ProgramSyncStaleError) {
+      return NextResponse.json(
+        { error: error.message, stale_operations: error.operationIds },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error syncing program:', error);
+    return errorResponse(error, 'Failed to sync program');
+  }
+}
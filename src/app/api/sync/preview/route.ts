@@ -1,14 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { syncService } from '@/lib/sync-service'
+import { getSyncService } from '@/lib/sync-service'
+import { jobQueue } from '@/lib/sync-jobs'
+import { errorResponse } from '@/lib/api-errors'
 import type { ApiResponse } from '@/types'
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    // Initialize the sync service
+    const { searchParams } = new URL(request.url)
+
+    // Initialize the sync service for the requested Trainerize connection
+    const syncService = await getSyncService(searchParams.get('connectionId'))
     await syncService.initialize()
 
-    // Get the sync preview
-    const preview = await syncService.previewSync()
+    // Get the sync preview, optionally overriding the delete propagation policy
+    const preview = await syncService.previewSync({
+      deletePolicy: {
+        ...(searchParams.has('propagate_trainerize_deletes') && {
+          trainerize_to_supabase: searchParams.get('propagate_trainerize_deletes') === 'true'
+        }),
+        ...(searchParams.has('propagate_supabase_deletes') && {
+          supabase_to_trainerize: searchParams.get('propagate_supabase_deletes') === 'true'
+        })
+      }
+    })
 
     return NextResponse.json({
       success: true,
@@ -18,20 +32,14 @@ export async function GET() {
 
   } catch (error) {
     console.error('Error in sync preview:', error)
-    return NextResponse.json(
-      { 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Preview failed' 
-      } as ApiResponse,
-      { status: 500 }
-    )
+    return errorResponse(error, 'Preview failed')
   }
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { operations, audit_note } = body
+    const { operations, audit_note, connectionId = null } = body
 
     if (!operations || !Array.isArray(operations)) {
       return NextResponse.json(
@@ -52,26 +60,24 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Initialize the sync service
-    await syncService.initialize()
-
-    // Perform the sync
-    const result = await syncService.performSync(validOperations, audit_note)
+    // Queue the operations so a large sync can resume if the request times out
+    const job = await jobQueue.enqueue(
+      'sync_exercises',
+      validOperations.map((op: any) => ({ key: String(op.id), payload: op })),
+      { audit_note, connectionId }
+    )
 
     return NextResponse.json({
-      success: result.success,
-      data: result,
-      message: `Sync completed: ${result.summary.created} created, ${result.summary.updated} updated, ${result.summary.failed} failed`
-    } as ApiResponse)
+      success: true,
+      data: {
+        job_id: job.id,
+        total: validOperations.length
+      },
+      message: `Queued ${validOperations.length} sync operations`
+    } as ApiResponse, { status: 202 })
 
   } catch (error) {
     console.error('Error in sync execution:', error)
-    return NextResponse.json(
-      { 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Sync failed' 
-      } as ApiResponse,
-      { status: 500 }
-    )
+    return errorResponse(error, 'Sync failed')
   }
 }
\ No newline at end of file
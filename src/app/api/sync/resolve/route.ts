@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSyncService, type ConflictResolution, type ResolutionAction } from '@/lib/sync-service'
+import { jobQueue } from '@/lib/sync-jobs'
+import { errorResponse } from '@/lib/api-errors'
+import type { ApiResponse } from '@/types'
+
+const RESOLUTION_ACTIONS: ResolutionAction[] = ['keep_local', 'take_trainerize', 'merge_as_new', 'link']
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { resolutions, perform = false, audit_note, connectionId = null } = body
+
+    if (!Array.isArray(resolutions) || resolutions.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Resolutions array is required' } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const invalid = resolutions.find((r: ConflictResolution) =>
+      !r?.operation_id || !RESOLUTION_ACTIONS.includes(r.action)
+    )
+    if (invalid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Each resolution needs an operation_id and an action of: ${RESOLUTION_ACTIONS.join(', ')}`
+        } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    // Resolutions apply to the conflicts as they are now, never to data sent by the client
+    const syncService = await getSyncService(connectionId)
+    const { conflicts } = await syncService.previewSync()
+
+    let operations
+    try {
+      operations = syncService.resolveConflicts(conflicts, resolutions)
+    } catch (resolveError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: resolveError instanceof Error ? resolveError.message : 'Invalid resolution'
+        } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    if (!perform) {
+      return NextResponse.json({
+        success: true,
+        data: { operations },
+        message: `${operations.length} conflicts resolved`
+      } as ApiResponse)
+    }
+
+    const toPerform = operations.filter(op => op.operation !== 'skip')
+    const job = await jobQueue.enqueue(
+      'sync_exercises',
+      toPerform.map(op => ({ key: String(op.id), payload: op })),
+      { audit_note, connectionId }
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: { operations, job_id: job.id },
+      message: `Queued ${toPerform.length} resolved operations`
+    } as ApiResponse, { status: 202 })
+
+  } catch (error) {
+    console.error('Error resolving sync conflicts:', error)
+    return errorResponse(error, 'Conflict resolution failed')
+  }
+}
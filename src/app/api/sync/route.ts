@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { supabase, isSupabaseConfigured } from '@/lib/supabase'
-import { trainerizeClient, type TrainerizeExercise } from '@/lib/trainerize-client'
-import type { ApiResponse, Exercise } from '@/types'
+import { isSupabaseConfigured } from '@/lib/supabase'
+import { trainerizeConnections } from '@/lib/trainerize-connections'
+import { ExercisePull } from '@/lib/exercise-pull'
+import type { SyncType } from '@/lib/sync-watermarks'
+import { errorResponse } from '@/lib/api-errors'
+import type { ApiResponse } from '@/types'
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,143 +16,41 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { type = 'manual' } = await request.json()
-    
-    const syncLogInsert = {
-      sync_type: type as 'full' | 'incremental' | 'manual',
-      status: 'started' as const,
-      started_at: new Date().toISOString(),
-      records_processed: 0,
-      records_created: 0,
-      records_updated: 0,
-      records_deleted: 0
+    // Without a connectionId this syncs the group configured through the environment
+    const { type = 'manual', connectionId = null } = await request.json()
+    const client = await trainerizeConnections.getClient(connectionId)
+    const result = await new ExercisePull({ client, connectionId }).run(type as SyncType)
+
+    let message = 'Sync completed successfully'
+    if (result.failed > 0) {
+      message = `Sync finished with ${result.failed} of ${result.processed} exercises failed; the next incremental sync retries them`
+    } else if (result.conflicts.length > 0) {
+      message = `Sync completed; ${result.conflicts.length} exercises need review before they are pulled`
+    } else if (result.plan.fallback_reason) {
+      message = `Sync completed as full sync: ${result.plan.fallback_reason}`
     }
 
-    const { data: syncLog, error: syncLogError } = await supabase
-      .from('sync_logs')
-      .insert([syncLogInsert])
-      .select()
-      .single()
-
-    if (syncLogError) {
-      throw new Error('Failed to create sync log')
-    }
-
-    try {
-      let totalProcessed = 0
-      let totalCreated = 0
-      let totalUpdated = 0
-
-      // Discover exercises from plans (using default group ID)
-      const groupId = parseInt(process.env.TRAINERIZE_GROUP_ID || '0')
-      const exercises = await trainerizeClient.discoverExercisesFromPlans([groupId])
-        
-        for (const trainerizeExercise of exercises) {
-          try {
-            const exerciseData = mapTrainerizeToSupabase(trainerizeExercise)
-            
-            const { data: existingExercise } = await supabase
-              .from('exercises')
-              .select('id, updated_at')
-              .eq('trainerize_id', trainerizeExercise.id)
-              .single()
-
-            if (existingExercise) {
-              const { error: updateError } = await supabase
-                .from('exercises')
-                .update({
-                  ...exerciseData,
-                  updated_at: new Date().toISOString(),
-                  synced_at: new Date().toISOString(),
-                  sync_status: 'synced'
-                })
-                .eq('id', existingExercise.id)
-
-              if (!updateError) {
-                totalUpdated++
-              }
-            } else {
-              const { error: insertError } = await supabase
-                .from('exercises')
-                .insert([{
-                  ...exerciseData,
-                  synced_at: new Date().toISOString(),
-                  sync_status: 'synced'
-                }])
-
-              if (!insertError) {
-                totalCreated++
-              }
-            }
-
-            totalProcessed++
-          } catch (exerciseError) {
-            console.error(`Error processing exercise ${trainerizeExercise.id}:`, exerciseError)
-          }
-        }
-
-      await supabase
-        .from('sync_logs')
-        .update({
-          status: 'completed',
-          completed_at: new Date().toISOString(),
-          records_processed: totalProcessed,
-          records_created: totalCreated,
-          records_updated: totalUpdated
-        })
-        .eq('id', syncLog.id)
-
-      return NextResponse.json({
-        success: true,
-        data: {
-          syncId: syncLog.id,
-          processed: totalProcessed,
-          created: totalCreated,
-          updated: totalUpdated
-        },
-        message: 'Sync completed successfully'
-      } as ApiResponse)
-
-    } catch (syncError) {
-      await supabase
-        .from('sync_logs')
-        .update({
-          status: 'failed',
-          completed_at: new Date().toISOString(),
-          error_message: syncError instanceof Error ? syncError.message : 'Unknown error'
-        })
-        .eq('id', syncLog.id)
-
-      throw syncError
-    }
+    return NextResponse.json({
+      success: result.failed === 0,
+      data: {
+        syncId: result.syncId,
+        syncType: result.plan.sync_type,
+        since: result.plan.since,
+        fallbackReason: result.plan.fallback_reason,
+        processed: result.processed,
+        created: result.created,
+        updated: result.updated,
+        skipped: result.skipped,
+        failed: result.failed,
+        errors: result.errors,
+        conflicts: result.conflicts
+      },
+      ...(result.failed > 0 && { error: message }),
+      message
+    } as ApiResponse)
 
   } catch (error) {
     console.error('Error in sync:', error)
-    return NextResponse.json(
-      { 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Sync failed' 
-      } as ApiResponse,
-      { status: 500 }
-    )
+    return errorResponse(error, 'Sync failed')
   }
 }
-
-function mapTrainerizeToSupabase(trainerizeExercise: TrainerizeExercise): Omit<Exercise, 'id' | 'created_at' | 'updated_at'> {
-  return {
-    trainerize_id: trainerizeExercise.id,
-    name: trainerizeExercise.name,
-    description: trainerizeExercise.description || null,
-    category: trainerizeExercise.category || null,
-    muscle_groups: trainerizeExercise.muscle_groups || [],
-    equipment: trainerizeExercise.equipment || [],
-    instructions: trainerizeExercise.instructions?.join('\n') || null,
-    video_url: trainerizeExercise.video_url || null,
-    thumbnail_url: trainerizeExercise.thumbnail_url || null,
-    difficulty_level: (trainerizeExercise.difficulty as "beginner" | "intermediate" | "advanced") || null,
-    is_active: trainerizeExercise.is_active !== false,
-    synced_at: new Date().toISOString(),
-    sync_status: 'synced' as const,
-    metadata: trainerizeExercise
-  }
-}
\ No newline at end of file
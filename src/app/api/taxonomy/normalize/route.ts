@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { taxonomyTerms } from '@/lib/taxonomy-terms'
+import { errorResponse } from '@/lib/api-errors'
+import type { ApiResponse } from '@/types'
+
+// Rewrites existing exercises' muscle groups and equipment to canonical names. dryRun
+// reports what would change; values the taxonomy doesn't know are listed, not touched.
+export async function POST(request: NextRequest) {
+  try {
+    const { dryRun = false } = await request.json().catch(() => ({}))
+
+    const result = await taxonomyTerms.normalizeExisting({ dryRun })
+    const unknownCount = Object.keys(result.unknown.muscle_groups).length + Object.keys(result.unknown.equipment).length
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `${dryRun ? 'Would normalize' : 'Normalized'} ${result.changed.length} of ${result.scanned} exercises` +
+        (unknownCount > 0 ? `; ${unknownCount} values are not in the taxonomy` : '')
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error normalizing exercise taxonomy:', error)
+    return errorResponse(error, 'Failed to normalize exercises')
+  }
+}
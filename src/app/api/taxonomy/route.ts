@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+import { taxonomyTerms } from '@/lib/taxonomy-terms'
+import { errorResponse } from '@/lib/api-errors'
+import type { ApiResponse } from '@/types'
+
+// Canonical muscle groups (with their parents and Trainerize tags) and equipment
+export async function GET() {
+  try {
+    const taxonomy = await taxonomyTerms.get()
+
+    return NextResponse.json({
+      success: true,
+      data: taxonomy
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error loading taxonomy:', error)
+    return errorResponse(error, 'Failed to load taxonomy')
+  }
+}
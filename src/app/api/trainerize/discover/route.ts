@@ -1,7 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { trainerizeClient } from '@/lib/trainerize-client'
-import { supabaseAdmin } from '@/lib/supabase'
-import type { ApiResponse } from '@/types'
+import type { TrainerizeClient } from '@/lib/trainerize-client'
+import { trainerizeConnections } from '@/lib/trainerize-connections'
+import { supabaseAdmin, scopeToConnection } from '@/lib/supabase'
+import { ExerciseRangeScanner, getRangeCheckpoint } from '@/lib/exercise-range-scanner'
+import { errorResponse } from '@/lib/api-errors'
+import type { ApiResponse, ExerciseInsert } from '@/types'
+
+interface DiscoveryOptions {
+  userIds: number[]
+  startId: number
+  endId: number
+  client: TrainerizeClient
+  connectionId: string | null
+  concurrency?: number
+}
 
 let discoveryRunning = false
 let discoveryController: AbortController | null = null
@@ -10,12 +22,13 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const { 
-      mode = 'plans', 
       userIds = [], 
-      startId = 1, 
-      endId = 10000,
-      stream = false 
+      stream = false,
+      concurrency,
+      // Picks a range scan back up from its last checkpoint
+      resumeLogId
     } = body
+    let { mode = 'plans', startId = 1, endId = 10000, connectionId = null } = body
 
     if (discoveryRunning) {
       return NextResponse.json(
@@ -24,43 +37,122 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    let logId: string | undefined
+
+    if (resumeLogId) {
+      const { data: previous } = await supabaseAdmin
+        .from('sync_logs')
+        .select('id, connection_id, metadata')
+        .eq('id', resumeLogId)
+        .single()
+      const checkpoint = previous ? getRangeCheckpoint(previous.metadata) : null
+
+      if (!previous || !checkpoint) {
+        return NextResponse.json(
+          { success: false, error: 'No range scan checkpoint to resume from' } as ApiResponse,
+          { status: 400 }
+        )
+      }
+
+      if (checkpoint.lastScannedId >= checkpoint.endId) {
+        return NextResponse.json(
+          { success: false, error: 'That range scan already finished' } as ApiResponse,
+          { status: 400 }
+        )
+      }
+
+      startId = checkpoint.lastScannedId + 1
+      endId = checkpoint.endId
+      mode = 'range'
+      connectionId = previous.connection_id
+      logId = previous.id
+
+      await supabaseAdmin
+        .from('sync_logs')
+        .update({ status: 'started', completed_at: null, error_message: null })
+        .eq('id', logId)
+    }
+
+    const client = await trainerizeConnections.getClient(connectionId)
+
     // Start discovery log
-    const { data: discoveryLog } = await supabaseAdmin
-      .from('sync_logs')
-      .insert([{
-        sync_type: 'manual',
-        status: 'started',
-        started_at: new Date().toISOString(),
-        metadata: {
-          mode,
-          userIds: mode === 'plans' ? userIds : null,
-          range: mode === 'range' ? { startId, endId } : null
-        }
-      }])
-      .select('id')
-      .single()
+    if (!logId) {
+      const { data: discoveryLog } = await supabaseAdmin
+        .from('sync_logs')
+        .insert([{
+          sync_type: 'manual',
+          status: 'started',
+          started_at: new Date().toISOString(),
+          connection_id: connectionId,
+          metadata: {
+            mode,
+            userIds: mode === 'plans' ? userIds : null,
+            range: mode === 'range' ? { startId, endId } : null
+          }
+        }])
+        .select('id')
+        .single()
+      logId = discoveryLog?.id
+    }
 
+    const options = { userIds, startId, endId, client, connectionId, concurrency }
     if (stream) {
-      return handleStreamingDiscovery(mode, { userIds, startId, endId }, discoveryLog?.id)
+      return handleStreamingDiscovery(mode, options, logId)
     } else {
-      return handleBatchDiscovery(mode, { userIds, startId, endId }, discoveryLog?.id)
+      return handleBatchDiscovery(mode, options, logId)
     }
 
   } catch (error) {
     console.error('Error in discovery:', error)
-    return NextResponse.json(
-      { 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Discovery failed' 
-      } as ApiResponse,
-      { status: 500 }
-    )
+    return errorResponse(error, 'Discovery failed')
+  }
+}
+
+async function saveExercise(exercise: any, connectionId: string | null): Promise<void> {
+  // Looked up rather than upserted: the Trainerize ID indexes are partial, which an
+  // ON CONFLICT target can't name
+  const { data: existing, error: lookupError } = await scopeToConnection(
+    supabaseAdmin
+      .from('exercises')
+      .select('id')
+      .eq('trainerize_id', String(exercise.id)),
+    connectionId
+  ).maybeSingle()
+
+  if (lookupError) {
+    throw new Error(lookupError.message)
+  }
+
+  const row: ExerciseInsert = {
+    trainerize_id: String(exercise.id),
+    connection_id: connectionId,
+    name: exercise.name,
+    description: exercise.description,
+    category: exercise.category,
+    muscle_groups: exercise.muscle_groups || [],
+    equipment: exercise.equipment || [],
+    instructions: exercise.instructions?.join('\n'),
+    video_url: exercise.video_url,
+    thumbnail_url: exercise.thumbnail_url,
+    difficulty_level: exercise.difficulty,
+    is_active: exercise.is_active !== false,
+    sync_status: 'synced',
+    synced_at: new Date().toISOString(),
+    metadata: exercise
+  }
+
+  const { error } = existing
+    ? await supabaseAdmin.from('exercises').update(row).eq('id', existing.id)
+    : await supabaseAdmin.from('exercises').insert([row])
+
+  if (error) {
+    throw new Error(error.message)
   }
 }
 
 async function handleStreamingDiscovery(
   mode: string, 
-  options: any, 
+  options: DiscoveryOptions, 
   logId?: string
 ): Promise<NextResponse> {
   const encoder = new TextEncoder()
@@ -82,9 +174,49 @@ async function handleStreamingDiscovery(
       )
 
       let exercises: any[] = []
+      let saved = 0
+      let errors = 0
 
-      if (mode === 'plans') {
-        exercises = await trainerizeClient.batchDiscoverExercises(options.userIds, {
+      if (mode === 'range') {
+        // Saved as they are found, so a checkpointed scan never loses what it found
+        const scan = await new ExerciseRangeScanner(options.client).scan({
+          startId: options.startId,
+          endId: options.endId,
+          concurrency: options.concurrency,
+          logId,
+          signal: discoveryController.signal,
+          onExercise: async (exercise) => {
+            try {
+              await saveExercise(exercise, options.connectionId)
+              saved++
+              await writer.write(
+                encoder.encode(`data: ${JSON.stringify({
+                  type: 'exercise_saved',
+                  exercise: {
+                    id: exercise.id,
+                    name: exercise.name,
+                    category: exercise.category
+                  },
+                  saved
+                })}\n\n`)
+              )
+            } catch (saveError) {
+              errors++
+              console.error(`Error saving exercise ${exercise.id}:`, saveError)
+            }
+          },
+          onProgress: async (progress) => {
+            await writer.write(
+              encoder.encode(`data: ${JSON.stringify({
+                type: 'progress',
+                ...progress
+              })}\n\n`)
+            )
+          }
+        })
+        exercises = scan.exercises
+      } else if (mode === 'plans') {
+        exercises = await options.client.batchDiscoverExercises(options.userIds, {
           onProgress: async (progress) => {
             if (discoveryController?.signal.aborted) return
             
@@ -106,39 +238,13 @@ async function handleStreamingDiscovery(
           }
         })
       } else {
-        // Range-based discovery would go here
-        // For now, use plans-based discovery as fallback
-        exercises = await trainerizeClient.discoverExercisesFromPlans([parseInt(process.env.TRAINERIZE_GROUP_ID || '0')])
+        exercises = await options.client.discoverExercisesFromPlans([parseInt(options.client.groupId)])
       }
 
       // Save exercises to database
-      let saved = 0
-      let errors = 0
-
-      for (const exercise of exercises) {
+      for (const exercise of mode === 'range' ? [] : exercises) {
         try {
-          await supabaseAdmin
-            .from('exercises')
-            .upsert({
-              trainerize_id: exercise.id,
-              name: exercise.name,
-              description: exercise.description,
-              category: exercise.category,
-              muscle_groups: exercise.muscle_groups || [],
-              equipment: exercise.equipment || [],
-              instructions: exercise.instructions?.join('\n'),
-              video_url: exercise.video_url,
-              thumbnail_url: exercise.thumbnail_url,
-              difficulty_level: exercise.difficulty,
-              is_active: exercise.is_active !== false,
-              sync_status: 'synced',
-              synced_at: new Date().toISOString(),
-              metadata: exercise
-            }, { 
-              onConflict: 'trainerize_id',
-              ignoreDuplicates: false 
-            })
-
+          await saveExercise(exercise, options.connectionId)
           saved++
 
           await writer.write(
@@ -225,48 +331,20 @@ async function handleStreamingDiscovery(
 
 async function handleBatchDiscovery(
   mode: string, 
-  options: any, 
+  options: DiscoveryOptions, 
   logId?: string
 ): Promise<NextResponse> {
   discoveryRunning = true
+  discoveryController = new AbortController()
 
   try {
     let exercises: any[] = []
-
-    if (mode === 'plans') {
-      exercises = await trainerizeClient.batchDiscoverExercises(options.userIds)
-    } else {
-      exercises = await trainerizeClient.discoverExercisesFromPlans([parseInt(process.env.TRAINERIZE_GROUP_ID || '0')])
-    }
-
-    // Save exercises to database
     let saved = 0
     const errors: string[] = []
 
-    for (const exercise of exercises) {
+    const save = async (exercise: any) => {
       try {
-        await supabaseAdmin
-          .from('exercises')
-          .upsert({
-            trainerize_id: exercise.id,
-            name: exercise.name,
-            description: exercise.description,
-            category: exercise.category,
-            muscle_groups: exercise.muscle_groups || [],
-            equipment: exercise.equipment || [],
-            instructions: exercise.instructions?.join('\n'),
-            video_url: exercise.video_url,
-            thumbnail_url: exercise.thumbnail_url,
-            difficulty_level: exercise.difficulty,
-            is_active: exercise.is_active !== false,
-            sync_status: 'synced',
-            synced_at: new Date().toISOString(),
-            metadata: exercise
-          }, { 
-            onConflict: 'trainerize_id',
-            ignoreDuplicates: false 
-          })
-
+        await saveExercise(exercise, options.connectionId)
         saved++
       } catch (saveError) {
         const errorMsg = `Exercise ${exercise.id}: ${saveError instanceof Error ? saveError.message : 'Unknown error'}`
@@ -275,6 +353,28 @@ async function handleBatchDiscovery(
       }
     }
 
+    if (mode === 'range') {
+      // Saved as they are found, so a checkpointed scan never loses what it found
+      const scan = await new ExerciseRangeScanner(options.client).scan({
+        startId: options.startId,
+        endId: options.endId,
+        concurrency: options.concurrency,
+        logId,
+        signal: discoveryController.signal,
+        onExercise: save
+      })
+      exercises = scan.exercises
+    } else {
+      exercises = mode === 'plans'
+        ? await options.client.batchDiscoverExercises(options.userIds)
+        : await options.client.discoverExercisesFromPlans([parseInt(options.client.groupId)])
+
+      // Save exercises to database
+      for (const exercise of exercises) {
+        await save(exercise)
+      }
+    }
+
     // Update discovery log
     if (logId) {
       await supabaseAdmin
@@ -316,6 +416,7 @@ async function handleBatchDiscovery(
     throw error
   } finally {
     discoveryRunning = false
+    discoveryController = null
   }
 }
 
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { exerciseVideos, VideoValidationError } from '@/lib/exercise-videos'
+import { errorResponse } from '@/lib/api-errors'
+import type { ApiResponse } from '@/types'
+
+// Canonical URL, thumbnail and host metadata for a video, without saving anything
+export async function POST(request: NextRequest) {
+  try {
+    const { url } = await request.json()
+
+    if (!url || typeof url !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'url is required' } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const video = await exerciseVideos.resolve(url)
+
+    return NextResponse.json({
+      success: true,
+      data: video
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof VideoValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    console.error('Error resolving video:', error)
+    return errorResponse(error, 'Failed to resolve video')
+  }
+}
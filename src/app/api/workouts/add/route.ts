@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { TrainerizeWorkoutManager } from '@/lib/trainerize-workout-manager';
+import { getWorkoutManager } from '@/lib/trainerize-workout-manager';
+import { errorResponse } from '@/lib/api-errors';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const manager = new TrainerizeWorkoutManager();
+    const manager = await getWorkoutManager(body.connectionId);
     
     // Validate required fields
     if (!body.workoutDef?.name) {
@@ -41,11 +42,8 @@ export async function POST(request: NextRequest) {
     
     return NextResponse.json(result);
     
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error adding workout:', error);
-    return NextResponse.json(
-      { error: error.message },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Failed to add workout');
   }
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { WorkoutTemplateDiscovery } from '@/lib/trainerize-workout-discovery';
+import { errorResponse } from '@/lib/api-errors';
 
 export async function POST() {
   const discovery = new WorkoutTemplateDiscovery();
@@ -24,12 +25,9 @@ export async function POST() {
       report: fullReport
     });
     
-  } catch (error: any) {
+  } catch (error) {
     console.error('Discovery error:', error);
-    return NextResponse.json(
-      { error: error.message },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Discovery failed');
   }
 }
 
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jobQueue } from '@/lib/sync-jobs';
+import { errorResponse } from '@/lib/api-errors';
+
+// Queue a bulk push of workout templates to Trainerize; /api/jobs/worker processes it
+export async function POST(request: NextRequest) {
+  try {
+    const { workoutIds, skipExisting = false, connectionId = null } = await request.json();
+    
+    if (!Array.isArray(workoutIds) || workoutIds.length === 0) {
+      return NextResponse.json(
+        { error: 'workoutIds array is required' },
+        { status: 400 }
+      );
+    }
+    
+    const job = await jobQueue.enqueue(
+      'bulk_sync_workouts',
+      workoutIds.map((id: string) => ({ key: id })),
+      { skipExisting, connectionId }
+    );
+    
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      total: workoutIds.length
+    }, { status: 202 });
+    
+  } catch (error) {
+    console.error('Error queueing workout sync:', error);
+    return errorResponse(error, 'Failed to queue workout sync');
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { TrainerizeClient } from '@/lib/trainerize-client';
+import { errorResponse } from '@/lib/api-errors';
 
 export async function POST(request: NextRequest) {
   try {
@@ -99,12 +100,9 @@ export async function POST(request: NextRequest) {
       results
     });
 
-  } catch (error: any) {
+  } catch (error) {
     console.error('Test error:', error);
-    return NextResponse.json(
-      { error: error.message },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Workout test failed');
   }
 }
 
@@ -209,10 +207,6 @@ async function decodeExerciseIds(exerciseIds: number[], client: TrainerizeClient
           error: 'Could not retrieve exercise data'
         });
       }
-      
-      // Rate limiting
-      await new Promise(resolve => setTimeout(resolve, 200));
-      
     } catch (error) {
       decoded.push({
         id,
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { TrainerizeWorkoutManager } from '@/lib/trainerize-workout-manager';
+import { getWorkoutManager } from '@/lib/trainerize-workout-manager';
+import { errorResponse } from '@/lib/api-errors';
 
 export async function PUT(request: NextRequest) {
   try {
     const body = await request.json();
-    const manager = new TrainerizeWorkoutManager();
+    const manager = await getWorkoutManager(body.connectionId);
     
     // Validate required fields
     if (!body.workoutDef?.id) {
@@ -43,11 +44,8 @@ export async function PUT(request: NextRequest) {
     
     return NextResponse.json(result);
     
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error updating workout:', error);
-    return NextResponse.json(
-      { error: error.message },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Failed to update workout');
   }
 }
\ No newline at end of file
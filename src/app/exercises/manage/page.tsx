@@ -8,7 +8,8 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Checkbox } from "@/components/ui/checkbox"
 import { BulkAddToTrainerize } from "@/components/exercises/BulkAddToTrainerize"
-import { Search, Filter, Plus, RefreshCw } from "lucide-react"
+import { ImportExercises } from "@/components/exercises/ImportExercises"
+import { Search, Filter, Plus, RefreshCw, Upload } from "lucide-react"
 import { supabase } from "@/lib/supabase"
 
 interface Exercise {
@@ -36,6 +37,7 @@ export default function ExerciseManagePage() {
   const [syncFilter, setSyncFilter] = useState<"all" | "unsynced" | "synced" | "error">("all")
   const [loading, setLoading] = useState(true)
   const [showBulkAdd, setShowBulkAdd] = useState(false)
+  const [showImport, setShowImport] = useState(false)
 
   const loadExercises = async () => {
     try {
@@ -165,12 +167,20 @@ export default function ExerciseManagePage() {
             Manage and sync exercises with Trainerize
           </p>
         </div>
-        <Button onClick={loadExercises} disabled={loading}>
-          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
-          Refresh
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setShowImport(!showImport)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <Button onClick={loadExercises} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
       </div>
 
+      {showImport && <ImportExercises onImported={() => loadExercises()} />}
+
       {/* Filters and Search */}
       <Card>
         <CardHeader>
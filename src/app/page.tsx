@@ -4,12 +4,22 @@ import React from 'react'
 import { RefreshCw, Upload, Plus } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
 import { toast } from 'sonner'
 import { ExercisesTable } from '@/components/exercises/exercises-table'
 import { ExercisesFilters } from '@/components/exercises/exercises-filters'
 import { ExercisesPagination } from '@/components/exercises/exercises-pagination'
 import { useExercises } from '@/hooks/use-exercises'
 import { useSync } from '@/hooks/use-sync'
+import { useHealth, type HealthStatus } from '@/hooks/use-health'
+
+const healthBadgeVariants: Record<HealthStatus, 'default' | 'secondary' | 'destructive'> = {
+  healthy: 'default',
+  degraded: 'secondary',
+  unavailable: 'destructive'
+}
+
+const formatTime = (iso: string | null) => (iso ? new Date(iso).toLocaleTimeString() : 'never')
 
 export default function Dashboard() {
   const {
@@ -28,6 +38,7 @@ export default function Dashboard() {
   } = useExercises()
 
   const { isLoading: isSyncing, error: syncError, lastSync, startSync } = useSync()
+  const { health, error: healthError } = useHealth()
 
   const handleSync = async () => {
     try {
@@ -186,6 +197,42 @@ export default function Dashboard() {
         </Card>
       )}
 
+      {/* Trainerize Health */}
+      {(health || healthError) && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Trainerize Health</CardTitle>
+            {health && (
+              <Badge variant={healthBadgeVariants[health.status]}>{health.status}</Badge>
+            )}
+          </CardHeader>
+          <CardContent>
+            {health ? (
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+                <span>Circuit: <strong>{health.trainerize.circuit.state.replace('_', ' ')}</strong></span>
+                <span>Last success: <strong>{formatTime(health.trainerize.circuit.lastSuccessAt)}</strong></span>
+                <span>Last failure: <strong>{formatTime(health.trainerize.circuit.lastFailureAt)}</strong></span>
+                <span>
+                  Latency p50/p95/p99:{' '}
+                  <strong>
+                    {[health.trainerize.circuit.latency.p50, health.trainerize.circuit.latency.p95, health.trainerize.circuit.latency.p99]
+                      .map(ms => (ms === null ? '-' : `${ms}ms`))
+                      .join(' / ')}
+                  </strong>
+                </span>
+                {health.trainerize.circuit.retryAt && (
+                  <span className="text-destructive">
+                    Retrying at {formatTime(health.trainerize.circuit.retryAt)}
+                  </span>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-destructive">{healthError}</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Error Messages */}
       {(error.exercises || error.sync || syncError) && (
         <Card className="border-destructive">
@@ -22,7 +22,7 @@ interface BulkAddProgress {
       successful: Array<{ name: string; trainerize_id: string }>
       failed: Array<{ name: string; error: string }>
       skipped: Array<{ name: string; reason: string }>
-      duplicates: Array<{ name: string; existing_name: string }>
+      duplicates: Array<{ name: string; existing_name: string; score?: number }>
     }
   }
   message?: string
@@ -65,39 +65,65 @@ export function BulkAddToTrainerize({
         })
       })
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
+      const queued = await response.json()
+      if (!response.ok || !queued.success) {
+        throw new Error(queued.error || `HTTP error! status: ${response.status}`)
       }
 
-      const reader = response.body?.getReader()
-      const decoder = new TextDecoder()
-
-      if (!reader) {
-        throw new Error('No response body')
-      }
+      const jobId = queued.data.job_id
+      setProgress({
+        type: 'start',
+        total: exerciseIds.length,
+        message: 'Starting bulk add operation...'
+      })
 
+      // Drive the queued job forward; each call works for a bounded time and
+      // the job resumes from its cursor on the next one
       while (true) {
-        const { done, value } = await reader.read()
-        
-        if (done) break
+        const workerResponse = await fetch('/api/jobs/worker', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ jobId })
+        })
 
-        const chunk = decoder.decode(value, { stream: true })
-        const lines = chunk.split('\n')
+        const worker = await workerResponse.json()
+        if (!workerResponse.ok || !worker.success) {
+          throw new Error(worker.error || `HTTP error! status: ${workerResponse.status}`)
+        }
 
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data: BulkAddProgress = JSON.parse(line.slice(6))
-              setProgress(data)
+        const job = worker.data.progress?.job
+        if (!job) {
+          throw new Error('Bulk add job not found')
+        }
+
+        if (job.status === 'completed') {
+          const jobResults = job.result as BulkAddProgress['results']
+          setProgress({
+            type: 'complete',
+            results: jobResults,
+            message: `Bulk add completed: ${jobResults?.successful} successful, ${jobResults?.failed} failed, ${jobResults?.skipped} skipped, ${jobResults?.duplicates} duplicates`
+          })
+          setResults(jobResults)
+          onComplete?.(jobResults)
+          break
+        }
+
+        if (job.status === 'failed' || job.status === 'cancelled') {
+          throw new Error(job.last_error || `Bulk add ${job.status}`)
+        }
+
+        setProgress({
+          type: 'progress',
+          current: job.processed_items,
+          total: job.total_items,
+          percentage: job.total_items > 0 ? Math.round((job.processed_items / job.total_items) * 100) : 0
+        })
 
-              if (data.type === 'complete' && data.results) {
-                setResults(data.results)
-                onComplete?.(data.results)
-              }
-            } catch (e) {
-              console.error('Failed to parse SSE data:', e)
-            }
-          }
+        // Another worker holds the job; give it a moment before checking again
+        if (worker.data.jobs.length === 0) {
+          await new Promise(resolve => setTimeout(resolve, 2000))
         }
       }
     } catch (error) {
@@ -179,7 +205,7 @@ export function BulkAddToTrainerize({
               <div>
                 <div className="flex justify-between items-center mb-2">
                   <p className="text-sm font-medium">
-                    Processing: {progress.exercise_name}
+                    {progress.exercise_name ? `Processing: ${progress.exercise_name}` : 'Processing exercises...'}
                   </p>
                   <span className="text-sm text-muted-foreground">
                     {progress.current} / {progress.total} ({progress.percentage}%)
@@ -319,6 +345,7 @@ export function BulkAddToTrainerize({
                           </div>
                           <p className="text-orange-600 text-xs mt-1">
                             Similar to: {item.existing_name}
+                            {item.score !== undefined && ` (${Math.round(item.score * 100)}% match)`}
                           </p>
                         </div>
                       ))}
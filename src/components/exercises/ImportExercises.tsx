@@ -0,0 +1,272 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { BulkAddToTrainerize } from "@/components/exercises/BulkAddToTrainerize"
+import { CheckCircle, XCircle, AlertCircle, Loader2, Upload } from "lucide-react"
+import type { ExerciseImportReport, ImportColumnMapping, ImportField, ImportRowReport } from "@/lib/exercise-import"
+
+interface ImportExercisesProps {
+  onImported?: (exerciseIds: string[]) => void
+}
+
+const fieldLabels: Record<ImportField, string> = {
+  name: 'Name',
+  description: 'Description',
+  category: 'Category',
+  muscle_groups: 'Muscle Groups',
+  equipment: 'Equipment',
+  instructions: 'Instructions',
+  video_url: 'Video URL',
+  thumbnail_url: 'Thumbnail URL',
+  difficulty_level: 'Difficulty'
+}
+
+// Select values can't be empty
+const NOT_IMPORTED = '__none__'
+
+const statusStyles: Record<ImportRowReport['status'], string> = {
+  valid: 'bg-green-100 text-green-800',
+  invalid: 'bg-red-100 text-red-800',
+  duplicate: 'bg-orange-100 text-orange-800'
+}
+
+export function ImportExercises({ onImported }: ImportExercisesProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [report, setReport] = useState<ExerciseImportReport | null>(null)
+  const [mapping, setMapping] = useState<ImportColumnMapping | undefined>(undefined)
+  const [includeDuplicates, setIncludeDuplicates] = useState(false)
+  const [addToTrainerize, setAddToTrainerize] = useState(false)
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [importedIds, setImportedIds] = useState<string[]>([])
+
+  const runImport = async (dryRun: boolean, columnMapping = mapping) => {
+    if (!file) return
+
+    setIsRunning(true)
+    setError(null)
+
+    try {
+      const form = new FormData()
+      form.append('file', file)
+      form.append('dryRun', String(dryRun))
+      form.append('includeDuplicates', String(includeDuplicates))
+      if (columnMapping) form.append('mapping', JSON.stringify(columnMapping))
+
+      const response = await fetch('/api/exercises/import', { method: 'POST', body: form })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`)
+      }
+
+      const data = result.data as ExerciseImportReport
+      setReport(data)
+      // Spell out the unmapped fields so later previews don't suggest a column for them again
+      setMapping(Object.fromEntries(
+        (Object.keys(fieldLabels) as ImportField[]).map(field => [field, data.mapping[field] || ''])
+      ))
+
+      if (!dryRun) {
+        setImportedIds(data.importedIds)
+        onImported?.(data.importedIds)
+      }
+    } catch (err) {
+      console.error('Import error:', err)
+      setError(err instanceof Error ? err.message : 'Unknown error occurred')
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const changeMapping = (field: ImportField, header: string) => {
+    // An empty header tells the server to leave the field out rather than guess again
+    const next = { ...mapping, [field]: header === NOT_IMPORTED ? '' : header }
+    setMapping(next)
+    runImport(true, next)
+  }
+
+  const chooseFile = (selected: File | null) => {
+    setFile(selected)
+    setReport(null)
+    setMapping(undefined)
+    setImportedIds([])
+    setError(null)
+  }
+
+  const toImport = report
+    ? report.summary.valid + (includeDuplicates ? report.summary.duplicates : 0)
+    : 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Upload className="h-4 w-4" />
+          Import from Spreadsheet
+        </CardTitle>
+        <CardDescription>
+          Upload a CSV or XLSX exercise list, review the dry run, then import
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Input
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            onChange={(e) => chooseFile(e.target.files?.[0] || null)}
+            className="max-w-sm"
+          />
+          <Button
+            variant="outline"
+            onClick={() => runImport(true)}
+            disabled={!file || isRunning}
+            className="flex items-center gap-2"
+          >
+            {isRunning && <Loader2 className="h-4 w-4 animate-spin" />}
+            Preview
+          </Button>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <div className="flex items-center gap-2">
+              <XCircle className="h-4 w-4 text-red-500" />
+              <p className="text-sm font-medium text-red-800">Error</p>
+            </div>
+            <p className="text-sm text-red-700 mt-1">{error}</p>
+          </div>
+        )}
+
+        {report && (
+          <div className="space-y-4">
+            <div>
+              <h4 className="font-medium mb-2">Columns</h4>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                {(Object.keys(fieldLabels) as ImportField[]).map((field) => (
+                  <div key={field}>
+                    <Label className="text-xs">{fieldLabels[field]}</Label>
+                    <Select
+                      value={report.mapping[field] || NOT_IMPORTED}
+                      onValueChange={(value) => changeMapping(field, value)}
+                      disabled={isRunning || importedIds.length > 0}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_IMPORTED}>Not imported</SelectItem>
+                        {report.headers.filter(Boolean).map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              {report.unmappedHeaders.length > 0 && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  Ignored columns: {report.unmappedHeaders.join(', ')}
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">Rows: {report.summary.total}</Badge>
+              <Badge className={statusStyles.valid}>Ready: {report.summary.valid}</Badge>
+              <Badge className={statusStyles.invalid}>Invalid: {report.summary.invalid}</Badge>
+              <Badge className={statusStyles.duplicate}>Probable duplicates: {report.summary.duplicates}</Badge>
+            </div>
+
+            <div className="space-y-1 max-h-96 overflow-y-auto">
+              {report.rows.map((row) => (
+                <div key={row.row} className="p-2 border rounded text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">
+                      <span className="text-muted-foreground mr-2">Row {row.row}</span>
+                      {row.exercise.name || '(no name)'}
+                    </span>
+                    <Badge className={statusStyles[row.status]}>{row.status}</Badge>
+                  </div>
+                  {row.errors.map((message, index) => (
+                    <p key={index} className="text-red-600 text-xs mt-1">{message}</p>
+                  ))}
+                  {row.duplicates.map((duplicate, index) => (
+                    <p key={index} className="text-orange-600 text-xs mt-1">
+                      Looks like &quot;{duplicate.name}&quot; ({Math.round(duplicate.score * 100)}% match
+                      {duplicate.inFile ? ', earlier in this file' : duplicate.trainerize_id ? ', in Trainerize' : ''})
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </div>
+
+            {importedIds.length === 0 ? (
+              <div className="space-y-3">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="include-duplicates"
+                    checked={includeDuplicates}
+                    onCheckedChange={(checked) => setIncludeDuplicates(checked as boolean)}
+                  />
+                  <Label htmlFor="include-duplicates">Import probable duplicates too</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="add-to-trainerize"
+                    checked={addToTrainerize}
+                    onCheckedChange={(checked) => setAddToTrainerize(checked as boolean)}
+                  />
+                  <Label htmlFor="add-to-trainerize">Add the imported exercises to Trainerize</Label>
+                </div>
+                <Button
+                  onClick={() => runImport(false)}
+                  disabled={isRunning || toImport === 0}
+                  className="flex items-center gap-2"
+                >
+                  {isRunning && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Import {toImport} exercises
+                </Button>
+              </div>
+            ) : (
+              <div className="p-3 bg-green-50 border border-green-200 rounded-md">
+                <div className="flex items-center gap-2">
+                  <CheckCircle className="h-4 w-4 text-green-500" />
+                  <p className="text-sm font-medium text-green-800">Imported {importedIds.length} exercises</p>
+                </div>
+                {report.summary.invalid > 0 && (
+                  <p className="text-sm text-green-700 mt-1 flex items-center gap-1">
+                    <AlertCircle className="h-3 w-3" />
+                    {report.summary.invalid} invalid rows were left out
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {addToTrainerize && importedIds.length > 0 && (
+          <BulkAddToTrainerize
+            exerciseIds={importedIds}
+            skipExisting={true}
+            checkForDuplicates={!includeDuplicates}
+          />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
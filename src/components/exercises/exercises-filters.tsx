@@ -11,6 +11,7 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { Badge } from '@/components/ui/badge'
+import { useTaxonomy } from '@/hooks/use-taxonomy'
 import type { FilterState } from '@/types'
 
 interface ExercisesFiltersProps {
@@ -30,28 +31,6 @@ const categories = [
   'Full Body'
 ]
 
-const muscleGroups = [
-  'Chest',
-  'Back',
-  'Shoulders',
-  'Arms',
-  'Core',
-  'Glutes',
-  'Legs',
-  'Calves'
-]
-
-const equipment = [
-  'Bodyweight',
-  'Dumbbells',
-  'Barbell',
-  'Resistance Bands',
-  'Cable Machine',
-  'Pull-up Bar',
-  'Kettlebell',
-  'Medicine Ball'
-]
-
 const difficultyLevels = [
   { value: 'beginner', label: 'Beginner' },
   { value: 'intermediate', label: 'Intermediate' },
@@ -66,6 +45,16 @@ const syncStatuses = [
 ]
 
 export function ExercisesFilters({ filters, onFiltersChange, onReset }: ExercisesFiltersProps) {
+  const taxonomy = useTaxonomy()
+  // Each group followed by the muscles under it; picking a group matches those too
+  const muscleGroups = taxonomy.muscles
+    .filter(muscle => !muscle.parent)
+    .flatMap(group => [
+      { value: group.name, label: group.name },
+      ...taxonomy.muscles
+        .filter(muscle => muscle.parent === group.slug)
+        .map(muscle => ({ value: muscle.name, label: `\u00a0\u00a0${muscle.name}` }))
+    ])
   const activeFiltersCount = Object.values(filters).filter(value => 
     value !== null && value !== ''
   ).length
@@ -113,8 +102,8 @@ export function ExercisesFilters({ filters, onFiltersChange, onReset }: Exercise
             <SelectContent>
               <SelectItem value="all">All Muscle Groups</SelectItem>
               {muscleGroups.map((group) => (
-                <SelectItem key={group} value={group}>
-                  {group}
+                <SelectItem key={group.value} value={group.value}>
+                  {group.label}
                 </SelectItem>
               ))}
             </SelectContent>
@@ -129,9 +118,9 @@ export function ExercisesFilters({ filters, onFiltersChange, onReset }: Exercise
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Equipment</SelectItem>
-              {equipment.map((eq) => (
-                <SelectItem key={eq} value={eq}>
-                  {eq}
+              {taxonomy.equipment.map((eq) => (
+                <SelectItem key={eq.slug} value={eq.name}>
+                  {eq.name}
                 </SelectItem>
               ))}
             </SelectContent>
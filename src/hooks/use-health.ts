@@ -0,0 +1,68 @@
+'use client'
+
+import { useState, useCallback, useEffect } from 'react'
+import type { ApiResponse } from '@/types'
+import type { CircuitBreakerStatus } from '@/lib/circuit-breaker'
+import type { RateLimiterMetrics } from '@/lib/rate-limiter'
+
+export type HealthStatus = 'healthy' | 'degraded' | 'unavailable'
+
+interface HealthReport {
+  status: HealthStatus
+  checkedAt: string
+  database: { configured: boolean }
+  trainerize: {
+    connectionValid: boolean
+    rateLimit: RateLimiterMetrics
+    queueLength: number
+    circuit: CircuitBreakerStatus
+  }
+}
+
+interface UseHealthReturn {
+  health: HealthReport | null
+  isLoading: boolean
+  error: string | null
+  refresh: () => Promise<void>
+}
+
+// Polls /api/health; every poll also validates the Trainerize connection, so keep
+// the interval generous
+export function useHealth(intervalMs = 60000): UseHealthReturn {
+  const [health, setHealth] = useState<HealthReport | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+
+    try {
+      const response = await fetch('/api/health')
+      const result: ApiResponse<HealthReport> = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Health check failed')
+      }
+
+      setHealth(result.data!)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Health check failed')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    const timer = setInterval(refresh, intervalMs)
+    return () => clearInterval(timer)
+  }, [refresh, intervalMs])
+
+  return {
+    health,
+    isLoading,
+    error,
+    refresh
+  }
+}
@@ -5,9 +5,14 @@ import type { ApiResponse } from '@/types'
 
 interface SyncResult {
   syncId: string
+  syncType: 'full' | 'incremental' | 'manual'
+  since?: string
+  fallbackReason?: string
   processed: number
   created: number
   updated: number
+  skipped: number
+  failed: number
 }
 
 interface UseSyncReturn {
@@ -0,0 +1,28 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { DEFAULT_TAXONOMY, type Taxonomy } from '@/lib/exercise-taxonomy'
+import type { ApiResponse } from '@/types'
+
+// The stored muscle and equipment taxonomy; the built-in one until it has loaded or if
+// it can't be
+export function useTaxonomy(): Taxonomy {
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>(DEFAULT_TAXONOMY)
+
+  useEffect(() => {
+    let cancelled = false
+
+    fetch('/api/taxonomy')
+      .then(response => response.json())
+      .then((result: ApiResponse<Taxonomy>) => {
+        if (!cancelled && result.success && result.data) setTaxonomy(result.data)
+      })
+      .catch(error => console.error('Failed to load taxonomy:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return taxonomy
+}
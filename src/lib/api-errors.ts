@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import {
+  isTrainerizeError,
+  TrainerizeRateLimitError,
+  TrainerizeCircuitOpenError,
+  type TrainerizeErrorCode
+} from './trainerize-errors'
+import type { ApiResponse } from '@/types'
+
+// HTTP status a route answers with when a Trainerize call fails. Auth failures are
+// our credentials being rejected upstream, so they surface as a bad gateway rather
+// than as the caller's 401.
+const STATUS_BY_CODE: Record<TrainerizeErrorCode, number> = {
+  TRAINERIZE_AUTH: 502,
+  TRAINERIZE_RATE_LIMIT: 429,
+  TRAINERIZE_NOT_FOUND: 404,
+  TRAINERIZE_BUSINESS: 422,
+  TRAINERIZE_NETWORK: 503,
+  TRAINERIZE_UNAVAILABLE: 503
+}
+
+export function getErrorStatus(error: unknown): number {
+  return isTrainerizeError(error) ? STATUS_BY_CODE[error.code] : 500
+}
+
+// Error body for a route's catch block: { success: false, error, code } with the
+// status matching the error kind
+export function errorResponse(error: unknown, fallbackMessage: string) {
+  const headers: Record<string, string> = {}
+  if ((error instanceof TrainerizeRateLimitError || error instanceof TrainerizeCircuitOpenError) && error.retryAfterMs) {
+    headers['Retry-After'] = String(Math.ceil(error.retryAfterMs / 1000))
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: error instanceof Error ? error.message : fallbackMessage,
+      code: isTrainerizeError(error) ? error.code : 'INTERNAL_ERROR'
+    } as ApiResponse,
+    { status: getErrorStatus(error), headers }
+  )
+}
@@ -0,0 +1,159 @@
+// Process-wide circuit breaker for the Trainerize API. After enough consecutive
+// failures it opens and every request fails fast until the reset timeout passes;
+// then a single probe request decides whether it closes again.
+//
+//   TRAINERIZE_CIRCUIT_FAILURE_THRESHOLD=5
+//   TRAINERIZE_CIRCUIT_RESET_MS=30000
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number
+  // How long the circuit stays open before letting a probe through
+  resetTimeoutMs: number
+  // Latencies kept for the percentiles
+  latencySampleSize: number
+}
+
+export interface LatencyPercentiles {
+  samples: number
+  p50: number | null
+  p95: number | null
+  p99: number | null
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState
+  consecutiveFailures: number
+  totalFailures: number
+  totalSuccesses: number
+  // Requests refused while the circuit was open
+  rejectedRequests: number
+  openedAt: string | null
+  // When the next probe is allowed, while open
+  retryAt: string | null
+  lastSuccessAt: string | null
+  lastFailureAt: string | null
+  lastFailure: string | null
+  latency: LatencyPercentiles
+}
+
+function getDefaultOptions(): CircuitBreakerOptions {
+  return {
+    failureThreshold: parseInt(process.env.TRAINERIZE_CIRCUIT_FAILURE_THRESHOLD || '') || 5,
+    resetTimeoutMs: parseInt(process.env.TRAINERIZE_CIRCUIT_RESET_MS || '') || 30000,
+    latencySampleSize: 200
+  }
+}
+
+// Nearest-rank percentile over sorted samples
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1]
+}
+
+const toIso = (time: number | null) => (time ? new Date(time).toISOString() : null)
+
+export class CircuitBreaker {
+  private options: CircuitBreakerOptions
+  private state: CircuitState = 'closed'
+  private consecutiveFailures = 0
+  private openedAt: number | null = null
+  private probeInFlight = false
+  private lastSuccessAt: number | null = null
+  private lastFailureAt: number | null = null
+  private lastFailure: string | null = null
+  private latencies: number[] = []
+  private stats = { totalFailures: 0, totalSuccesses: 0, rejectedRequests: 0 }
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = { ...getDefaultOptions(), ...options }
+  }
+
+  // Whether a request may go out now. Once the reset timeout has passed the
+  // first caller becomes the probe; everyone else keeps failing fast until it reports back.
+  allowRequest(): boolean {
+    if (this.state === 'closed') return true
+
+    if (this.state === 'open' && Date.now() - (this.openedAt ?? 0) >= this.options.resetTimeoutMs) {
+      this.state = 'half_open'
+      this.probeInFlight = false
+    }
+
+    if (this.state === 'half_open' && !this.probeInFlight) {
+      this.probeInFlight = true
+      return true
+    }
+
+    this.stats.rejectedRequests++
+    return false
+  }
+
+  // Milliseconds until a probe will be allowed, 0 when requests can go out
+  retryAfterMs(): number {
+    if (this.state !== 'open' || this.openedAt === null) return 0
+    return Math.max(0, this.openedAt + this.options.resetTimeoutMs - Date.now())
+  }
+
+  recordSuccess(latencyMs: number): void {
+    this.recordLatency(latencyMs)
+    this.stats.totalSuccesses++
+    this.lastSuccessAt = Date.now()
+    this.consecutiveFailures = 0
+    this.state = 'closed'
+    this.openedAt = null
+    this.probeInFlight = false
+  }
+
+  recordFailure(latencyMs: number, message: string): void {
+    this.recordLatency(latencyMs)
+    this.stats.totalFailures++
+    this.lastFailureAt = Date.now()
+    this.lastFailure = message
+    this.consecutiveFailures++
+
+    // A failed probe reopens straight away
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        console.warn(`Trainerize circuit opened after ${this.consecutiveFailures} consecutive failures: ${message}`)
+      }
+      this.state = 'open'
+      this.openedAt = Date.now()
+      this.probeInFlight = false
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    // Surface an elapsed reset timeout without consuming the probe
+    const retryAfter = this.retryAfterMs()
+    const sorted = [...this.latencies].sort((a, b) => a - b)
+
+    return {
+      state: this.state === 'open' && retryAfter === 0 ? 'half_open' : this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      ...this.stats,
+      openedAt: toIso(this.openedAt),
+      retryAt: this.state === 'open' ? toIso(Date.now() + retryAfter) : null,
+      lastSuccessAt: toIso(this.lastSuccessAt),
+      lastFailureAt: toIso(this.lastFailureAt),
+      lastFailure: this.lastFailure,
+      latency: {
+        samples: sorted.length,
+        p50: percentile(sorted, 50),
+        p95: percentile(sorted, 95),
+        p99: percentile(sorted, 99)
+      }
+    }
+  }
+
+  private recordLatency(latencyMs: number): void {
+    this.latencies.push(Math.round(latencyMs))
+    if (this.latencies.length > this.options.latencySampleSize) {
+      this.latencies.shift()
+    }
+  }
+}
+
+export const trainerizeCircuitBreaker = new CircuitBreaker()
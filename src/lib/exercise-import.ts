@@ -0,0 +1,257 @@
+import { supabaseAdmin, scopeToConnection, type DatabaseClient } from './supabase'
+import { schemaInspector } from './schema-inspector'
+import { trainerizeConnections } from './trainerize-connections'
+import { readSpreadsheet, type SpreadsheetTable } from './spreadsheet-reader'
+import { findDuplicateCandidates } from './exercise-similarity'
+import { canonicalizeExercise } from './exercise-taxonomy'
+import { describeUnknownTerms } from './taxonomy-terms'
+import { DUPLICATE_CHECK_COLUMNS, type LinkedExercise, type TrainerizeClient } from './trainerize-client'
+import type { ExerciseInsert } from '@/types'
+
+// Imports exercises from a coach's spreadsheet. Columns are matched to exercise fields by
+// header, with the patterns SchemaInspector uses for database columns; each row is checked
+// the way an add to Trainerize would check it, and against existing exercises and earlier
+// rows for probable duplicates. Nothing is written on a dry run, which is the default.
+
+export const IMPORT_FIELDS = [
+  'name',
+  'description',
+  'category',
+  'muscle_groups',
+  'equipment',
+  'instructions',
+  'video_url',
+  'thumbnail_url',
+  'difficulty_level'
+] as const
+
+export type ImportField = typeof IMPORT_FIELDS[number]
+
+// Spreadsheet header read for each field
+export type ImportColumnMapping = Partial<Record<ImportField, string>>
+
+export const MAX_IMPORT_ROWS = 2000
+
+const LIST_FIELDS: ImportField[] = ['muscle_groups', 'equipment']
+const DIFFICULTY_LEVELS = ['beginner', 'intermediate', 'advanced']
+
+export interface ExerciseImportOptions {
+  // Overrides the suggested header for a field; an empty string leaves the field out
+  mapping?: ImportColumnMapping
+  connectionId?: string | null
+  // Default true: report only
+  dryRun?: boolean
+  // Also insert rows that probably duplicate an existing exercise
+  includeDuplicates?: boolean
+}
+
+export interface ImportRowReport {
+  // Spreadsheet row number, the header being row 1
+  row: number
+  status: 'valid' | 'invalid' | 'duplicate'
+  exercise: Record<string, any>
+  errors: string[]
+  duplicates: Array<{ id: string | null; name: string; trainerize_id: string | null; score: number; inFile: boolean }>
+}
+
+export interface ExerciseImportReport {
+  headers: string[]
+  mapping: ImportColumnMapping
+  // Headers no field reads
+  unmappedHeaders: string[]
+  rows: ImportRowReport[]
+  summary: { total: number; valid: number; invalid: number; duplicates: number; imported: number }
+  importedIds: string[]
+  dryRun: boolean
+}
+
+// A file or mapping the import can't work with; the API answers 400
+export class ExerciseImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ExerciseImportError'
+  }
+}
+
+// "Exercise Name" -> exercise_name, to match the column patterns
+const headerKey = (header: string) => header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '')
+
+export function suggestColumnMapping(headers: string[]): ImportColumnMapping {
+  const byKey = new Map<string, string>()
+  for (const header of headers) {
+    if (!byKey.has(headerKey(header))) byKey.set(headerKey(header), header)
+  }
+
+  const suggested = schemaInspector.analyzeMappingPatterns([...byKey.keys()])
+  return Object.fromEntries(
+    IMPORT_FIELDS.filter(field => suggested[field]).map(field => [field, byKey.get(suggested[field])!])
+  )
+}
+
+function rowToExercise(cells: string[], headers: string[], mapping: ImportColumnMapping): Record<string, any> {
+  const exercise: Record<string, any> = {}
+
+  for (const field of IMPORT_FIELDS) {
+    const header = mapping[field]
+    const value = header ? cells[headers.indexOf(header)]?.trim() : ''
+    if (!value) continue
+
+    exercise[field] = LIST_FIELDS.includes(field)
+      ? value.split(/[,;\n]/).map(part => part.trim()).filter(Boolean)
+      : field === 'difficulty_level' ? value.toLowerCase() : value
+  }
+
+  return exercise
+}
+
+export class ExerciseImports {
+  constructor(
+    private db: DatabaseClient = supabaseAdmin,
+    // The connection's client when not given
+    private client: TrainerizeClient | null = null
+  ) {}
+
+  async importFile(data: Buffer, filename: string, options: ExerciseImportOptions = {}): Promise<ExerciseImportReport> {
+    // The header and MAX_IMPORT_ROWS rows below it
+    return this.importTable(readSpreadsheet(data, filename, { maxRows: MAX_IMPORT_ROWS + 1 }), options)
+  }
+
+  async importTable(table: SpreadsheetTable, options: ExerciseImportOptions = {}): Promise<ExerciseImportReport> {
+    const { connectionId = null, dryRun = true, includeDuplicates = false } = options
+
+    if (table.rows.length > MAX_IMPORT_ROWS) {
+      throw new ExerciseImportError(`The file has ${table.rows.length} rows; import at most ${MAX_IMPORT_ROWS} at a time`)
+    }
+
+    const mapping = this.resolveMapping(table.headers, options.mapping)
+    const rows = await this.checkRows(table, mapping, connectionId)
+
+    const toImport = rows.filter(row => row.status === 'valid' || (includeDuplicates && row.status === 'duplicate'))
+    const importedIds = dryRun ? [] : await this.insert(toImport, connectionId)
+
+    const mapped = new Set(Object.values(mapping))
+    return {
+      headers: table.headers,
+      mapping,
+      unmappedHeaders: table.headers.filter(header => header && !mapped.has(header)),
+      rows,
+      summary: {
+        total: rows.length,
+        valid: rows.filter(row => row.status === 'valid').length,
+        invalid: rows.filter(row => row.status === 'invalid').length,
+        duplicates: rows.filter(row => row.status === 'duplicate').length,
+        imported: importedIds.length
+      },
+      importedIds,
+      dryRun
+    }
+  }
+
+  private resolveMapping(headers: string[], overrides: ImportColumnMapping = {}): ImportColumnMapping {
+    // Usually parsed from a request, so it can be any JSON value
+    if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+      throw new ExerciseImportError('mapping must be a JSON object of field to column header')
+    }
+
+    const mapping: ImportColumnMapping = { ...suggestColumnMapping(headers) }
+
+    for (const [field, header] of Object.entries(overrides) as Array<[ImportField, unknown]>) {
+      if (!IMPORT_FIELDS.includes(field)) {
+        throw new ExerciseImportError(`Unknown exercise field "${field}"`)
+      }
+      if (header !== null && typeof header !== 'string') {
+        throw new ExerciseImportError(`The column for ${field} must be a header name`)
+      }
+      if (!header) {
+        delete mapping[field]
+        continue
+      }
+      if (!headers.includes(header)) {
+        throw new ExerciseImportError(`The file has no column "${header}" for ${field}`)
+      }
+      mapping[field] = header
+    }
+
+    if (!mapping.name) {
+      throw new ExerciseImportError('No column holds the exercise name; map one to name')
+    }
+    return mapping
+  }
+
+  private async checkRows(table: SpreadsheetTable, mapping: ImportColumnMapping, connectionId: string | null): Promise<ImportRowReport[]> {
+    const client = this.client || await trainerizeConnections.getClient(connectionId)
+    const [profile, taxonomy] = await Promise.all([client.getMappingProfile(), client.getTaxonomy()])
+
+    const { data: existing, error } = await scopeToConnection(
+      this.db
+        .from('exercises')
+        .select(DUPLICATE_CHECK_COLUMNS)
+        .not('is_active', 'is', false),
+      connectionId
+    )
+
+    if (error) {
+      throw new Error(`Failed to load exercises for duplicate checks: ${error.message}`)
+    }
+
+    const pool: Array<LinkedExercise & { inFile?: boolean }> = [...(existing || [])]
+    const reports: ImportRowReport[] = []
+
+    for (const [index, cells] of table.rows.entries()) {
+      const raw = rowToExercise(cells, table.headers, mapping)
+      const { values, unknown } = canonicalizeExercise(raw, taxonomy)
+      const exercise: Record<string, any> = { ...raw, ...values }
+
+      const errors = describeUnknownTerms(unknown)
+      if (exercise.difficulty_level && !DIFFICULTY_LEVELS.includes(exercise.difficulty_level)) {
+        errors.push(`Difficulty must be one of ${DIFFICULTY_LEVELS.join(', ')}`)
+      }
+      // The checks an add to Trainerize would fail on
+      errors.push(...client.validateExerciseCreate(await client.mapSupabaseToTrainerize(exercise, profile)).errors)
+
+      const duplicates = errors.length > 0 ? [] : findDuplicateCandidates(exercise as LinkedExercise, pool).map(candidate => ({
+        id: candidate.exercise.id || null,
+        name: candidate.exercise.name,
+        trainerize_id: candidate.exercise.trainerize_id,
+        score: candidate.score,
+        inFile: !!candidate.exercise.inFile
+      }))
+
+      const status = errors.length > 0 ? 'invalid' : duplicates.length > 0 ? 'duplicate' : 'valid'
+      // Later rows are compared against the ones that would be imported before them
+      if (status === 'valid') pool.push({ ...(exercise as LinkedExercise), trainerize_id: null, inFile: true })
+
+      reports.push({ row: table.rowNumbers[index], status, exercise, errors, duplicates })
+    }
+
+    return reports
+  }
+
+  // One insert, so a failure leaves none of the rows behind rather than some of them
+  private async insert(rows: ImportRowReport[], connectionId: string | null): Promise<string[]> {
+    if (rows.length === 0) return []
+
+    const now = new Date().toISOString()
+    // No trainerize_id until the exercise is added to Trainerize
+    const inserts: ExerciseInsert[] = rows.map(row => ({
+      ...(row.exercise as Pick<ExerciseInsert, ImportField>),
+      is_active: true,
+      sync_status: 'pending',
+      connection_id: connectionId,
+      created_at: now,
+      updated_at: now
+    }))
+
+    const { data, error } = await this.db
+      .from('exercises')
+      .insert(inserts)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to insert imported exercises: ${error.message}`)
+    }
+    return (data || []).map(row => row.id)
+  }
+}
+
+export const exerciseImports = new ExerciseImports()
@@ -0,0 +1,278 @@
+import { DEFAULT_TAXONOMY, trainerizeTagFor, type Taxonomy } from './exercise-taxonomy'
+
+// Declarative mapping between exercises rows and Trainerize exercises. A profile is a
+// list of fields; each field links a column to a Trainerize field and says how its value
+// is transformed when pushed to Trainerize and when pulled back. Profiles are stored
+// and versioned in mapping_profiles; DEFAULT_MAPPING_PROFILE applies until one is activated.
+
+export type MappingDirection = 'push' | 'pull'
+
+export type FieldTransform =
+  // Replace a value through a table; keys match case-insensitively
+  | { type: 'lookup'; values: Record<string, any>; fallback?: any }
+  // First element of an array
+  | { type: 'first' }
+  // Lookup of the first array element found in the table
+  | { type: 'any_of'; values: Record<string, any>; fallback?: any }
+  // Extract a capture group, or rewrite the value when a replacement is given
+  | { type: 'regex'; pattern: string; flags?: string; group?: number; replacement?: string }
+  // Used when the value is missing or empty
+  | { type: 'default'; value: any }
+  | { type: 'join'; separator?: string }
+  | { type: 'split'; separator?: string }
+  // Trainerize ExerciseTag of the muscle groups, from the exercise taxonomy's hierarchy
+  | { type: 'taxonomy_tag'; fallback?: any }
+
+export interface MappingField {
+  // exercises column, as a standard field name
+  column: string
+  // Field on the Trainerize exercise
+  trainerize: string
+  // Directions the field takes part in; both when omitted
+  directions?: MappingDirection[]
+  // Applied in order, to the column value when pushing and to the Trainerize value when pulling
+  push?: FieldTransform[]
+  pull?: FieldTransform[]
+}
+
+export interface MappingProfile {
+  // null for the built-in default
+  id: string | null
+  name: string
+  version: number
+  fields: MappingField[]
+}
+
+const TRANSFORM_TYPES = ['lookup', 'first', 'any_of', 'regex', 'default', 'join', 'split', 'taxonomy_tag']
+
+// The mapping the client and sync service used before profiles existed, except that the
+// tag comes from the taxonomy rather than a fixed table of spellings
+export const DEFAULT_MAPPING_PROFILE: MappingProfile = {
+  id: null,
+  name: 'default',
+  version: 0,
+  fields: [
+    { column: 'trainerize_id', trainerize: 'id', directions: ['pull'] },
+    { column: 'name', trainerize: 'name' },
+    { column: 'alternate_name', trainerize: 'alternateName', directions: ['push'] },
+    { column: 'description', trainerize: 'description' },
+    {
+      column: 'category',
+      trainerize: 'recordType',
+      directions: ['push'],
+      push: [{
+        type: 'lookup',
+        values: { strength: 'strength', cardio: 'cardio', endurance: 'endurance', timed: 'timedFasterBetter' },
+        fallback: 'general'
+      }]
+    },
+    { column: 'category', trainerize: 'category', directions: ['pull'] },
+    {
+      column: 'muscle_groups',
+      trainerize: 'tag',
+      directions: ['push'],
+      push: [
+        { type: 'taxonomy_tag', fallback: 'fullBody' },
+        { type: 'default', value: 'none' }
+      ]
+    },
+    { column: 'muscle_groups', trainerize: 'muscle_groups', directions: ['pull'] },
+    { column: 'equipment', trainerize: 'equipment', directions: ['pull'] },
+    { column: 'instructions', trainerize: 'instructions', directions: ['pull'] },
+    { column: 'video_url', trainerize: 'videoUrl', directions: ['push'] },
+    {
+      column: 'video_url',
+      trainerize: 'videoType',
+      directions: ['push'],
+      push: [
+        { type: 'regex', pattern: '(youtube\\.com|youtu\\.be|vimeo\\.com)', flags: 'i', group: 1 },
+        { type: 'lookup', values: { 'youtube.com': 'youtube', 'youtu.be': 'youtube', 'vimeo.com': 'vimeo' } }
+      ]
+    },
+    { column: 'video_url', trainerize: 'video_url', directions: ['pull'] },
+    { column: 'thumbnail_url', trainerize: 'thumbnail_url', directions: ['pull'] },
+    { column: 'difficulty_level', trainerize: 'difficulty_level', directions: ['pull'] },
+    { column: 'is_active', trainerize: 'is_active', directions: ['pull'] }
+  ]
+}
+
+const isEmpty = (value: any) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)
+
+function lookup(values: Record<string, any>, key: any): any {
+  if (key === undefined || key === null) return undefined
+  const wanted = String(key).toLowerCase()
+  const match = Object.keys(values).find(candidate => candidate.toLowerCase() === wanted)
+  return match === undefined ? undefined : values[match]
+}
+
+export function applyTransform(value: any, transform: FieldTransform, taxonomy: Taxonomy = DEFAULT_TAXONOMY): any {
+  switch (transform.type) {
+    case 'lookup': {
+      if (isEmpty(value)) return undefined
+      const mapped = lookup(transform.values, value)
+      return mapped !== undefined ? mapped : transform.fallback
+    }
+
+    case 'first':
+      return Array.isArray(value) ? value[0] : value
+
+    case 'any_of': {
+      const candidates = Array.isArray(value) ? value : isEmpty(value) ? [] : [value]
+      if (candidates.length === 0) return undefined
+      for (const candidate of candidates) {
+        const mapped = lookup(transform.values, candidate)
+        if (mapped !== undefined) return mapped
+      }
+      return transform.fallback
+    }
+
+    case 'regex': {
+      if (isEmpty(value)) return undefined
+      const text = String(value)
+      const pattern = new RegExp(transform.pattern, transform.flags)
+      if (transform.replacement !== undefined) {
+        return text.replace(pattern, transform.replacement)
+      }
+      const match = text.match(pattern)
+      return match ? match[transform.group ?? 0] : undefined
+    }
+
+    case 'default':
+      return isEmpty(value) ? transform.value : value
+
+    case 'join':
+      return Array.isArray(value) ? value.join(transform.separator ?? '\n') : value
+
+    case 'split':
+      return typeof value === 'string'
+        ? value.split(transform.separator ?? '\n').map(part => part.trim()).filter(Boolean)
+        : value
+
+    case 'taxonomy_tag':
+      if (isEmpty(value)) return undefined
+      return trainerizeTagFor(value, taxonomy) ?? transform.fallback
+  }
+}
+
+// Maps an exercises row to Trainerize fields (push) or a Trainerize exercise to columns
+// (pull). Fields whose transforms produce undefined are left out.
+export function applyMapping(
+  profile: MappingProfile,
+  direction: MappingDirection,
+  source: Record<string, any>,
+  taxonomy: Taxonomy = DEFAULT_TAXONOMY
+): Record<string, any> {
+  const mapped: Record<string, any> = {}
+
+  for (const field of profile.fields) {
+    if (field.directions && !field.directions.includes(direction)) continue
+
+    const from = direction === 'push' ? field.column : field.trainerize
+    const to = direction === 'push' ? field.trainerize : field.column
+    const transforms = field[direction] || []
+
+    let value = source[from]
+    // Without transforms a missing value has nothing to say; a pulled null still clears the column
+    if (transforms.length === 0 && (value === undefined || (direction === 'push' && value === null))) continue
+
+    for (const transform of transforms) {
+      value = applyTransform(value, transform, taxonomy)
+    }
+
+    if (value !== undefined) {
+      mapped[to] = value
+    }
+  }
+
+  return mapped
+}
+
+// Problems that would make a profile fail at sync time, one message per problem
+export function validateMappingFields(fields: unknown): string[] {
+  if (!Array.isArray(fields) || fields.length === 0) {
+    return ['fields must be a non-empty array']
+  }
+
+  const errors: string[] = []
+
+  fields.forEach((field: any, index) => {
+    const label = `fields[${index}]`
+    if (!field || typeof field !== 'object') {
+      errors.push(`${label} must be an object`)
+      return
+    }
+    if (typeof field.column !== 'string' || !field.column) errors.push(`${label}.column is required`)
+    if (typeof field.trainerize !== 'string' || !field.trainerize) errors.push(`${label}.trainerize is required`)
+    if (field.directions !== undefined && (
+      !Array.isArray(field.directions) || field.directions.some((d: any) => d !== 'push' && d !== 'pull')
+    )) {
+      errors.push(`${label}.directions may only contain 'push' and 'pull'`)
+    }
+
+    for (const direction of ['push', 'pull'] as const) {
+      const transforms = field[direction]
+      if (transforms === undefined) continue
+      if (!Array.isArray(transforms)) {
+        errors.push(`${label}.${direction} must be an array of transforms`)
+        continue
+      }
+
+      transforms.forEach((transform: any, position: number) => {
+        const transformLabel = `${label}.${direction}[${position}]`
+        if (!transform || !TRANSFORM_TYPES.includes(transform.type)) {
+          errors.push(`${transformLabel} has unknown type ${JSON.stringify(transform?.type)}`)
+          return
+        }
+        if ((transform.type === 'lookup' || transform.type === 'any_of') &&
+            (!transform.values || typeof transform.values !== 'object')) {
+          errors.push(`${transformLabel} needs a values table`)
+        }
+        if (transform.type === 'regex') {
+          try {
+            new RegExp(transform.pattern, transform.flags)
+          } catch (error) {
+            errors.push(`${transformLabel} has an invalid pattern: ${error instanceof Error ? error.message : error}`)
+          }
+        }
+        if (transform.type === 'default' && !('value' in transform)) {
+          errors.push(`${transformLabel} needs a value`)
+        }
+      })
+    }
+  })
+
+  return errors
+}
+
+export interface MappingPreviewRow {
+  source: Record<string, any>
+  current: Record<string, any>
+  candidate: Record<string, any>
+  // Output fields the candidate maps differently from the current profile
+  changed: string[]
+}
+
+// Runs sample rows through a candidate profile next to the current one
+export function previewMapping(
+  candidate: MappingProfile,
+  current: MappingProfile,
+  direction: MappingDirection,
+  rows: Record<string, any>[],
+  taxonomy: Taxonomy = DEFAULT_TAXONOMY
+): MappingPreviewRow[] {
+  return rows.map(source => {
+    const currentMapped = applyMapping(current, direction, source, taxonomy)
+    const candidateMapped = applyMapping(candidate, direction, source, taxonomy)
+    const fields = new Set([...Object.keys(currentMapped), ...Object.keys(candidateMapped)])
+
+    return {
+      source,
+      current: currentMapped,
+      candidate: candidateMapped,
+      changed: [...fields].filter(field =>
+        JSON.stringify(currentMapped[field]) !== JSON.stringify(candidateMapped[field])
+      )
+    }
+  })
+}
@@ -0,0 +1,236 @@
+import { supabaseAdmin, scopeToConnection, type DatabaseClient } from './supabase'
+import { trainerizeConnections } from './trainerize-connections'
+import { TrainerizeWorkoutManager } from './trainerize-workout-manager'
+import type { TrainerizeClient } from './trainerize-client'
+import type { Exercise, ExerciseRedirect } from '@/types'
+
+// Folds a duplicate exercise into another. The survivor takes the chosen field values,
+// workout templates that used the duplicate are pointed at the survivor (and pushed to
+// Trainerize when they are there), and the duplicate is deactivated with a redirect so
+// syncs that still carry its trainerize_id resolve to the survivor.
+
+export const MERGEABLE_FIELDS = [
+  'name',
+  'description',
+  'category',
+  'muscle_groups',
+  'equipment',
+  'instructions',
+  'video_url',
+  'thumbnail_url',
+  'difficulty_level'
+] as const
+
+export type MergeableField = typeof MERGEABLE_FIELDS[number]
+
+// 'union' combines both lists, for the array fields
+export type MergeFieldChoice = 'survivor' | 'merged' | 'union'
+
+export interface ExerciseMergeInput {
+  survivorId: string
+  mergedId: string
+  // Per-field choice; unlisted fields keep the survivor's value unless it is empty
+  fields?: Partial<Record<MergeableField, MergeFieldChoice>>
+  // Push rewritten workout templates that are in Trainerize (default true)
+  pushWorkouts?: boolean
+}
+
+export interface MergeFieldPlan {
+  field: MergeableField
+  choice: MergeFieldChoice
+  survivor: any
+  merged: any
+  value: any
+}
+
+export interface ExerciseMergePlan {
+  survivor: Exercise
+  merged: Exercise
+  fields: MergeFieldPlan[]
+}
+
+export interface ExerciseMergeResult {
+  survivor: Exercise
+  redirect: ExerciseRedirect
+  workouts: { updated: string[]; pushed: string[]; failed: Array<{ id: string; error: string }> }
+}
+
+// A merge that can't go ahead as asked; the API answers 400
+export class ExerciseMergeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ExerciseMergeError'
+  }
+}
+
+const ARRAY_FIELDS: MergeableField[] = ['muscle_groups', 'equipment']
+
+const isEmpty = (value: any) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)
+
+function chooseValue(choice: MergeFieldChoice, survivor: any, merged: any): any {
+  if (choice === 'merged') return merged
+  if (choice === 'union') {
+    return [...new Set([...(survivor || []), ...(merged || [])])]
+  }
+  return survivor
+}
+
+export class ExerciseMerges {
+  constructor(
+    private db: DatabaseClient = supabaseAdmin,
+    // The survivor's connection client when not given
+    private client: TrainerizeClient | null = null
+  ) {}
+
+  // The values the survivor would end up with, without changing anything
+  async plan(input: ExerciseMergeInput): Promise<ExerciseMergePlan> {
+    if (input.survivorId === input.mergedId) {
+      throw new ExerciseMergeError('An exercise cannot be merged into itself')
+    }
+
+    const [survivor, merged] = await Promise.all([this.getExercise(input.survivorId), this.getExercise(input.mergedId)])
+
+    if ((survivor.connection_id || null) !== (merged.connection_id || null)) {
+      throw new ExerciseMergeError('Exercises from different Trainerize connections cannot be merged')
+    }
+
+    const { data: existing } = await this.db
+      .from('exercise_redirects')
+      .select('id')
+      .in('merged_exercise_id', [survivor.id, merged.id])
+      .limit(1)
+
+    if (existing && existing.length > 0) {
+      throw new ExerciseMergeError('One of these exercises has already been merged into another')
+    }
+
+    const fields = MERGEABLE_FIELDS.map(field => {
+      const requested = input.fields?.[field]
+      if (requested === 'union' && !ARRAY_FIELDS.includes(field)) {
+        throw new ExerciseMergeError(`${field} is not a list; choose survivor or merged`)
+      }
+      if (requested && !['survivor', 'merged', 'union'].includes(requested)) {
+        throw new ExerciseMergeError(`Unknown choice "${requested}" for ${field}`)
+      }
+
+      // Fill the survivor's gaps from the duplicate unless told otherwise
+      const choice: MergeFieldChoice = requested || (isEmpty(survivor[field]) && !isEmpty(merged[field]) ? 'merged' : 'survivor')
+      return {
+        field,
+        choice,
+        survivor: survivor[field],
+        merged: merged[field],
+        value: chooseValue(choice, survivor[field], merged[field])
+      }
+    })
+
+    return { survivor, merged, fields }
+  }
+
+  async merge(input: ExerciseMergeInput): Promise<ExerciseMergeResult> {
+    const { survivor, merged, fields } = await this.plan(input)
+
+    const changes = Object.fromEntries(
+      fields.filter(plan => plan.choice !== 'survivor').map(plan => [plan.field, plan.value])
+    )
+    const { data: updatedSurvivor, error: survivorError } = await this.db
+      .from('exercises')
+      .update({
+        ...changes,
+        // Trainerize still has the old values until the survivor is pushed again
+        ...(Object.keys(changes).length > 0 && { sync_status: 'pending' as const }),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', survivor.id)
+      .select()
+      .single()
+
+    if (survivorError || !updatedSurvivor) {
+      throw new Error(`Failed to update the surviving exercise: ${survivorError?.message}`)
+    }
+
+    const { data: redirect, error: redirectError } = await this.db
+      .from('exercise_redirects')
+      .insert([{
+        merged_exercise_id: merged.id,
+        survivor_id: survivor.id,
+        trainerize_id: merged.trainerize_id || null,
+        connection_id: merged.connection_id || null,
+        name: merged.name,
+        field_choices: Object.fromEntries(fields.map(plan => [plan.field, plan.choice]))
+      }])
+      .select()
+      .single()
+
+    if (redirectError || !redirect) {
+      throw new Error(`Failed to record the exercise redirect: ${redirectError?.message}`)
+    }
+
+    // Exercises merged into the duplicate earlier now lead to the survivor
+    await this.db
+      .from('exercise_redirects')
+      .update({ survivor_id: survivor.id })
+      .eq('survivor_id', merged.id)
+
+    // Keeps its trainerize_id so the redirect lookup, not a name match, handles it
+    const { error: deactivateError } = await this.db
+      .from('exercises')
+      .update({
+        is_active: false,
+        metadata: { ...((merged.metadata as object) || {}), merged_into: survivor.id },
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', merged.id)
+
+    if (deactivateError) {
+      throw new Error(`Failed to deactivate the merged exercise: ${deactivateError.message}`)
+    }
+
+    const workoutManager = new TrainerizeWorkoutManager({
+      db: this.db,
+      client: this.client || await trainerizeConnections.getClient(survivor.connection_id),
+      connectionId: survivor.connection_id
+    })
+    const workouts = await workoutManager.replaceExerciseInTemplates(
+      { id: merged.id, trainerize_id: merged.trainerize_id || null, name: merged.name },
+      { id: survivor.id, trainerize_id: updatedSurvivor.trainerize_id || null, name: updatedSurvivor.name },
+      { push: input.pushWorkouts !== false }
+    )
+
+    return { survivor: updatedSurvivor, redirect, workouts }
+  }
+
+  // Survivor ids by the trainerize_id of the exercises merged into them
+  async getRedirects(connectionId: string | null = null): Promise<Map<string, string>> {
+    const { data, error } = await scopeToConnection(
+      this.db
+        .from('exercise_redirects')
+        .select('trainerize_id, survivor_id')
+        .not('trainerize_id', 'is', null),
+      connectionId
+    )
+
+    if (error) {
+      throw new Error(`Failed to fetch exercise redirects: ${error.message}`)
+    }
+
+    return new Map((data || []).map(redirect => [redirect.trainerize_id!, redirect.survivor_id]))
+  }
+
+  private async getExercise(exerciseId: string): Promise<Exercise> {
+    const { data, error } = await this.db
+      .from('exercises')
+      .select('*')
+      .eq('id', exerciseId)
+      .single()
+
+    if (error || !data) {
+      throw new ExerciseMergeError(`Exercise ${exerciseId} not found`)
+    }
+
+    return data
+  }
+}
+
+export const exerciseMerges = new ExerciseMerges()
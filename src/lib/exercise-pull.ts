@@ -0,0 +1,147 @@
+import { supabaseAdmin, type DatabaseClient } from './supabase'
+import { trainerizeClient, type TrainerizeClient } from './trainerize-client'
+import { SyncService } from './sync-service'
+import { SyncWatermarks, type SyncPlan, type SyncType } from './sync-watermarks'
+
+// Pulls the exercises used in the connection's training plans into Supabase, logged in
+// sync_logs. Goes through SyncService like a reviewed sync, so merged exercises resolve to
+// their survivor and local edits aren't overwritten. Only a run that saved every exercise
+// records a watermark; otherwise the next incremental sync starts from the previous one.
+
+export interface ExercisePullOptions {
+  db?: DatabaseClient
+  client?: TrainerizeClient
+  // Trainerize connection being pulled; the default group when omitted
+  connectionId?: string | null
+}
+
+export interface ExercisePullResult {
+  syncId: string
+  plan: SyncPlan
+  processed: number
+  created: number
+  updated: number
+  // Merged away, deleted locally or unchanged
+  skipped: number
+  failed: number
+  errors: Array<{ trainerize_id: string; name: string; error: string }>
+  // Changed on both sides, or probably a duplicate of a local exercise; left for the sync review
+  conflicts: Array<{ trainerize_id: string; name: string; reason?: string }>
+}
+
+export class ExercisePull {
+  private db: DatabaseClient
+  private client: TrainerizeClient
+  private connectionId: string | null
+
+  constructor(options: ExercisePullOptions = {}) {
+    this.db = options.db || supabaseAdmin
+    this.client = options.client || trainerizeClient
+    this.connectionId = options.connectionId || null
+  }
+
+  async run(type: SyncType): Promise<ExercisePullResult> {
+    // Incremental syncs only look at records changed since the last watermark,
+    // falling back to a full sync when there isn't a recent one
+    const plan = await new SyncWatermarks(this.db, this.connectionId).plan('exercises', type)
+    const startedAt = new Date().toISOString()
+
+    const { data: syncLog, error: syncLogError } = await this.db
+      .from('sync_logs')
+      .insert([{
+        sync_type: plan.sync_type,
+        status: 'started' as const,
+        started_at: startedAt,
+        records_processed: 0,
+        records_created: 0,
+        records_updated: 0,
+        records_deleted: 0,
+        connection_id: this.connectionId,
+        metadata: { ...plan }
+      }])
+      .select()
+      .single()
+
+    if (syncLogError || !syncLog) {
+      throw new Error('Failed to create sync log')
+    }
+
+    const result: ExercisePullResult = {
+      syncId: syncLog.id,
+      plan,
+      processed: 0,
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [],
+      conflicts: []
+    }
+    const service = new SyncService({ db: this.db, client: this.client, connectionId: this.connectionId })
+
+    try {
+      const groupId = parseInt(this.client.groupId)
+      const exercises = await this.client.discoverExercisesFromPlans([groupId], { since: plan.since })
+
+      // Discovery sees part of the library, so the listing proposes no deletes
+      const preview = await service.previewSync({ listing: { exercises, complete: false } })
+      for (const operation of preview.operations) {
+        if (operation.operation === 'conflict') {
+          result.conflicts.push({ trainerize_id: String(operation.id), name: operation.trainerize_data?.name, reason: operation.reason })
+          continue
+        }
+        if (operation.operation !== 'create' && operation.operation !== 'update') {
+          result.skipped++
+          continue
+        }
+
+        result.processed++
+        try {
+          const outcome = await service.applyOperation(operation)
+          if (outcome === 'created' || outcome === 'updated') result[outcome]++
+        } catch (exerciseError) {
+          console.error(`Error processing exercise ${operation.id}:`, exerciseError)
+          result.failed++
+          result.errors.push({
+            trainerize_id: String(operation.id),
+            name: operation.trainerize_data?.name,
+            error: exerciseError instanceof Error ? exerciseError.message : String(exerciseError)
+          })
+        }
+      }
+    } catch (syncError) {
+      await this.db
+        .from('sync_logs')
+        .update({
+          status: 'failed',
+          completed_at: new Date().toISOString(),
+          error_message: syncError instanceof Error ? syncError.message : 'Unknown error'
+        })
+        .eq('id', syncLog.id)
+
+      throw syncError
+    }
+
+    // Conflicts wait for review, so the watermark stays put and the next pull reports them again
+    const settled = result.failed === 0 && result.conflicts.length === 0
+    await this.db
+      .from('sync_logs')
+      .update({
+        status: result.failed === 0 ? 'completed' : 'failed',
+        completed_at: new Date().toISOString(),
+        records_processed: result.processed,
+        records_created: result.created,
+        records_updated: result.updated,
+        error_message: result.errors.length > 0
+          ? result.errors.slice(0, 3).map(e => `${e.trainerize_id}: ${e.error}`).join('; ')
+          : null,
+        // The start time, so changes made while this sync ran are picked up next time
+        metadata: settled
+          ? { ...plan, watermarks: { exercises: startedAt } }
+          : { ...plan, errors: result.errors, conflicts: result.conflicts }
+      })
+      .eq('id', syncLog.id)
+
+    return result
+  }
+}
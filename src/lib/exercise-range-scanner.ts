@@ -0,0 +1,210 @@
+import { supabaseAdmin, type DatabaseClient } from './supabase'
+import { TrainerizeBusinessError } from './trainerize-errors'
+import type { TrainerizeClient, TrainerizeExercise } from './trainerize-client'
+
+// Finds exercises by probing Trainerize exercise IDs one by one across a range. Probes
+// run a few at a time and go through the client's shared rate limiter. After a run of
+// misses the scanner strides over the IDs, doubling the stride while it keeps missing;
+// a hit backfills the IDs jumped over on either side of it. Progress is checkpointed in
+// the discovery's sync_logs.metadata so an interrupted scan resumes where it stopped.
+
+export interface RangeScanOptions {
+  startId: number
+  endId: number
+  // Probes in flight at once
+  concurrency?: number
+  // Consecutive misses before the scanner starts skipping IDs
+  sparseThreshold?: number
+  maxStride?: number
+  // sync_logs row the checkpoint is written to
+  logId?: string
+  // Probes between checkpoints
+  checkpointEvery?: number
+  signal?: AbortSignal
+  onExercise?: (exercise: TrainerizeExercise) => Promise<void> | void
+  onProgress?: (progress: RangeScanProgress) => Promise<void> | void
+}
+
+export interface RangeScanProgress {
+  startId: number
+  endId: number
+  // Every ID up to here has been probed or deliberately skipped
+  lastScannedId: number
+  probed: number
+  found: number
+  skipped: number
+}
+
+export interface RangeScanResult extends RangeScanProgress {
+  exercises: TrainerizeExercise[]
+  // false when stopped through the signal before reaching endId
+  completed: boolean
+}
+
+export interface RangeScanCheckpoint {
+  startId: number
+  endId: number
+  lastScannedId: number
+  found: number
+}
+
+// Where the scan logged with this sync_logs.metadata stopped, or null if it never checkpointed
+export function getRangeCheckpoint(metadata: unknown): RangeScanCheckpoint | null {
+  return (metadata as { checkpoint?: RangeScanCheckpoint } | null)?.checkpoint ?? null
+}
+
+const DEFAULT_CONCURRENCY = 4
+const MAX_CONCURRENCY = 10
+const DEFAULT_SPARSE_THRESHOLD = 25
+const DEFAULT_MAX_STRIDE = 64
+const DEFAULT_CHECKPOINT_EVERY = 50
+
+export class ExerciseRangeScanner {
+  constructor(
+    private client: TrainerizeClient,
+    private db: DatabaseClient = supabaseAdmin
+  ) {}
+
+  async scan(options: RangeScanOptions): Promise<RangeScanResult> {
+    const { startId, endId, logId, signal, onExercise, onProgress } = options
+    const concurrency = Math.min(Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY), MAX_CONCURRENCY)
+    const sparseThreshold = options.sparseThreshold ?? DEFAULT_SPARSE_THRESHOLD
+    const maxStride = options.maxStride ?? DEFAULT_MAX_STRIDE
+    const checkpointEvery = options.checkpointEvery ?? DEFAULT_CHECKPOINT_EVERY
+
+    if (!Number.isInteger(startId) || !Number.isInteger(endId) || startId < 1 || endId < startId) {
+      throw new Error(`Invalid ID range ${startId}-${endId}`)
+    }
+
+    const exercises: TrainerizeExercise[] = []
+    // IDs jumped over while striding, by first ID
+    const gaps = new Map<number, number>()
+    // Gap IDs next to a hit, probed before moving on
+    const backfill: number[] = []
+    const inFlight = new Set<number>()
+    let nextId = startId
+    let stride = 1
+    let misses = 0
+    let probed = 0
+    let skipped = 0
+    let sinceCheckpoint = 0
+    let failure: unknown = null
+
+    const lastScannedId = () => Math.min(nextId, ...inFlight, ...backfill) - 1
+    const progress = (): RangeScanProgress => ({
+      startId,
+      endId,
+      lastScannedId: Math.min(lastScannedId(), endId),
+      probed,
+      found: exercises.length,
+      skipped
+    })
+
+    const takeId = (): number | null => {
+      if (backfill.length > 0) return backfill.shift()!
+      if (nextId > endId) return null
+
+      const id = nextId
+      const jump = Math.min(stride, endId - id + 1)
+      if (jump > 1) {
+        gaps.set(id + 1, id + jump - 1)
+        skipped += jump - 1
+      }
+      nextId += jump
+      return id
+    }
+
+    // The region around a hit may be dense again: probe the gaps on either side of it
+    const backfillAround = (id: number) => {
+      for (const [from, to] of gaps) {
+        if (to !== id - 1 && from !== id + 1) continue
+        gaps.delete(from)
+        skipped -= to - from + 1
+        for (let gapId = from; gapId <= to; gapId++) backfill.push(gapId)
+      }
+    }
+
+    const worker = async () => {
+      while (!failure && !signal?.aborted) {
+        const id = takeId()
+        if (id === null) return
+
+        inFlight.add(id)
+        try {
+          const exercise = await this.probe(id)
+          probed++
+
+          if (exercise) {
+            backfillAround(id)
+            stride = 1
+            misses = 0
+            exercises.push(exercise)
+            await onExercise?.(exercise)
+          } else if (++misses >= sparseThreshold) {
+            stride = Math.min(stride * 2, maxStride)
+            misses = 0
+          }
+        } catch (error) {
+          failure = error
+          return
+        } finally {
+          inFlight.delete(id)
+        }
+
+        if (++sinceCheckpoint >= checkpointEvery) {
+          sinceCheckpoint = 0
+          if (logId) await this.checkpoint(logId, progress())
+          await onProgress?.(progress())
+        }
+      }
+    }
+
+    await Promise.all(Array.from({ length: concurrency }, worker))
+
+    // Record how far we got even when the scan failed, so it can resume from there
+    const final = progress()
+    if (logId) await this.checkpoint(logId, final)
+    if (failure) throw failure
+
+    await onProgress?.(final)
+    return { ...final, exercises, completed: final.lastScannedId >= endId }
+  }
+
+  // A missing ID answers 404; Trainerize refuses some IDs (another group's custom
+  // exercises) with an error code instead, which is just as much a miss
+  private async probe(id: number): Promise<TrainerizeExercise | null> {
+    try {
+      return await this.client.getExercise(id)
+    } catch (error) {
+      if (error instanceof TrainerizeBusinessError) return null
+      throw error
+    }
+  }
+
+  private async checkpoint(logId: string, progress: RangeScanProgress): Promise<void> {
+    const { data } = await this.db
+      .from('sync_logs')
+      .select('metadata')
+      .eq('id', logId)
+      .single()
+
+    const checkpoint: RangeScanCheckpoint = {
+      startId: progress.startId,
+      endId: progress.endId,
+      lastScannedId: progress.lastScannedId,
+      found: progress.found
+    }
+
+    const { error } = await this.db
+      .from('sync_logs')
+      .update({
+        metadata: { ...((data?.metadata as object) || {}), checkpoint: { ...checkpoint } },
+        records_processed: progress.probed
+      })
+      .eq('id', logId)
+
+    if (error) {
+      console.error(`Failed to checkpoint discovery ${logId}:`, error)
+    }
+  }
+}
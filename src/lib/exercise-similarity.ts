@@ -0,0 +1,196 @@
+// Fuzzy matching between exercises, for catching duplicates that exact name comparison
+// misses ("DB Bench Press" vs "Dumbbell Bench Press", "Push-ups" vs "Push Up"). Names
+// are compared as normalized token sets with abbreviations expanded and small typos
+// forgiven, against the alternate name as well; shared equipment and muscle groups
+// count for the rest of the score when both exercises list them.
+
+export interface SimilarityInput {
+  name: string
+  // alternateName on Trainerize exercises; exercises rows keep it in the stored payload
+  alternateName?: string | null
+  metadata?: unknown
+  equipment?: string[] | null
+  muscle_groups?: string[] | null
+}
+
+export interface DuplicateCandidate<T> {
+  exercise: T
+  // 0-1, ranked highest first
+  score: number
+  matchedOn: 'name' | 'alternate_name'
+  nameScore: number
+  // null when either exercise lists no equipment or muscle groups
+  attributeScore: number | null
+}
+
+// At or above this an exercise is flagged as a probable duplicate. A variation such as
+// "Barbell Front Squat" vs "Barbell Squat" scores around 0.8 and stays below it.
+export const DUPLICATE_THRESHOLD = 0.85
+
+const ABBREVIATIONS: Record<string, string[]> = {
+  db: ['dumbbell'],
+  dbs: ['dumbbell'],
+  bb: ['barbell'],
+  kb: ['kettlebell'],
+  kbs: ['kettlebell'],
+  ez: ['ez', 'bar'],
+  bw: ['bodyweight'],
+  sb: ['stability', 'ball'],
+  mb: ['medicine', 'ball'],
+  trx: ['suspension'],
+  ohp: ['overhead', 'press'],
+  oh: ['overhead'],
+  rdl: ['romanian', 'deadlift'],
+  sl: ['single', 'leg'],
+  sa: ['single', 'arm'],
+  alt: ['alternating'],
+  incl: ['incline'],
+  decl: ['decline']
+}
+
+// Spelling variants folded onto one token
+const SYNONYMS: Record<string, string> = {
+  pushup: 'push up',
+  pullup: 'pull up',
+  situp: 'sit up',
+  chinup: 'chin up',
+  dumbell: 'dumbbell',
+  'body weight': 'bodyweight'
+}
+
+const STOPWORDS = new Set(['a', 'an', 'the', 'with', 'on', 'of', 'and', 'to', 'using'])
+
+// Two tokens this close count as the same word
+const TOKEN_MATCH = 0.8
+
+// Weight of the name in the score when equipment and muscle groups are comparable
+const NAME_WEIGHT = 0.8
+
+export function singular(token: string): string {
+  if (token.length <= 2 || token.endsWith('ss')) return token
+  if (token.endsWith('ies')) return `${token.slice(0, -3)}y`
+  return token.endsWith('s') ? token.slice(0, -1) : token
+}
+
+// Lowercased tokens with punctuation dropped, abbreviations expanded and plurals folded
+export function normalizeExerciseName(name: string): string[] {
+  let text = name.toLowerCase().replace(/['’]/g, '').replace(/[^a-z0-9]+/g, ' ').trim()
+  for (const [variant, canonical] of Object.entries(SYNONYMS)) {
+    text = text.replace(new RegExp(`\\b${variant}s?\\b`, 'g'), canonical)
+  }
+
+  return text
+    .split(' ')
+    .filter(Boolean)
+    .flatMap(token => ABBREVIATIONS[token] || [token])
+    .filter(token => !STOPWORDS.has(token))
+    .map(singular)
+}
+
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+function editSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length)
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest
+}
+
+// Dice coefficient over tokens, where near-identical tokens count as matches
+function tokenOverlap(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0
+
+  const unmatched = [...b]
+  let matches = 0
+  for (const token of a) {
+    const index = unmatched.findIndex(other => other === token || editSimilarity(other, token) >= TOKEN_MATCH)
+    if (index !== -1) {
+      matches++
+      unmatched.splice(index, 1)
+    }
+  }
+  return (2 * matches) / (a.length + b.length)
+}
+
+function nameSimilarity(a: string[], b: string[]): number {
+  // Sorted so word order doesn't count as edits
+  const edits = editSimilarity([...a].sort().join(' '), [...b].sort().join(' '))
+  return 0.7 * tokenOverlap(a, b) + 0.3 * edits
+}
+
+function setOverlap(a?: string[] | null, b?: string[] | null): number | null {
+  if (!a?.length || !b?.length) return null
+  const left = new Set(a.map(value => singular(value.toLowerCase().trim())))
+  const right = new Set(b.map(value => singular(value.toLowerCase().trim())))
+  const shared = [...left].filter(value => right.has(value)).length
+  return shared / new Set([...left, ...right]).size
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+const alternateNameOf = (exercise: SimilarityInput): string | null =>
+  exercise.alternateName || (exercise.metadata as { alternateName?: string } | null)?.alternateName || null
+
+export function scoreSimilarity(
+  exercise: SimilarityInput,
+  other: SimilarityInput
+): Omit<DuplicateCandidate<SimilarityInput>, 'exercise'> {
+  const names = [exercise.name, alternateNameOf(exercise)].filter(Boolean) as string[]
+  const otherNames = [other.name, alternateNameOf(other)].filter(Boolean) as string[]
+
+  let nameScore = 0
+  let matchedOn: 'name' | 'alternate_name' = 'name'
+  names.forEach((name, i) => otherNames.forEach((otherName, j) => {
+    const score = nameSimilarity(normalizeExerciseName(name), normalizeExerciseName(otherName))
+    if (score > nameScore) {
+      nameScore = score
+      matchedOn = i === 0 && j === 0 ? 'name' : 'alternate_name'
+    }
+  }))
+
+  const overlaps = [
+    setOverlap(exercise.equipment, other.equipment),
+    setOverlap(exercise.muscle_groups, other.muscle_groups)
+  ].filter((overlap): overlap is number => overlap !== null)
+  const attributeScore = overlaps.length > 0 ? overlaps.reduce((sum, overlap) => sum + overlap, 0) / overlaps.length : null
+
+  return {
+    score: round(attributeScore === null ? nameScore : NAME_WEIGHT * nameScore + (1 - NAME_WEIGHT) * attributeScore),
+    matchedOn,
+    nameScore: round(nameScore),
+    attributeScore: attributeScore === null ? null : round(attributeScore)
+  }
+}
+
+// Exercises in the pool that probably duplicate the given one, best match first
+export function findDuplicateCandidates<T extends SimilarityInput>(
+  exercise: SimilarityInput,
+  pool: T[],
+  options: { threshold?: number; limit?: number } = {}
+): DuplicateCandidate<T>[] {
+  const { threshold = DUPLICATE_THRESHOLD, limit = 5 } = options
+  if (!exercise.name) return []
+
+  return pool
+    .filter(candidate => candidate.name)
+    .map(candidate => ({ exercise: candidate, ...scoreSimilarity(exercise, candidate) }))
+    .filter(candidate => candidate.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
@@ -0,0 +1,233 @@
+import { singular } from './exercise-similarity'
+import type { ExerciseTag } from './trainerize-client'
+
+// Controlled vocabulary for exercises.muscle_groups and exercises.equipment. A value
+// matches a term by its name, slug or a synonym, ignoring case, punctuation and plurals.
+// Muscles form a hierarchy (quads -> legs); an exercise's Trainerize tag comes from the
+// nearest muscle up the hierarchy that carries one. Terms are stored in muscle_taxonomy
+// and equipment_taxonomy; DEFAULT_TAXONOMY applies while those tables are empty.
+
+export type TaxonomyKind = 'muscle_groups' | 'equipment'
+
+export interface MuscleTerm {
+  slug: string
+  name: string
+  // slug of the broader group, null at the top
+  parent: string | null
+  // Set on top-level groups; the muscles below them inherit it
+  trainerizeTag: ExerciseTag | null
+  synonyms: string[]
+}
+
+export interface EquipmentTerm {
+  slug: string
+  name: string
+  synonyms: string[]
+}
+
+export interface Taxonomy {
+  muscles: MuscleTerm[]
+  equipment: EquipmentTerm[]
+}
+
+export interface CanonicalTerms {
+  // Canonical names without duplicates; unknown values are kept as given
+  values: string[]
+  unknown: string[]
+}
+
+const muscle = (
+  slug: string,
+  name: string,
+  parent: string | null,
+  trainerizeTag: ExerciseTag | null,
+  synonyms: string[] = []
+): MuscleTerm => ({ slug, name, parent, trainerizeTag, synonyms })
+
+const equipment = (slug: string, name: string, synonyms: string[] = []): EquipmentTerm => ({ slug, name, synonyms })
+
+// Seeded into the taxonomy tables by database-setup.sql; keep the two in step
+export const DEFAULT_TAXONOMY: Taxonomy = {
+  muscles: [
+    muscle('chest', 'Chest', null, 'chest', ['pecs', 'pectorals', 'pectoralis major']),
+    muscle('back', 'Back', null, 'back', ['upper back']),
+    muscle('lats', 'Lats', 'back', null, ['latissimus dorsi', 'latissimus']),
+    muscle('traps', 'Traps', 'back', null, ['trapezius']),
+    muscle('rhomboids', 'Rhomboids', 'back', null),
+    muscle('lower-back', 'Lower Back', 'back', null, ['erector spinae', 'lumbar']),
+    muscle('shoulders', 'Shoulders', null, 'shoulder', ['delts', 'deltoids']),
+    muscle('front-delts', 'Front Delts', 'shoulders', null, ['anterior deltoid', 'front deltoid']),
+    muscle('side-delts', 'Side Delts', 'shoulders', null, ['lateral deltoid', 'medial deltoid']),
+    muscle('rear-delts', 'Rear Delts', 'shoulders', null, ['posterior deltoid', 'rear deltoid']),
+    muscle('arms', 'Arms', null, 'arms', ['upper arms']),
+    muscle('biceps', 'Biceps', 'arms', null, ['biceps brachii']),
+    muscle('triceps', 'Triceps', 'arms', null, ['triceps brachii']),
+    muscle('forearms', 'Forearms', 'arms', null, ['grip', 'wrist flexors']),
+    muscle('core', 'Core', null, 'abs', ['abs', 'abdominals', 'midsection']),
+    muscle('obliques', 'Obliques', 'core', null, ['side abs']),
+    muscle('legs', 'Legs', null, 'legs', ['lower body']),
+    muscle('quads', 'Quads', 'legs', null, ['quadriceps', 'thighs']),
+    muscle('hamstrings', 'Hamstrings', 'legs', null, ['hams']),
+    muscle('glutes', 'Glutes', 'legs', null, ['gluteus maximus', 'butt']),
+    muscle('calves', 'Calves', 'legs', null, ['calf', 'gastrocnemius', 'soleus']),
+    muscle('hip-flexors', 'Hip Flexors', 'legs', null, ['iliopsoas']),
+    muscle('adductors', 'Adductors', 'legs', null, ['inner thighs']),
+    muscle('abductors', 'Abductors', 'legs', null, ['outer thighs']),
+    muscle('cardio', 'Cardio', null, 'cardio', ['cardiovascular', 'conditioning']),
+    muscle('full-body', 'Full Body', null, 'fullBody', ['total body', 'whole body'])
+  ],
+  equipment: [
+    equipment('bodyweight', 'Bodyweight', ['body weight', 'no equipment', 'none']),
+    equipment('dumbbells', 'Dumbbells', ['db', 'dumbell']),
+    equipment('barbell', 'Barbell', ['bb', 'olympic bar']),
+    equipment('ez-bar', 'EZ Bar', ['ez curl bar', 'curl bar']),
+    equipment('kettlebell', 'Kettlebell', ['kb']),
+    equipment('resistance-bands', 'Resistance Bands', ['band', 'loop band', 'mini band']),
+    equipment('cable-machine', 'Cable Machine', ['cable', 'cable station', 'pulley']),
+    equipment('machine', 'Machine', ['weight machine', 'selectorized machine']),
+    equipment('smith-machine', 'Smith Machine', ['smith']),
+    equipment('pull-up-bar', 'Pull-up Bar', ['chin-up bar', 'chinning bar']),
+    equipment('bench', 'Bench', ['flat bench', 'adjustable bench', 'incline bench']),
+    equipment('medicine-ball', 'Medicine Ball', ['med ball', 'mb', 'slam ball']),
+    equipment('stability-ball', 'Stability Ball', ['swiss ball', 'exercise ball', 'physio ball']),
+    equipment('suspension-trainer', 'Suspension Trainer', ['trx', 'suspension straps']),
+    equipment('plyo-box', 'Plyo Box', ['box', 'jump box']),
+    equipment('jump-rope', 'Jump Rope', ['skipping rope', 'skip rope']),
+    equipment('foam-roller', 'Foam Roller', ['roller']),
+    equipment('treadmill', 'Treadmill'),
+    equipment('rowing-machine', 'Rowing Machine', ['rower', 'erg']),
+    equipment('stationary-bike', 'Stationary Bike', ['exercise bike', 'spin bike', 'bike'])
+  ]
+}
+
+interface TaxonomyIndex {
+  muscles: Map<string, MuscleTerm>
+  equipment: Map<string, EquipmentTerm>
+  musclesBySlug: Map<string, MuscleTerm>
+}
+
+const indexes = new WeakMap<Taxonomy, TaxonomyIndex>()
+
+// "Pull-ups", "pull up" and "PULL_UP" share a key
+function termKey(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(singular)
+    .join(' ')
+}
+
+function keyTerms<T extends EquipmentTerm>(terms: T[]): Map<string, T> {
+  const byKey = new Map<string, T>()
+  // Names and slugs first so a synonym never shadows another term's name
+  for (const term of terms) {
+    byKey.set(termKey(term.name), term)
+    if (!byKey.has(termKey(term.slug))) byKey.set(termKey(term.slug), term)
+  }
+  for (const term of terms) {
+    for (const synonym of term.synonyms) {
+      if (!byKey.has(termKey(synonym))) byKey.set(termKey(synonym), term)
+    }
+  }
+  return byKey
+}
+
+function indexOf(taxonomy: Taxonomy): TaxonomyIndex {
+  let index = indexes.get(taxonomy)
+  if (!index) {
+    index = {
+      muscles: keyTerms(taxonomy.muscles),
+      equipment: keyTerms(taxonomy.equipment),
+      musclesBySlug: new Map(taxonomy.muscles.map(term => [term.slug, term]))
+    }
+    indexes.set(taxonomy, index)
+  }
+  return index
+}
+
+export function findMuscle(value: string, taxonomy: Taxonomy = DEFAULT_TAXONOMY): MuscleTerm | null {
+  return indexOf(taxonomy).muscles.get(termKey(value)) || null
+}
+
+export function findEquipment(value: string, taxonomy: Taxonomy = DEFAULT_TAXONOMY): EquipmentTerm | null {
+  return indexOf(taxonomy).equipment.get(termKey(value)) || null
+}
+
+// Accepts an array or a comma-separated string, as imports and older rows have both
+export function canonicalizeTerms(
+  kind: TaxonomyKind,
+  values: unknown,
+  taxonomy: Taxonomy = DEFAULT_TAXONOMY
+): CanonicalTerms {
+  const list = Array.isArray(values) ? values : typeof values === 'string' ? values.split(',') : []
+  const find = kind === 'muscle_groups' ? findMuscle : findEquipment
+
+  const canonical: string[] = []
+  const unknown: string[] = []
+  for (const value of list) {
+    const text = typeof value === 'string' ? value.trim() : ''
+    if (!text) continue
+
+    const term = find(text, taxonomy)
+    if (!term) unknown.push(text)
+    const name = term ? term.name : text
+    if (!canonical.includes(name)) canonical.push(name)
+  }
+
+  return { values: canonical, unknown }
+}
+
+// The muscle and the groups above it, nearest first
+function lineage(term: MuscleTerm, taxonomy: Taxonomy): MuscleTerm[] {
+  const bySlug = indexOf(taxonomy).musclesBySlug
+  const chain = [term]
+  let parent = term.parent ? bySlug.get(term.parent) : undefined
+  while (parent && !chain.includes(parent)) {
+    chain.push(parent)
+    parent = parent.parent ? bySlug.get(parent.parent) : undefined
+  }
+  return chain
+}
+
+// Trainerize tag of the first muscle group the taxonomy knows; null when it knows none
+export function trainerizeTagFor(muscleGroups: unknown, taxonomy: Taxonomy = DEFAULT_TAXONOMY): ExerciseTag | null {
+  const list = Array.isArray(muscleGroups) ? muscleGroups : typeof muscleGroups === 'string' ? [muscleGroups] : []
+
+  for (const value of list) {
+    const term = typeof value === 'string' ? findMuscle(value, taxonomy) : null
+    const tagged = term && lineage(term, taxonomy).find(ancestor => ancestor.trainerizeTag)
+    if (tagged) return tagged.trainerizeTag
+  }
+  return null
+}
+
+// Canonical names of the muscle group and every muscle below it, for filtering "Legs"
+// to also match exercises tagged "Quads". Unknown values come back as given.
+export function expandMuscleGroup(value: string, taxonomy: Taxonomy = DEFAULT_TAXONOMY): string[] {
+  const term = findMuscle(value, taxonomy)
+  if (!term) return [value]
+
+  return taxonomy.muscles
+    .filter(candidate => lineage(candidate, taxonomy).includes(term))
+    .map(candidate => candidate.name)
+}
+
+// Canonical muscle_groups and equipment for whichever of the two the exercise has
+export function canonicalizeExercise(
+  exercise: { muscle_groups?: unknown; equipment?: unknown },
+  taxonomy: Taxonomy = DEFAULT_TAXONOMY
+): { values: Partial<Record<TaxonomyKind, string[]>>; unknown: Record<TaxonomyKind, string[]> } {
+  const values: Partial<Record<TaxonomyKind, string[]>> = {}
+  const unknown: Record<TaxonomyKind, string[]> = { muscle_groups: [], equipment: [] }
+
+  for (const kind of ['muscle_groups', 'equipment'] as const) {
+    if (exercise[kind] === undefined || exercise[kind] === null) continue
+    const terms = canonicalizeTerms(kind, exercise[kind], taxonomy)
+    values[kind] = terms.values
+    unknown[kind] = terms.unknown
+  }
+
+  return { values, unknown }
+}
@@ -0,0 +1,235 @@
+import { supabaseAdmin, type DatabaseClient } from './supabase'
+import type { TrainerizeClient, TrainerizeExercise, VideoStatus, VideoType } from './trainerize-client'
+
+// Exercise videos: canonical URLs for the hosts Trainerize plays, metadata and thumbnails
+// through a pluggable provider, and the videoStatus Trainerize reports while it processes
+// an uploaded video.
+//
+//   VIDEO_METADATA_PROVIDER=oembed|stub   (stub resolves locally, for tests and offline runs)
+
+export interface NormalizedVideo {
+  host: VideoType
+  videoId: string
+  canonicalUrl: string
+}
+
+export interface VideoMetadata {
+  title?: string
+  authorName?: string
+  thumbnailUrl?: string
+  durationSeconds?: number
+  width?: number
+  height?: number
+}
+
+export interface ResolvedVideo extends NormalizedVideo {
+  thumbnailUrl: string | null
+  // null when the provider couldn't describe the video
+  metadata: VideoMetadata | null
+}
+
+export interface VideoMetadataProvider {
+  resolve(video: NormalizedVideo): Promise<VideoMetadata | null>
+}
+
+export class VideoValidationError extends Error {
+  constructor(message: string, public readonly url: string) {
+    super(message)
+    this.name = 'VideoValidationError'
+  }
+}
+
+const YOUTUBE_HOSTS = ['youtube.com', 'www.youtube.com', 'm.youtube.com', 'youtube-nocookie.com', 'www.youtube-nocookie.com']
+const YOUTUBE_ID = /^[A-Za-z0-9_-]{11}$/
+const VIMEO_ID = /^\d+$/
+
+// YouTube or Vimeo video behind any of the URL shapes those sites hand out, or null
+export function normalizeVideoUrl(url: string): NormalizedVideo | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url.trim().match(/^[a-z]+:\/\//i) ? url.trim() : `https://${url.trim()}`)
+  } catch {
+    return null
+  }
+
+  const host = parsed.hostname.toLowerCase()
+  const segments = parsed.pathname.split('/').filter(Boolean)
+
+  if (YOUTUBE_HOSTS.includes(host) || host === 'youtu.be') {
+    const videoId = host === 'youtu.be'
+      ? segments[0]
+      : segments[0] === 'watch'
+        ? parsed.searchParams.get('v')
+        : ['embed', 'shorts', 'live', 'v'].includes(segments[0]) ? segments[1] : null
+
+    if (!videoId || !YOUTUBE_ID.test(videoId)) return null
+    return { host: 'youtube', videoId, canonicalUrl: `https://www.youtube.com/watch?v=${videoId}` }
+  }
+
+  if (host === 'vimeo.com' || host === 'www.vimeo.com' || host === 'player.vimeo.com') {
+    // vimeo.com/123, vimeo.com/channels/x/123, player.vimeo.com/video/123
+    const videoId = [...segments].reverse().find(segment => VIMEO_ID.test(segment))
+    if (!videoId) return null
+    return { host: 'vimeo', videoId, canonicalUrl: `https://vimeo.com/${videoId}` }
+  }
+
+  return null
+}
+
+// Accepts only videos Trainerize can play
+export function validateVideoUrl(url: string): NormalizedVideo {
+  const video = normalizeVideoUrl(url)
+  if (!video) {
+    throw new VideoValidationError(`Unsupported video URL (only YouTube and Vimeo are supported): ${url}`, url)
+  }
+  return video
+}
+
+// Thumbnail available without asking the host; Vimeo needs its oEmbed response
+export function deriveThumbnailUrl(video: NormalizedVideo): string | null {
+  return video.host === 'youtube' ? `https://i.ytimg.com/vi/${video.videoId}/hqdefault.jpg` : null
+}
+
+const OEMBED_ENDPOINTS: Record<VideoType, string> = {
+  youtube: 'https://www.youtube.com/oembed',
+  vimeo: 'https://vimeo.com/api/oembed.json'
+}
+
+export class OEmbedVideoMetadataProvider implements VideoMetadataProvider {
+  constructor(private timeoutMs = 5000) {}
+
+  async resolve(video: NormalizedVideo): Promise<VideoMetadata | null> {
+    const url = `${OEMBED_ENDPOINTS[video.host]}?format=json&url=${encodeURIComponent(video.canonicalUrl)}`
+
+    try {
+      const response = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) })
+      // Private, removed or embedding disabled
+      if (!response.ok) return null
+
+      const data = await response.json()
+      return {
+        title: data.title,
+        authorName: data.author_name,
+        thumbnailUrl: data.thumbnail_url,
+        durationSeconds: data.duration,
+        width: data.width,
+        height: data.height
+      }
+    } catch (error) {
+      console.warn(`Could not resolve video metadata for ${video.canonicalUrl}:`, error instanceof Error ? error.message : error)
+      return null
+    }
+  }
+}
+
+// Answers without network access; overrides are keyed by canonical URL
+export class StubVideoMetadataProvider implements VideoMetadataProvider {
+  public requests: string[] = []
+
+  constructor(private overrides: Record<string, VideoMetadata | null> = {}) {}
+
+  async resolve(video: NormalizedVideo): Promise<VideoMetadata | null> {
+    this.requests.push(video.canonicalUrl)
+    if (video.canonicalUrl in this.overrides) return this.overrides[video.canonicalUrl]
+
+    return {
+      title: `${video.host} video ${video.videoId}`,
+      thumbnailUrl: deriveThumbnailUrl(video) || `https://i.vimeocdn.com/video/${video.videoId}_640.jpg`
+    }
+  }
+}
+
+export function getVideoMetadataProviderFromEnv(): VideoMetadataProvider {
+  return process.env.VIDEO_METADATA_PROVIDER === 'stub'
+    ? new StubVideoMetadataProvider()
+    : new OEmbedVideoMetadataProvider()
+}
+
+export class ExerciseVideos {
+  constructor(
+    private db: DatabaseClient = supabaseAdmin,
+    private provider: VideoMetadataProvider = getVideoMetadataProviderFromEnv()
+  ) {}
+
+  // Canonical URL, metadata and thumbnail; throws VideoValidationError for unsupported hosts
+  async resolve(url: string): Promise<ResolvedVideo> {
+    const video = validateVideoUrl(url)
+    const metadata = await this.provider.resolve(video)
+
+    return {
+      ...video,
+      thumbnailUrl: metadata?.thumbnailUrl || deriveThumbnailUrl(video),
+      metadata
+    }
+  }
+
+  // Rewrites the exercise's video to its canonical URL and fills an empty thumbnail_url,
+  // saving both when the exercise is stored. Exercises without a video pass through.
+  async applyToExercise<T extends { id?: string; video_url?: string | null; thumbnail_url?: string | null; metadata?: any }>(
+    exercise: T
+  ): Promise<T> {
+    if (!exercise.video_url) return exercise
+
+    const video = await this.resolve(exercise.video_url)
+    const changes = {
+      video_url: video.canonicalUrl,
+      thumbnail_url: exercise.thumbnail_url || video.thumbnailUrl,
+      metadata: {
+        ...(exercise.metadata && typeof exercise.metadata === 'object' ? exercise.metadata : {}),
+        video: { host: video.host, video_id: video.videoId, ...video.metadata }
+      }
+    }
+
+    if (exercise.id) {
+      const { error } = await this.db
+        .from('exercises')
+        .update(changes)
+        .eq('id', exercise.id)
+
+      if (error) {
+        throw new Error(`Failed to save video details: ${error.message}`)
+      }
+    }
+
+    return { ...exercise, ...changes }
+  }
+
+  // Asks Trainerize how far it got with the exercise's video and records the answer,
+  // in video_status and in the stored payload so a later push doesn't send a stale status.
+  // null while the exercise isn't in Trainerize yet or has no video there.
+  async checkStatus(exerciseId: string, client: TrainerizeClient): Promise<VideoStatus | null> {
+    const { data: exercise, error } = await this.db
+      .from('exercises')
+      .select('id, trainerize_id, video_status, metadata')
+      .eq('id', exerciseId)
+      .single()
+
+    if (error || !exercise) {
+      throw new Error(`Exercise ${exerciseId} not found`)
+    }
+    if (!exercise.trainerize_id) return null
+
+    const record = await client.makeRequest('/exercise/get', { id: parseInt(exercise.trainerize_id) })
+    // Trainerize leaves videoStatus out once there is nothing left to process
+    const status: VideoStatus | null = record.videoStatus || (record.videoUrl ? 'ready' : null)
+
+    if (status !== exercise.video_status) {
+      const metadata = (exercise.metadata || {}) as TrainerizeExercise
+      const { error: updateError } = await this.db
+        .from('exercises')
+        .update({
+          video_status: status,
+          ...(metadata.raw && { metadata: { ...metadata, raw: { ...metadata.raw, videoStatus: status } } })
+        })
+        .eq('id', exerciseId)
+
+      if (updateError) {
+        throw new Error(`Failed to record video status: ${updateError.message}`)
+      }
+    }
+
+    return status
+  }
+}
+
+export const exerciseVideos = new ExerciseVideos()
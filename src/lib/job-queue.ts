@@ -0,0 +1,401 @@
+import { supabaseAdmin, type DatabaseClient } from './supabase'
+import type { SyncJob, SyncJobItem } from '@/types'
+import { isTrainerizeError } from './trainerize-errors'
+
+export type SyncJobType = SyncJob['job_type']
+
+export interface JobItemInput {
+  key: string
+  payload?: any
+}
+
+export interface JobItemOutcome {
+  // 'deferred' leaves the item pending to be looked at again after retryDelayMs
+  status: 'completed' | 'failed' | 'skipped' | 'deferred'
+  result?: any
+  error?: string
+}
+
+export interface JobHandler {
+  // Outcomes other than 'deferred' are final. Throwing a retryable error defers the item like
+  // 'deferred' does, up to MAX_ITEM_ATTEMPTS times; other errors fail it.
+  processItem: (item: SyncJobItem, job: SyncJob) => Promise<JobItemOutcome>
+  // How long a job with deferred items waits before its next pass
+  retryDelayMs?: number
+  // Builds the job result once every item has been processed
+  summarize?: (items: SyncJobItem[], job: SyncJob) => any
+}
+
+export interface JobProgress {
+  job: SyncJob
+  items: {
+    pending: number
+    completed: number
+    failed: number
+    skipped: number
+  }
+}
+
+export interface WorkerRunResult {
+  worker_id: string
+  jobs: Array<{ id: string; job_type: SyncJobType; status: SyncJob['status']; processed_items: number; total_items: number }>
+}
+
+// A running job whose lock is older than this is assumed to belong to a dead worker
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000
+const MAX_ITEM_ATTEMPTS = 3
+const ITEM_INSERT_BATCH = 500
+const DEFAULT_RETRY_DELAY_MS = 30 * 1000
+
+export class JobQueue {
+  private handlers = new Map<SyncJobType, JobHandler>()
+
+  constructor(private db: DatabaseClient = supabaseAdmin) {}
+
+  register(jobType: SyncJobType, handler: JobHandler): void {
+    this.handlers.set(jobType, handler)
+  }
+
+  async enqueue(jobType: SyncJobType, items: JobItemInput[], payload: Record<string, any> = {}): Promise<SyncJob> {
+    const { data: job, error } = await this.db
+      .from('sync_jobs')
+      .insert([{
+        job_type: jobType,
+        status: 'queued',
+        payload,
+        total_items: items.length
+      }])
+      .select()
+      .single()
+
+    if (error || !job) {
+      throw new Error(`Failed to create sync job: ${error?.message}`)
+    }
+
+    for (let start = 0; start < items.length; start += ITEM_INSERT_BATCH) {
+      const batch = items.slice(start, start + ITEM_INSERT_BATCH).map((item, i) => ({
+        job_id: job.id,
+        position: start + i,
+        item_key: item.key,
+        payload: item.payload ?? {}
+      }))
+
+      const { error: itemsError } = await this.db
+        .from('sync_job_items')
+        .insert(batch)
+
+      if (itemsError) {
+        await this.db.from('sync_jobs').delete().eq('id', job.id)
+        throw new Error(`Failed to create sync job items: ${itemsError.message}`)
+      }
+    }
+
+    return job
+  }
+
+  async getProgress(jobId: string): Promise<JobProgress | null> {
+    const { data: job } = await this.db
+      .from('sync_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .single()
+
+    if (!job) return null
+
+    const { data: items } = await this.db
+      .from('sync_job_items')
+      .select('status')
+      .eq('job_id', jobId)
+
+    const counts = { pending: 0, completed: 0, failed: 0, skipped: 0 }
+    for (const item of items || []) {
+      counts[item.status]++
+    }
+
+    return { job, items: counts }
+  }
+
+  async cancel(jobId: string): Promise<void> {
+    const { error } = await this.db
+      .from('sync_jobs')
+      .update({
+        status: 'cancelled',
+        locked_by: null,
+        locked_at: null,
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', jobId)
+      .in('status', ['queued', 'running'])
+
+    if (error) {
+      throw new Error(`Failed to cancel sync job: ${error.message}`)
+    }
+  }
+
+  // Work through queued jobs (or just `jobId`) until the time budget runs out.
+  // Jobs that don't finish keep their cursor and are picked up by the next run.
+  async processJobs(options: { jobId?: string; timeBudgetMs?: number; workerId?: string } = {}): Promise<WorkerRunResult> {
+    const { jobId, timeBudgetMs = 20000 } = options
+    const workerId = options.workerId || `worker_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+    const deadline = Date.now() + timeBudgetMs
+    const run: WorkerRunResult = { worker_id: workerId, jobs: [] }
+
+    while (Date.now() < deadline) {
+      const job = await this.claimNextJob(workerId, jobId)
+      if (!job) break
+
+      const finished = await this.runJob(job, workerId, deadline)
+      run.jobs.push({
+        id: finished.id,
+        job_type: finished.job_type,
+        status: finished.status,
+        processed_items: finished.processed_items,
+        total_items: finished.total_items
+      })
+
+      // A single job that is still going means the budget ran out or it needs a retry later
+      if (jobId || finished.status === 'queued') break
+    }
+
+    return run
+  }
+
+  private async claimNextJob(workerId: string, jobId?: string): Promise<SyncJob | null> {
+    let query = this.db
+      .from('sync_jobs')
+      .select('*')
+      .in('status', ['queued', 'running'])
+      .order('created_at', { ascending: true })
+      .limit(10)
+
+    if (jobId) {
+      query = query.eq('id', jobId)
+    }
+
+    const { data: candidates, error } = await query
+    if (error) {
+      throw new Error(`Failed to fetch sync jobs: ${error.message}`)
+    }
+
+    const staleBefore = Date.now() - LOCK_TIMEOUT_MS
+    for (const candidate of candidates || []) {
+      if (candidate.status === 'running' && candidate.locked_at && new Date(candidate.locked_at).getTime() > staleBefore) {
+        continue
+      }
+      if (candidate.run_after && new Date(candidate.run_after).getTime() > Date.now()) {
+        continue
+      }
+
+      // Guard on updated_at so two workers can't both claim the same job
+      const now = new Date().toISOString()
+      const { data: claimed } = await this.db
+        .from('sync_jobs')
+        .update({
+          status: 'running',
+          locked_by: workerId,
+          locked_at: now,
+          started_at: candidate.started_at || now,
+          updated_at: now
+        })
+        .eq('id', candidate.id)
+        .eq('updated_at', candidate.updated_at)
+        .select()
+
+      if (claimed && claimed.length > 0) {
+        return claimed[0]
+      }
+    }
+
+    return null
+  }
+
+  private async runJob(job: SyncJob, workerId: string, deadline: number): Promise<SyncJob> {
+    const handler = this.handlers.get(job.job_type)
+    if (!handler) {
+      return this.updateJob(job.id, {
+        status: 'failed',
+        last_error: `No handler registered for job type ${job.job_type}`,
+        locked_by: null,
+        locked_at: null,
+        completed_at: new Date().toISOString()
+      })
+    }
+
+    let current = job
+
+    try {
+      while (Date.now() < deadline) {
+        if (current.status === 'cancelled') {
+          return current
+        }
+
+        const { data: item, error } = await this.db
+          .from('sync_job_items')
+          .select('*')
+          .eq('job_id', job.id)
+          .gte('position', current.cursor)
+          .order('position', { ascending: true })
+          .limit(1)
+          .maybeSingle()
+
+        if (error) {
+          throw new Error(`Failed to fetch job items: ${error.message}`)
+        }
+        if (!item) {
+          return await this.finishPass(current, handler)
+        }
+
+        // Already handled before a restart, just move past it
+        if (item.status !== 'pending') {
+          current = await this.updateJob(job.id, { cursor: item.position + 1, locked_at: new Date().toISOString() })
+          continue
+        }
+
+        let outcome: JobItemOutcome
+        try {
+          outcome = await handler.processItem(item, current)
+        } catch (itemError) {
+          const message = itemError instanceof Error ? itemError.message : String(itemError)
+          // Auth failures, rejected payloads etc. fail the item straight away
+          const retryable = !isTrainerizeError(itemError) || itemError.retryable
+          if (retryable && item.attempts + 1 < MAX_ITEM_ATTEMPTS) {
+            // Retried on the next pass; the job's own attempts are for runs that crash
+            await this.updateItem(item.id, { attempts: item.attempts + 1, error: message })
+            current = await this.updateJob(job.id, { cursor: item.position + 1, locked_at: new Date().toISOString() })
+            continue
+          }
+          outcome = { status: 'failed', error: message }
+        }
+
+        // Stays pending for the next pass; only its latest result is kept
+        if (outcome.status === 'deferred') {
+          await this.updateItem(item.id, { result: outcome.result ?? null })
+          current = await this.updateJob(job.id, { cursor: item.position + 1, locked_at: new Date().toISOString() })
+          continue
+        }
+
+        await this.updateItem(item.id, {
+          status: outcome.status,
+          attempts: item.attempts + 1,
+          result: outcome.result ?? null,
+          error: outcome.error ?? null,
+          processed_at: new Date().toISOString()
+        })
+
+        current = await this.updateJob(job.id, {
+          cursor: item.position + 1,
+          processed_items: current.processed_items + 1,
+          failed_items: current.failed_items + (outcome.status === 'failed' ? 1 : 0),
+          // Doubles as a heartbeat so long jobs don't look abandoned
+          locked_at: new Date().toISOString()
+        })
+      }
+
+      // Out of time: release the lock and leave the job for the next worker run
+      return await this.updateJob(job.id, { status: 'queued', locked_by: null, locked_at: null })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.error(`Sync job ${job.id} (${workerId}) stopped:`, error)
+
+      const attempts = current.attempts + 1
+      return this.updateJob(job.id, {
+        status: attempts >= current.max_attempts ? 'failed' : 'queued',
+        attempts,
+        last_error: message,
+        locked_by: null,
+        locked_at: null,
+        ...(attempts >= current.max_attempts && { completed_at: new Date().toISOString() })
+      })
+    }
+  }
+
+  // End of the items: complete the job, or rewind to the first deferred item and wait
+  private async finishPass(job: SyncJob, handler: JobHandler): Promise<SyncJob> {
+    const { data: deferred, error } = await this.db
+      .from('sync_job_items')
+      .select('position')
+      .eq('job_id', job.id)
+      .eq('status', 'pending')
+      .order('position', { ascending: true })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch deferred job items: ${error.message}`)
+    }
+    if (!deferred) {
+      return this.completeJob(job, handler)
+    }
+
+    return this.updateJob(job.id, {
+      status: 'queued',
+      cursor: deferred.position,
+      run_after: new Date(Date.now() + (handler.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS)).toISOString(),
+      locked_by: null,
+      locked_at: null
+    })
+  }
+
+  private async completeJob(job: SyncJob, handler: JobHandler): Promise<SyncJob> {
+    let result: any = null
+    if (handler.summarize) {
+      const { data: items } = await this.db
+        .from('sync_job_items')
+        .select('*')
+        .eq('job_id', job.id)
+        .order('position', { ascending: true })
+
+      result = handler.summarize(items || [], job)
+    }
+
+    return this.updateJob(job.id, {
+      status: 'completed',
+      result,
+      locked_by: null,
+      locked_at: null,
+      completed_at: new Date().toISOString()
+    })
+  }
+
+  // A cancel wins over whatever the worker writes after it; the cancelled job is returned instead
+  private async updateJob(jobId: string, updates: Partial<SyncJob>): Promise<SyncJob> {
+    const { data, error } = await this.db
+      .from('sync_jobs')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', jobId)
+      .neq('status', 'cancelled')
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to update sync job: ${error.message}`)
+    }
+    if (data) return data
+
+    const { data: cancelled, error: readError } = await this.db
+      .from('sync_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .single()
+
+    if (readError || !cancelled) {
+      throw new Error(`Failed to update sync job: ${readError?.message || 'not found'}`)
+    }
+
+    return cancelled
+  }
+
+  private async updateItem(itemId: string, updates: Partial<SyncJobItem>): Promise<void> {
+    const { error } = await this.db
+      .from('sync_job_items')
+      .update(updates)
+      .eq('id', itemId)
+
+    if (error) {
+      throw new Error(`Failed to update sync job item: ${error.message}`)
+    }
+  }
+}
+
+export const jobQueue = new JobQueue()
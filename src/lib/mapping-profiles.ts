@@ -0,0 +1,152 @@
+import { supabaseAdmin, type DatabaseClient } from './supabase'
+import { DEFAULT_MAPPING_PROFILE, validateMappingFields, type MappingField, type MappingProfile } from './exercise-mapping'
+import type { MappingProfileRow } from '@/types'
+import type { Json } from '@/types/database'
+
+// Stored mapping profiles. Saving a profile under an existing name adds a new version;
+// activating a version makes it the mapping every push and pull uses.
+
+// Long enough to spare a query per exercise, short enough for other processes to pick up an activation
+const ACTIVE_PROFILE_TTL_MS = 60 * 1000
+
+export interface MappingProfileInput {
+  name: string
+  description?: string | null
+  fields: MappingField[]
+}
+
+export class MappingProfileValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid mapping profile: ${errors.join('; ')}`)
+    this.name = 'MappingProfileValidationError'
+  }
+}
+
+export function toMappingProfile(row: MappingProfileRow): MappingProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    version: row.version,
+    fields: row.fields as unknown as MappingField[]
+  }
+}
+
+export class MappingProfiles {
+  private active: { profile: MappingProfile; loadedAt: number } | null = null
+
+  constructor(private db: DatabaseClient = supabaseAdmin) {}
+
+  async list(): Promise<MappingProfileRow[]> {
+    const { data, error } = await this.db
+      .from('mapping_profiles')
+      .select('*')
+      .order('name')
+      .order('version', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to list mapping profiles: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  async get(profileId: string): Promise<MappingProfileRow> {
+    const { data, error } = await this.db
+      .from('mapping_profiles')
+      .select('*')
+      .eq('id', profileId)
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Mapping profile ${profileId} not found`)
+    }
+
+    return data
+  }
+
+  // Saves the next version of the named profile; it stays inactive until activated
+  async create(input: MappingProfileInput): Promise<MappingProfileRow> {
+    const errors = validateMappingFields(input.fields)
+    if (errors.length > 0) {
+      throw new MappingProfileValidationError(errors)
+    }
+
+    const { data: latest } = await this.db
+      .from('mapping_profiles')
+      .select('version')
+      .eq('name', input.name)
+      .order('version', { ascending: false })
+      .limit(1)
+
+    const { data, error } = await this.db
+      .from('mapping_profiles')
+      .insert([{
+        name: input.name,
+        version: (latest?.[0]?.version || 0) + 1,
+        description: input.description ?? null,
+        fields: input.fields as unknown as Json,
+        is_active: false
+      }])
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to save mapping profile: ${error.message}`)
+    }
+
+    return data
+  }
+
+  async activate(profileId: string): Promise<MappingProfileRow> {
+    const profile = await this.get(profileId)
+
+    // Deactivate first; the partial unique index allows a single active row
+    const { error: deactivateError } = await this.db
+      .from('mapping_profiles')
+      .update({ is_active: false })
+      .eq('is_active', true)
+
+    if (deactivateError) {
+      throw new Error(`Failed to deactivate the current mapping profile: ${deactivateError.message}`)
+    }
+
+    const { data, error } = await this.db
+      .from('mapping_profiles')
+      .update({ is_active: true, activated_at: new Date().toISOString() })
+      .eq('id', profile.id)
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to activate mapping profile: ${error.message}`)
+    }
+
+    this.active = { profile: toMappingProfile(data), loadedAt: Date.now() }
+    return data
+  }
+
+  // The profile pushes and pulls use; the built-in default when none is active
+  async getActive(): Promise<MappingProfile> {
+    if (this.active && Date.now() - this.active.loadedAt < ACTIVE_PROFILE_TTL_MS) {
+      return this.active.profile
+    }
+
+    const { data, error } = await this.db
+      .from('mapping_profiles')
+      .select('*')
+      .eq('is_active', true)
+      .limit(1)
+
+    if (error) {
+      // A sync shouldn't fail over the mapping table; fall back to what we had
+      console.error('Failed to load the active mapping profile:', error)
+      return this.active?.profile || DEFAULT_MAPPING_PROFILE
+    }
+
+    const profile = data?.[0] ? toMappingProfile(data[0]) : DEFAULT_MAPPING_PROFILE
+    this.active = { profile, loadedAt: Date.now() }
+    return profile
+  }
+}
+
+export const mappingProfiles = new MappingProfiles()
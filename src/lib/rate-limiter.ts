@@ -0,0 +1,135 @@
+// Process-wide token bucket for the Trainerize API. Every TrainerizeClient draws from
+// the same bucket, so the managers, discovery tools and jobs share one request budget.
+
+export interface RateLimiterOptions {
+  // Sustained rate the bucket refills at
+  requestsPerSecond: number
+  // Bucket capacity: how many requests may go out back to back after a quiet period
+  burst: number
+  // Tokens an endpoint costs; anything not listed costs 1
+  endpointWeights: Record<string, number>
+}
+
+export interface RateLimiterMetrics {
+  requests: number
+  // Requests that had to wait for a token or a Retry-After pause
+  delayedRequests: number
+  totalWaitMs: number
+  averageWaitMs: number
+  maxWaitMs: number
+  // 429 responses reported through pauseFor
+  rateLimitedResponses: number
+  waiting: number
+  availableTokens: number
+  pausedUntil: string | null
+}
+
+// List endpoints return large payloads and count heavier against the Trainerize quota
+export const DEFAULT_ENDPOINT_WEIGHTS: Record<string, number> = {
+  '/workoutTemplate/getList': 2,
+  '/trainingPlan/getWorkoutDefList': 2,
+  '/calendar/getList': 2
+}
+
+function getDefaultOptions(): RateLimiterOptions {
+  const requestsPerSecond = parseFloat(process.env.TRAINERIZE_REQUESTS_PER_SECOND || '') || 2
+  return {
+    requestsPerSecond,
+    burst: parseInt(process.env.TRAINERIZE_RATE_LIMIT_BURST || '') || Math.max(1, Math.ceil(requestsPerSecond)),
+    endpointWeights: DEFAULT_ENDPOINT_WEIGHTS
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null
+
+  const seconds = Number(header)
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(header)
+  return isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+export class TokenBucketRateLimiter {
+  private options: RateLimiterOptions
+  private tokens: number
+  private lastRefill = Date.now()
+  private pausedUntil = 0
+  // Waiters are served in arrival order
+  private queue: Promise<void> = Promise.resolve()
+  private waiting = 0
+  private stats = { requests: 0, delayedRequests: 0, totalWaitMs: 0, maxWaitMs: 0, rateLimitedResponses: 0 }
+
+  constructor(options: Partial<RateLimiterOptions> = {}) {
+    this.options = { ...getDefaultOptions(), ...options }
+    this.tokens = this.options.burst
+  }
+
+  // Resolves once the request may be sent, returns how long it waited
+  async acquire(endpoint = ''): Promise<number> {
+    const cost = Math.min(this.options.endpointWeights[endpoint] ?? 1, this.options.burst)
+    const startedAt = Date.now()
+
+    this.waiting++
+    const turn = this.queue.then(() => this.take(cost))
+    this.queue = turn.catch(() => undefined)
+
+    try {
+      await turn
+    } finally {
+      this.waiting--
+    }
+
+    const waitedMs = Date.now() - startedAt
+    this.stats.requests++
+    this.stats.totalWaitMs += waitedMs
+    this.stats.maxWaitMs = Math.max(this.stats.maxWaitMs, waitedMs)
+    if (waitedMs > 0) this.stats.delayedRequests++
+
+    return waitedMs
+  }
+
+  // Stop handing out tokens, e.g. for the Retry-After of a 429
+  pauseFor(ms: number): void {
+    this.stats.rateLimitedResponses++
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms)
+    this.tokens = 0
+  }
+
+  getMetrics(): RateLimiterMetrics {
+    this.refill()
+    return {
+      ...this.stats,
+      averageWaitMs: this.stats.requests ? Math.round(this.stats.totalWaitMs / this.stats.requests) : 0,
+      waiting: this.waiting,
+      availableTokens: Math.floor(this.tokens * 100) / 100,
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null
+    }
+  }
+
+  private async take(cost: number): Promise<void> {
+    for (;;) {
+      this.refill()
+      const pausedFor = this.pausedUntil - Date.now()
+      if (pausedFor <= 0 && this.tokens >= cost) {
+        this.tokens -= cost
+        return
+      }
+
+      const refillMs = ((cost - this.tokens) / this.options.requestsPerSecond) * 1000
+      await sleep(Math.max(pausedFor, refillMs, 1))
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now()
+    const elapsed = Math.max(0, now - Math.max(this.lastRefill, this.pausedUntil))
+    this.tokens = Math.min(this.options.burst, this.tokens + (elapsed / 1000) * this.options.requestsPerSecond)
+    this.lastRefill = now
+  }
+}
+
+export const trainerizeRateLimiter = new TokenBucketRateLimiter()
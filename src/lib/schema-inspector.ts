@@ -1,4 +1,4 @@
-import { supabaseAdmin } from './supabase'
+import { supabaseAdmin, type DatabaseClient } from './supabase'
 
 export interface TableColumn {
   column_name: string
@@ -24,9 +24,11 @@ export interface TableInfo {
 }
 
 export class SchemaInspector {
+  constructor(private db: DatabaseClient = supabaseAdmin) {}
+
   async getTableInfo(tableName: string): Promise<TableInfo> {
     // Get column information - bypass type checking for system tables
-    const { data: columns, error: columnsError } = await (supabaseAdmin as any)
+    const { data: columns, error: columnsError } = await (this.db as any)
       .from('information_schema.columns')
       .select('*')
       .eq('table_name', tableName)
@@ -38,7 +40,7 @@ export class SchemaInspector {
     }
 
     // Get constraint information - bypass type checking for RPC
-    const { data: constraints, error: constraintsError } = await (supabaseAdmin as any).rpc(
+    const { data: constraints, error: constraintsError } = await (this.db as any).rpc(
       'get_table_constraints',
       { table_name_param: tableName }
     )
@@ -68,7 +70,7 @@ export class SchemaInspector {
   }> {
     try {
       // Check if exercises table exists
-      const { data: tables, error } = await (supabaseAdmin as any)
+      const { data: tables, error } = await (this.db as any)
         .from('information_schema.tables')
         .select('table_name')
         .eq('table_schema', 'public')
@@ -110,17 +112,19 @@ export class SchemaInspector {
     }
   }
 
-  private analyzeMappingPatterns(columnNames: string[]): Record<string, string> {
+  // Standard field -> the first column name that matches one of its usual spellings.
+  // Also applied to spreadsheet headers by the exercise import.
+  analyzeMappingPatterns(columnNames: string[]): Record<string, string> {
     const mapping: Record<string, string> = {}
     
     // Common patterns for exercise data mapping
     const patterns = {
       // Trainerize field -> possible database columns
       'id': ['id', 'exercise_id', 'trainerize_id', 'external_id'],
-      'name': ['name', 'title', 'exercise_name', 'display_name'],
+      'name': ['name', 'title', 'exercise_name', 'display_name', 'exercise'],
       'description': ['description', 'desc', 'summary', 'notes'],
       'category': ['category', 'category_id', 'category_name', 'type'],
-      'muscle_groups': ['muscle_groups', 'muscles', 'target_muscles', 'muscle_group_ids'],
+      'muscle_groups': ['muscle_groups', 'muscles', 'target_muscles', 'muscle_group_ids', 'muscle_group'],
       'equipment': ['equipment', 'equipment_needed', 'equipment_ids', 'gear'],
       'instructions': ['instructions', 'how_to', 'steps', 'directions'],
       'video_url': ['video_url', 'video', 'video_link', 'media_url'],
@@ -145,7 +149,7 @@ export class SchemaInspector {
   }
 
   async getSampleData(tableName: 'exercises' | 'sync_logs', limit: number = 5): Promise<any[]> {
-    const { data, error } = await supabaseAdmin
+    const { data, error } = await this.db
       .from(tableName)
       .select('*')
       .limit(limit)
@@ -0,0 +1,269 @@
+import { inflateRawSync } from 'zlib'
+
+// Reads the first sheet of a CSV or XLSX file into a header row and data rows of strings.
+// XLSX is a zip of XML parts; only what a plain exercise list needs is read (shared and
+// inline strings, numbers, booleans), not styles, formulas or dates.
+
+export interface SpreadsheetTable {
+  headers: string[]
+  // Without blank rows; each as long as the header row
+  rows: string[][]
+  // Spreadsheet row number (1 = header) of each entry in rows
+  rowNumbers: number[]
+}
+
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SpreadsheetError'
+  }
+}
+
+export interface SpreadsheetReadOptions {
+  // Rows past this one (the header being row 1) are refused rather than read
+  maxRows?: number
+}
+
+const XLSX_SIGNATURE = 0x04034b50
+// A zip part inflating past this is refused, so a small compressed file can't fill memory
+const MAX_XLSX_PART_SIZE = 50 * 1024 * 1024
+// Excel's own sheet limits
+const MAX_XLSX_ROWS = 1048576
+const MAX_XLSX_COLUMNS = 16384
+
+export function readSpreadsheet(data: Buffer, filename = '', options: SpreadsheetReadOptions = {}): SpreadsheetTable {
+  const isXlsx = /\.xlsx$/i.test(filename) || (data.length >= 4 && data.readUInt32LE(0) === XLSX_SIGNATURE)
+  if (/\.xls$/i.test(filename)) {
+    throw new SpreadsheetError('Legacy .xls files are not supported; save the sheet as .xlsx or .csv')
+  }
+
+  const maxRows = Math.min(options.maxRows ?? MAX_XLSX_ROWS, MAX_XLSX_ROWS)
+  return toTable(isXlsx ? readXlsxRows(data, maxRows) : parseCsv(data.toString('utf8')))
+}
+
+function toTable(grid: string[][]): SpreadsheetTable {
+  const numbered = grid
+    .map((cells, index) => ({ cells: cells.map(cell => cell.trim()), rowNumber: index + 1 }))
+    .filter(row => row.cells.some(Boolean))
+
+  if (numbered.length === 0) {
+    throw new SpreadsheetError('The file has no rows')
+  }
+
+  const [header, ...body] = numbered
+  const width = header.cells.length
+  return {
+    headers: header.cells,
+    rows: body.map(row => Array.from({ length: width }, (_, i) => row.cells[i] ?? '')),
+    rowNumbers: body.map(row => row.rowNumber)
+  }
+}
+
+// RFC 4180 with the delimiter guessed from the first line, since spreadsheets saved in
+// some locales use semicolons
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '')
+  const firstLine = content.slice(0, content.search(/\r?\n|$/))
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  )
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"' && cell === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (quoted) {
+    throw new SpreadsheetError('Unterminated quoted field in CSV')
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+// Zip entries by name, inflated lazily
+function readZip(data: Buffer): Map<string, () => Buffer> {
+  // End of central directory record: at the end, before a comment of up to 64 KB
+  let end = -1
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      end = i
+      break
+    }
+  }
+  if (end === -1) {
+    throw new SpreadsheetError('Not a valid XLSX file')
+  }
+
+  // Offsets come from the file, so each is checked before anything is read at it
+  const fits = (start: number, length: number) => start + length <= data.length
+
+  const entries = new Map<string, () => Buffer>()
+  const count = data.readUInt16LE(end + 10)
+  let offset = data.readUInt32LE(end + 16)
+
+  for (let i = 0; i < count; i++) {
+    if (!fits(offset, 46) || data.readUInt32LE(offset) !== 0x02014b50) {
+      throw new SpreadsheetError('Corrupt XLSX central directory')
+    }
+
+    const method = data.readUInt16LE(offset + 10)
+    const compressedSize = data.readUInt32LE(offset + 20)
+    const nameLength = data.readUInt16LE(offset + 28)
+    const extraLength = data.readUInt16LE(offset + 30)
+    const commentLength = data.readUInt16LE(offset + 32)
+    const localOffset = data.readUInt32LE(offset + 42)
+    if (!fits(offset + 46, nameLength)) {
+      throw new SpreadsheetError('Corrupt XLSX central directory')
+    }
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength)
+
+    entries.set(name, () => {
+      if (!fits(localOffset, 30)) {
+        throw new SpreadsheetError(`Corrupt XLSX entry ${name}`)
+      }
+      const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28)
+      if (!fits(start, compressedSize)) {
+        throw new SpreadsheetError(`Corrupt XLSX entry ${name}`)
+      }
+
+      const raw = data.subarray(start, start + compressedSize)
+      if (method === 0) return raw
+      if (method !== 8) {
+        throw new SpreadsheetError(`Unsupported XLSX compression method ${method}`)
+      }
+
+      try {
+        return inflateRawSync(raw, { maxOutputLength: MAX_XLSX_PART_SIZE })
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+          throw new SpreadsheetError(`XLSX entry ${name} is larger than ${MAX_XLSX_PART_SIZE / 1024 / 1024} MB uncompressed`)
+        }
+        throw new SpreadsheetError(`Corrupt XLSX entry ${name}`)
+      }
+    })
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match
+    }
+    return XML_ENTITIES[entity] ?? match
+  })
+}
+
+// Text of every <t> run inside an element, as rich text splits a string into runs
+const textRuns = (xml: string) =>
+  decodeXml([...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map(match => match[1]).join(''))
+
+const attribute = (attributes: string, name: string) =>
+  attributes.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1]
+
+// "C12" -> 2
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A'
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+function readXlsxRows(data: Buffer, maxRows: number): string[][] {
+  const zip = readZip(data)
+  const read = (name: string) => zip.get(name)?.().toString('utf8')
+
+  // First sheet in workbook order, located through the workbook relationships
+  let sheetPath = 'xl/worksheets/sheet1.xml'
+  const workbook = read('xl/workbook.xml')
+  const relationships = read('xl/_rels/workbook.xml.rels')
+  const firstSheetId = workbook && attribute(workbook.match(/<sheet\s[^>]*>/)?.[0] || '', 'r:id')
+  if (firstSheetId && relationships) {
+    const target = [...relationships.matchAll(/<Relationship\s[^>]*>/g)]
+      .map(match => match[0])
+      .find(tag => attribute(tag, 'Id') === firstSheetId)
+    const path = target && attribute(target, 'Target')
+    if (path) sheetPath = path.startsWith('/') ? path.slice(1) : `xl/${path}`
+  }
+
+  const sheet = read(sheetPath)
+  if (!sheet) {
+    throw new SpreadsheetError('The XLSX file has no worksheet')
+  }
+
+  const sharedStrings = [...(read('xl/sharedStrings.xml') || '').matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map(match => textRuns(match[1]))
+
+  const rows: string[][] = []
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(attribute(rowMatch[1], 'r')) || rows.length + 1
+    // Checked before the padding below allocates up to it
+    if (rowNumber > maxRows) {
+      throw new SpreadsheetError(`The sheet has rows past row ${maxRows}`)
+    }
+    const cells: string[] = []
+
+    for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const [, attributes, content = ''] = cellMatch
+      const type = attribute(attributes, 't')
+      const value = decodeXml(content.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '')
+      // Writers may leave out the reference when cells follow each other
+      const reference = attribute(attributes, 'r')
+      const column = reference ? columnIndex(reference) : cells.length
+      if (column >= MAX_XLSX_COLUMNS) {
+        throw new SpreadsheetError(`Cell ${reference} in row ${rowNumber} is past the last XLSX column`)
+      }
+
+      cells[column] =
+        type === 's' ? sharedStrings[Number(value)] ?? ''
+          : type === 'inlineStr' ? textRuns(content)
+            : type === 'b' ? (value === '1' ? 'TRUE' : 'FALSE')
+              : value
+    }
+
+    // Keep row numbers aligned with the sheet when it skips empty rows
+    while (rows.length < rowNumber - 1) rows.push([])
+    rows.push(Array.from(cells, cell => cell ?? ''))
+  }
+
+  return rows
+}
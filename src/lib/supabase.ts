@@ -1,4 +1,4 @@
-import { createClient } from '@supabase/supabase-js'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
 import type { Database } from '@/types/database'
 
 // Get environment variables with fallbacks
@@ -16,6 +16,16 @@ export const isSupabaseConfigured = () => {
 export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey)
 export const supabaseAdmin = createClient<Database>(supabaseUrl, supabaseServiceRoleKey)
 
+// What the data-access classes accept, so tests can hand them an in-memory stand-in
+export type DatabaseClient = SupabaseClient<Database>
+
+// Limits a query on a connection-scoped table to one Trainerize connection's rows.
+// Rows of the env-configured default connection have a NULL connection_id.
+export function scopeToConnection<Query>(query: Query, connectionId?: string | null): Query {
+  const scoped = query as any
+  return connectionId ? scoped.eq('connection_id', connectionId) : scoped.is('connection_id', null)
+}
+
 // Runtime validation function for actual usage
 export const validateSupabaseConfig = () => {
   if (!isSupabaseConfigured()) {
@@ -0,0 +1,198 @@
+import { supabaseAdmin, scopeToConnection } from './supabase'
+import { jobQueue } from './job-queue'
+import { getSyncService, type SyncOperation } from './sync-service'
+import { trainerizeConnections } from './trainerize-connections'
+import { TrainerizeWorkoutManager } from './trainerize-workout-manager'
+import { exerciseVideos, VideoValidationError } from './exercise-videos'
+import { DUPLICATE_CHECK_COLUMNS, type LinkedExercise } from './trainerize-client'
+
+// Job handlers for the long-running sync operations. Import this module (rather than
+// job-queue directly) anywhere jobs are enqueued or processed so the handlers are registered.
+// Jobs run against the Trainerize connection in payload.connectionId, the default one without it.
+
+// Trainerize usually finishes a video within minutes; give up on one after a couple of hours
+const VIDEO_STATUS_POLL_MS = 60 * 1000
+const VIDEO_STATUS_TIMEOUT_MS = 2 * 60 * 60 * 1000
+
+jobQueue.register('sync_exercises', {
+  async processItem(item, job) {
+    const operation = item.payload as unknown as SyncOperation
+    const syncService = await getSyncService((job.payload as any).connectionId)
+    const outcome = await syncService.applyOperation(operation)
+    return {
+      status: outcome === 'skipped' ? 'skipped' : 'completed',
+      result: { outcome, name: operation.trainerize_data?.name }
+    }
+  },
+  summarize(items) {
+    const summary = { created: 0, updated: 0, linked: 0, deleted: 0, skipped: 0, failed: 0 }
+    for (const item of items) {
+      const outcome = (item.result as any)?.outcome as keyof typeof summary | undefined
+      if (item.status === 'failed') summary.failed++
+      else if (outcome) summary[outcome]++
+    }
+    return {
+      summary,
+      errors: items.filter(i => i.status === 'failed').map(i => ({ operation_id: i.item_key, error: i.error }))
+    }
+  }
+})
+
+jobQueue.register('bulk_add_exercises', {
+  async processItem(item, job) {
+    const { skipExisting = true, checkForDuplicates = true, connectionId = null } = job.payload as any
+    const trainerizeClient = await trainerizeConnections.getClient(connectionId)
+
+    const { data: exercise, error } = await supabaseAdmin
+      .from('exercises')
+      .select('*')
+      .eq('id', item.item_key)
+      .single()
+
+    if (error || !exercise) {
+      return { status: 'failed', error: 'Exercise not found in database' }
+    }
+
+    // Local-only exercises may go to any group, synced ones stay with theirs
+    if (exercise.trainerize_id && (exercise.connection_id || null) !== connectionId) {
+      return { status: 'skipped', result: { status: 'skipped', name: exercise.name, reason: 'Synced with another Trainerize connection' } }
+    }
+
+    // Canonical video URL and thumbnail; Trainerize would reject other hosts anyway
+    let prepared = exercise
+    try {
+      prepared = await exerciseVideos.applyToExercise(exercise)
+    } catch (videoError) {
+      if (!(videoError instanceof VideoValidationError)) throw videoError
+      return { status: 'failed', result: { status: 'failed', name: exercise.name, error: videoError.message }, error: videoError.message }
+    }
+
+    // Read per item so exercises added earlier in the job count too
+    let existingExercises: LinkedExercise[] | undefined
+    if (checkForDuplicates) {
+      const { data: existing } = await scopeToConnection(
+        supabaseAdmin
+          .from('exercises')
+          .select(DUPLICATE_CHECK_COLUMNS)
+          .not('trainerize_id', 'is', null),
+        connectionId
+      )
+
+      existingExercises = existing || []
+    }
+
+    // Retryable Trainerize errors are thrown, so the queue defers the item until the API is back
+    const outcome = await trainerizeClient.addExerciseFromSupabase(prepared, { skipExisting, existingExercises })
+    const result = { ...outcome, name: exercise.name }
+
+    if (outcome.status === 'successful') return { status: 'completed', result }
+    if (outcome.status === 'failed') return { status: 'failed', result, error: outcome.error }
+    return { status: 'skipped', result }
+  },
+  // Same shape the bulk add progress stream used for its completion event
+  summarize(items) {
+    const results = items.map(item => item.result as any).filter(Boolean)
+    const byStatus = (status: string) => results.filter(r => r.status === status)
+
+    return {
+      successful: byStatus('successful').length,
+      failed: byStatus('failed').length,
+      skipped: byStatus('skipped').length,
+      duplicates: byStatus('duplicate').length,
+      details: {
+        successful: byStatus('successful').map(r => ({ name: r.name, trainerize_id: r.trainerize_id })),
+        failed: byStatus('failed').map(r => ({ name: r.name, error: r.error })),
+        skipped: byStatus('skipped').map(r => ({ name: r.name, reason: r.reason })),
+        duplicates: byStatus('duplicate').map(r => ({ name: r.name, existing_name: r.existing_name, score: r.duplicate_score }))
+      }
+    }
+  }
+})
+
+jobQueue.register('bulk_sync_workouts', {
+  async processItem(item, job) {
+    const { skipExisting = false, connectionId = null } = job.payload as any
+
+    const { data: workout, error } = await scopeToConnection(
+      supabaseAdmin
+        .from('workout_templates')
+        .select('*')
+        .eq('id', item.item_key),
+      connectionId
+    ).single()
+
+    if (error || !workout) {
+      return { status: 'failed', error: 'Workout template not found' }
+    }
+
+    const manager = new TrainerizeWorkoutManager({
+      connectionId,
+      client: await trainerizeConnections.getClient(connectionId)
+    })
+    const outcome = await manager.syncWorkoutTemplate(workout, skipExisting)
+    const result = { ...outcome, name: workout.name }
+
+    if (outcome.status === 'successful') return { status: 'completed', result }
+    if (outcome.status === 'failed') return { status: 'failed', result, error: outcome.error }
+    return { status: 'skipped', result }
+  },
+  summarize(items) {
+    return {
+      successful: items.filter(i => i.status === 'completed').length,
+      failed: items.filter(i => i.status === 'failed').length,
+      skipped: items.filter(i => i.status === 'skipped').length,
+      failures: items
+        .filter(i => i.status === 'failed')
+        .map(i => ({ workout_id: i.item_key, error: i.error }))
+    }
+  }
+})
+
+jobQueue.register('track_video_status', {
+  retryDelayMs: VIDEO_STATUS_POLL_MS,
+  async processItem(item, job) {
+    const { connectionId = null, afterJobId } = job.payload as any
+    const client = await trainerizeConnections.getClient(connectionId)
+    const videoStatus = await exerciseVideos.checkStatus(item.item_key, client)
+
+    if (videoStatus === 'ready') return { status: 'completed', result: { videoStatus } }
+    if (videoStatus === 'failing') {
+      return { status: 'failed', result: { videoStatus }, error: 'Trainerize could not process the video' }
+    }
+
+    if (videoStatus === null) {
+      // Still waiting for the job that uploads it?
+      const upload = afterJobId ? await jobQueue.getProgress(afterJobId) : null
+      if (!upload || !['queued', 'running'].includes(upload.job.status)) {
+        return { status: 'skipped', result: { videoStatus }, error: 'No video in Trainerize for this exercise' }
+      }
+    }
+
+    if (Date.now() - new Date(job.created_at).getTime() > VIDEO_STATUS_TIMEOUT_MS) {
+      return { status: 'failed', result: { videoStatus }, error: 'Video was still not ready when tracking timed out' }
+    }
+
+    return { status: 'deferred', result: { videoStatus } }
+  },
+  summarize(items) {
+    const byStatus = (videoStatus: string | null) => items.filter(i => ((i.result as any)?.videoStatus ?? null) === videoStatus)
+    return {
+      ready: byStatus('ready').length,
+      failing: byStatus('failing').length,
+      timed_out: byStatus('processing').length,
+      without_video: byStatus(null).length
+    }
+  }
+})
+
+// Polls Trainerize until the exercises' uploaded videos are ready. With afterJobId the
+// exercises are still being added by that job, and each waits for its upload first.
+export async function trackVideoStatus(
+  exerciseIds: string[],
+  payload: { connectionId?: string | null; afterJobId?: string } = {}
+) {
+  if (exerciseIds.length === 0) return null
+  return jobQueue.enqueue('track_video_status', exerciseIds.map(id => ({ key: id })), payload)
+}
+
+export { jobQueue }
@@ -1,15 +1,51 @@
-import { supabaseAdmin } from './supabase'
-import { schemaInspector } from './schema-inspector'
-// import { trainerizeApi } from './trainerize' // Not used in current implementation
+import { supabaseAdmin, scopeToConnection, type DatabaseClient } from './supabase'
+import { SchemaInspector } from './schema-inspector'
+import { trainerizeClient, type TrainerizeClient } from './trainerize-client'
+import { SyncTombstones, getDefaultDeletePolicy, type DeletePolicy } from './sync-tombstones'
+import { trainerizeConnections } from './trainerize-connections'
+import { ExerciseMerges } from './exercise-merge'
+import { findDuplicateCandidates, type SimilarityInput } from './exercise-similarity'
+import { applyMapping, type MappingProfile } from './exercise-mapping'
+import type { SyncTombstone } from '@/types'
 
 export interface SyncOperation {
   id: string
-  operation: 'create' | 'update' | 'skip' | 'conflict'
+  operation: 'create' | 'update' | 'link' | 'delete' | 'skip' | 'conflict'
+  // Which side a delete is applied to
+  direction?: 'to_supabase' | 'to_trainerize'
+  tombstone_id?: string
   trainerize_data: any
   existing_data?: any
   mapped_data: any
   conflicts?: string[]
+  conflict_type?: 'fields' | 'name_match'
+  field_conflicts?: FieldConflict[]
+  merged_fields?: {
+    from_trainerize: string[]
+    kept_local: string[]
+  }
+  snapshot?: Record<string, any>
   reason?: string
+  // Local exercises a new Trainerize exercise probably duplicates, best match first
+  duplicate_candidates?: Array<{ id: string; name: string; score: number }>
+}
+
+// A field changed on both sides since the last sync, with every value needed to resolve it
+export interface FieldConflict {
+  field: string
+  column: string
+  base: any
+  local: any
+  trainerize: any
+}
+
+export type ResolutionAction = 'keep_local' | 'take_trainerize' | 'merge_as_new' | 'link'
+
+export interface ConflictResolution {
+  operation_id: string
+  action: ResolutionAction
+  // Per-field overrides for field conflicts, keyed by standard field name
+  fields?: Record<string, 'local' | 'trainerize'>
 }
 
 export interface SyncPreview {
@@ -19,9 +55,18 @@ export interface SyncPreview {
   summary: {
     to_create: number
     to_update: number
+    to_delete: number
     to_skip: number
     conflicts: number
+    // Deletions detected but not proposed because the delete policy blocks them
+    deletes_blocked: number
+    // Linked exercises missing from a partial Trainerize listing, which says nothing about
+    // whether they were deleted; never proposed
+    deletes_unverified: number
   }
+  delete_policy: DeletePolicy
+  // Profile that mapped the Trainerize data into columns
+  mapping_profile: { name: string; version: number }
   schema_info: {
     table_exists: boolean
     columns: Record<string, any>
@@ -36,19 +81,48 @@ export interface SyncResult {
   summary: {
     created: number
     updated: number
+    linked: number
+    deleted: number
     skipped: number
     failed: number
   }
   audit_log_id?: string
 }
 
+// Exercises read from Trainerize. Only a complete listing can show that an exercise was
+// deleted there; plan discovery and the placeholder data see part of the library.
+export interface TrainerizeListing {
+  exercises: any[]
+  complete: boolean
+}
+
+export interface SyncServiceOptions {
+  db?: DatabaseClient
+  client?: TrainerizeClient
+  // Trainerize connection whose exercises are synced; the default group when omitted
+  connectionId?: string | null
+}
+
 export class SyncService {
   private columnMapping: Record<string, string> = {}
   private tableSchema: any = null
+  private db: DatabaseClient
+  private client: TrainerizeClient
+  private connectionId: string | null
+  private schemaInspector: SchemaInspector
+  private tombstones: SyncTombstones
+
+  constructor(options: SyncServiceOptions = {}) {
+    this.db = options.db || supabaseAdmin
+    this.client = options.client || trainerizeClient
+    this.connectionId = options.connectionId || null
+    this.schemaInspector = new SchemaInspector(this.db)
+    this.tombstones = new SyncTombstones(this.db, this.connectionId)
+  }
 
   async initialize(): Promise<void> {
     try {
-      const schemaInfo = await schemaInspector.inspectExercisesTable()
+      const schemaInfo = await this.schemaInspector.inspectExercisesTable()
       
       if (!schemaInfo.hasTable) {
         throw new Error('Exercises table not found. Please create the table first.')
@@ -68,21 +142,35 @@ export class SyncService {
     }
   }
 
-  async previewSync(): Promise<SyncPreview> {
+  async previewSync(options: { deletePolicy?: Partial<DeletePolicy>; listing?: TrainerizeListing } = {}): Promise<SyncPreview> {
     await this.ensureInitialized()
+    const deletePolicy = { ...getDefaultDeletePolicy(), ...options.deletePolicy }
 
     try {
       // Get Trainerize data (simulated for now since we don't have exercise endpoints)
-      const trainerizeData = await this.getTrainerizeExercises()
+      const listing = options.listing || await this.getTrainerizeExercises()
+      const trainerizeData = listing.exercises
       
+      const profile = await this.client.getMappingProfile()
+
       // Get existing exercises
       const existingExercises = await this.getExistingExercises()
       const existingByTrainerizeId = new Map()
       const existingByName = new Map()
+      // Not yet linked to Trainerize, so a new Trainerize exercise may be the same one
+      const unlinked: Array<SimilarityInput & { row: any }> = []
 
       existingExercises.forEach(ex => {
         if (ex[this.getColumnName('trainerize_id')]) {
           existingByTrainerizeId.set(ex[this.getColumnName('trainerize_id')], ex)
+        } else if (ex[this.getColumnName('name')]) {
+          unlinked.push({
+            row: ex,
+            name: ex[this.getColumnName('name')],
+            equipment: ex[this.getColumnName('equipment')],
+            muscle_groups: ex[this.getColumnName('muscle_groups')],
+            metadata: ex[this.getColumnName('metadata')]
+          })
         }
         if (ex[this.getColumnName('name')]) {
           existingByName.set(ex[this.getColumnName('name')].toLowerCase(), ex)
@@ -92,11 +180,48 @@ export class SyncService {
       const operations: SyncOperation[] = []
       const conflicts: SyncOperation[] = []
 
+      // Exercises deleted locally stay deleted even though Trainerize still has them
+      const localDeletions = await this.tombstones.getLocalDeletions()
+      const deletedLocally = new Set(localDeletions.map(t => t.trainerize_id).filter(Boolean))
+
+      // Exercises merged into another locally resolve to the survivor
+      const redirects = await new ExerciseMerges(this.db).getRedirects(this.connectionId)
+      const primaryKeyColumn = this.tableSchema?.primaryKey?.[0] || 'id'
+      const existingById = new Map(existingExercises.map(ex => [ex[primaryKeyColumn], ex]))
+
       for (const trainerizeExercise of trainerizeData) {
+        const survivorId = redirects.get(String(trainerizeExercise.id))
+        if (survivorId) {
+          const survivor = existingById.get(survivorId)
+          operations.push({
+            id: trainerizeExercise.id,
+            operation: 'skip',
+            trainerize_data: trainerizeExercise,
+            existing_data: survivor,
+            mapped_data: {},
+            reason: `Merged into "${survivor?.[this.getColumnName('name')] || survivorId}"`
+          })
+          continue
+        }
+
+
+        if (deletedLocally.has(String(trainerizeExercise.id))) {
+          operations.push({
+            id: trainerizeExercise.id,
+            operation: 'skip',
+            trainerize_data: trainerizeExercise,
+            mapped_data: {},
+            reason: 'Deleted in Supabase'
+          })
+          continue
+        }
+
         const operation = await this.analyzeExercise(
           trainerizeExercise,
           existingByTrainerizeId,
-          existingByName
+          existingByName,
+          unlinked,
+          profile
         )
 
         operations.push(operation)
@@ -106,11 +231,17 @@ export class SyncService {
         }
       }
 
+      const deletes = this.detectDeletions(listing, existingExercises, localDeletions, deletePolicy)
+      operations.push(...deletes.operations)
+
       const summary = {
         to_create: operations.filter(op => op.operation === 'create').length,
         to_update: operations.filter(op => op.operation === 'update').length,
+        to_delete: deletes.operations.length,
         to_skip: operations.filter(op => op.operation === 'skip').length,
-        conflicts: conflicts.length
+        conflicts: conflicts.length,
+        deletes_blocked: deletes.blocked,
+        deletes_unverified: deletes.unverified
       }
 
       return {
@@ -118,6 +249,8 @@ export class SyncService {
         operations,
         conflicts,
         summary,
+        delete_policy: deletePolicy,
+        mapping_profile: { name: profile.name, version: profile.version },
         schema_info: {
           table_exists: this.tableSchema.hasTable,
           columns: this.tableSchema.columns,
@@ -146,6 +279,8 @@ export class SyncService {
       summary: {
         created: 0,
         updated: 0,
+        linked: 0,
+        deleted: 0,
         skipped: 0,
         failed: 0
       },
@@ -154,15 +289,8 @@ export class SyncService {
 
     for (const operation of operations) {
       try {
-        if (operation.operation === 'create') {
-          await this.createExercise(operation)
-          result.summary.created++
-        } else if (operation.operation === 'update') {
-          await this.updateExercise(operation)
-          result.summary.updated++
-        } else {
-          result.summary.skipped++
-        }
+        const outcome = await this.applyOperation(operation)
+        result.summary[outcome]++
         
         result.operations_performed.push(operation)
       } catch (error) {
@@ -185,16 +313,123 @@ export class SyncService {
     return result
   }
 
+  // Apply a single previewed operation; performSync and the sync job queue both go through here
+  async applyOperation(operation: SyncOperation): Promise<'created' | 'updated' | 'linked' | 'deleted' | 'skipped'> {
+    await this.ensureInitialized()
+
+    if (operation.operation === 'create') {
+      await this.createExercise(operation)
+      return 'created'
+    } else if (operation.operation === 'update') {
+      await this.updateExercise(operation)
+      return 'updated'
+    } else if (operation.operation === 'link') {
+      await this.updateExercise(operation, 'link')
+      return 'linked'
+    } else if (operation.operation === 'delete') {
+      await this.deleteExercise(operation)
+      return 'deleted'
+    }
+    return 'skipped'
+  }
+
+  // Turns reviewed conflicts from previewSync into concrete operations for performSync
+  resolveConflicts(conflicts: SyncOperation[], resolutions: ConflictResolution[]): SyncOperation[] {
+    const conflictsById = new Map(conflicts.map(op => [String(op.id), op]))
+
+    return resolutions.map(resolution => {
+      const operation = conflictsById.get(String(resolution.operation_id))
+      if (!operation) {
+        throw new Error(`No conflict found for operation ${resolution.operation_id}`)
+      }
+      if (operation.operation !== 'conflict') {
+        throw new Error(`Operation ${resolution.operation_id} is not a conflict`)
+      }
+
+      return operation.conflict_type === 'name_match'
+        ? this.resolveNameMatch(operation, resolution)
+        : this.resolveFieldConflicts(operation, resolution)
+    })
+  }
+
+  private resolveNameMatch(operation: SyncOperation, resolution: ConflictResolution): SyncOperation {
+    const resolved: SyncOperation = {
+      ...operation,
+      conflicts: [],
+      snapshot: this.buildSnapshot(operation.mapped_data)
+    }
+
+    switch (resolution.action) {
+      case 'keep_local':
+        return { ...resolved, operation: 'skip', reason: 'Kept the existing exercise' }
+
+      case 'take_trainerize':
+        // Overwrite the existing row with the Trainerize version, which also links it
+        return { ...resolved, operation: 'update', reason: 'Replaced with the Trainerize exercise' }
+
+      case 'merge_as_new':
+        return { ...resolved, operation: 'create', existing_data: undefined, reason: 'Created as a separate exercise' }
+
+      case 'link': {
+        // Keep the local fields, just point the existing row at the Trainerize exercise
+        const trainerizeIdColumn = this.getColumnName('trainerize_id')
+        const updatedAtColumn = this.getColumnName('updated_at')
+        const mappedData: Record<string, any> = {
+          [trainerizeIdColumn]: operation.mapped_data[trainerizeIdColumn]
+        }
+        if (updatedAtColumn in operation.mapped_data) {
+          mappedData[updatedAtColumn] = operation.mapped_data[updatedAtColumn]
+        }
+        return { ...resolved, operation: 'link', mapped_data: mappedData, reason: 'Linked the existing exercise to Trainerize' }
+      }
+
+      default:
+        throw new Error(`Unknown resolution: ${resolution.action}`)
+    }
+  }
+
+  private resolveFieldConflicts(operation: SyncOperation, resolution: ConflictResolution): SyncOperation {
+    if (resolution.action !== 'keep_local' && resolution.action !== 'take_trainerize') {
+      throw new Error(`Cannot ${resolution.action} an exercise that is already linked to Trainerize`)
+    }
+
+    const mappedData = { ...operation.mapped_data }
+    const chosen: string[] = []
+
+    for (const conflict of operation.field_conflicts || []) {
+      const side = resolution.fields?.[conflict.field]
+        || (resolution.action === 'take_trainerize' ? 'trainerize' : 'local')
+
+      // Local values are already in the row, so only Trainerize picks need writing
+      if (side === 'trainerize') {
+        mappedData[conflict.column] = conflict.trainerize
+      } else {
+        delete mappedData[conflict.column]
+      }
+      chosen.push(`${conflict.field}: ${side}`)
+    }
+
+    return {
+      ...operation,
+      operation: 'update',
+      mapped_data: mappedData,
+      conflicts: [],
+      reason: `Resolved conflicts (${chosen.join(', ')})`
+    }
+  }
+
   private async analyzeExercise(
     trainerizeExercise: any,
     existingByTrainerizeId: Map<string, any>,
-    existingByName: Map<string, any>
+    existingByName: Map<string, any>,
+    unlinked: Array<SimilarityInput & { row: any }>,
+    profile: MappingProfile
   ): Promise<SyncOperation> {
     const operation: SyncOperation = {
       id: trainerizeExercise.id || `temp_${Date.now()}`,
       operation: 'create',
       trainerize_data: trainerizeExercise,
-      mapped_data: this.mapTrainerizeData(trainerizeExercise),
+      mapped_data: this.mapTrainerizeData(trainerizeExercise, profile),
       conflicts: []
     }
 
@@ -203,14 +438,7 @@ export class SyncService {
     if (existingById) {
       operation.operation = 'update'
       operation.existing_data = existingById
-      
-      // Check for conflicts
-      const conflicts = this.detectConflicts(operation.mapped_data, existingById)
-      if (conflicts.length > 0) {
-        operation.operation = 'conflict'
-        operation.conflicts = conflicts
-      }
-      return operation
+      return this.mergeWithExisting(operation, existingById)
     }
 
     // Check if exercise exists by name (potential duplicate)
@@ -218,40 +446,50 @@ export class SyncService {
     if (nameToCheck && existingByName.has(nameToCheck)) {
       const existingByNameMatch = existingByName.get(nameToCheck)
       operation.operation = 'conflict'
+      operation.conflict_type = 'name_match'
       operation.existing_data = existingByNameMatch
       operation.conflicts = ['Name match found - potential duplicate']
       operation.reason = 'Exercise with same name already exists'
       return operation
     }
 
+    // Same exercise under another name ("DB Bench Press" for "Dumbbell Bench Press")
+    const candidates = trainerizeExercise.name ? findDuplicateCandidates(trainerizeExercise, unlinked) : []
+    if (candidates.length > 0) {
+      const [best] = candidates
+      const primaryKeyColumn = this.tableSchema?.primaryKey?.[0] || 'id'
+      operation.operation = 'conflict'
+      operation.conflict_type = 'name_match'
+      operation.existing_data = best.exercise.row
+      operation.duplicate_candidates = candidates.map(candidate => ({
+        id: candidate.exercise.row[primaryKeyColumn],
+        name: candidate.exercise.name,
+        score: candidate.score
+      }))
+      operation.conflicts = [`Probable duplicate of "${best.exercise.name}" (score ${best.score})`]
+      operation.reason = 'Similar exercise already exists'
+    }
+
     return operation
   }
 
-  private mapTrainerizeData(trainerizeData: any): Record<string, any> {
+  private mapTrainerizeData(trainerizeData: any, profile: MappingProfile): Record<string, any> {
     const mapped: Record<string, any> = {}
 
-    // Map each field using our column mapping
-    const mappings = {
-      id: 'trainerize_id',
-      name: 'name',
-      description: 'description',
-      category: 'category',
-      muscle_groups: 'muscle_groups',
-      equipment: 'equipment',
-      instructions: 'instructions',
-      video_url: 'video_url',
-      thumbnail_url: 'thumbnail_url',
-      difficulty_level: 'difficulty_level',
-      is_active: 'is_active'
-    }
-
-    for (const [trainerizeField, dbField] of Object.entries(mappings)) {
-      const dbColumn = this.getColumnName(dbField)
-      if (dbColumn && trainerizeData[trainerizeField] !== undefined) {
-        mapped[dbColumn] = this.transformValue(trainerizeData[trainerizeField], dbColumn)
+    // The profile yields standard field names; the column mapping finds them in this table
+    for (const [field, value] of Object.entries(applyMapping(profile, 'pull', trainerizeData))) {
+      const dbColumn = this.getColumnName(field)
+      if (dbColumn) {
+        mapped[dbColumn] = this.transformValue(value, dbColumn)
       }
     }
 
+    // Keep the whole payload, raw fields included, for pushing back later
+    const metadataColumn = this.getColumnName('metadata')
+    if (this.tableSchema?.columns[metadataColumn]) {
+      mapped[metadataColumn] = { ...trainerizeData, raw: trainerizeData.raw || trainerizeData }
+    }
+
     // Add timestamps
     const now = new Date().toISOString()
     const createdAtColumn = this.getColumnName('created_at')
@@ -287,26 +525,176 @@ export class SyncService {
     return value
   }
 
-  private detectConflicts(newData: any, existingData: any): string[] {
-    const conflicts: string[] = []
+  // Fields that take part in the three-way merge, as standard field names
+  private static readonly MERGE_FIELDS = [
+    'name',
+    'description',
+    'category',
+    'muscle_groups',
+    'equipment',
+    'instructions',
+    'video_url',
+    'thumbnail_url',
+    'difficulty_level',
+    'is_active'
+  ]
+
+  // Three-way merge against the snapshot taken at the last sync: a field changed only in
+  // Trainerize is taken, a field changed only locally is kept, and only fields changed
+  // on both sides to different values become conflicts
+  private mergeWithExisting(operation: SyncOperation, existingData: any): SyncOperation {
+    const base = existingData[this.getColumnName('last_synced_snapshot')]
+    if (!base || typeof base !== 'object') {
+      return this.mergeWithoutSnapshot(operation, existingData)
+    }
+
+    const update: Record<string, any> = {}
+    const fieldConflicts: FieldConflict[] = []
+    const fromTrainerize: string[] = []
+    const keptLocal: string[] = []
+
+    for (const field of SyncService.MERGE_FIELDS) {
+      const column = this.getColumnName(field)
+      if (!(column in operation.mapped_data)) continue
+
+      const trainerizeValue = operation.mapped_data[column]
+      const localValue = existingData[column]
+      const trainerizeChanged = !this.valuesEqual(trainerizeValue, base[column])
+      const localChanged = !this.valuesEqual(localValue, base[column])
+
+      if (this.valuesEqual(trainerizeValue, localValue)) continue
+
+      if (trainerizeChanged && localChanged) {
+        fieldConflicts.push({
+          field,
+          column,
+          base: base[column],
+          local: localValue,
+          trainerize: trainerizeValue
+        })
+      } else if (trainerizeChanged) {
+        update[column] = trainerizeValue
+        fromTrainerize.push(field)
+      } else {
+        keptLocal.push(field)
+      }
+    }
+
+    // Trainerize owns its payload; refresh it when anything in it changed, modelled or not
+    const metadataColumn = this.getColumnName('metadata')
+    const payloadChanged = metadataColumn in operation.mapped_data &&
+      !this.valuesEqual(operation.mapped_data[metadataColumn]?.raw, existingData[metadataColumn]?.raw)
+    if (payloadChanged) {
+      update[metadataColumn] = { ...existingData[metadataColumn], ...operation.mapped_data[metadataColumn] }
+    }
+
+    operation.snapshot = this.buildSnapshot(operation.mapped_data, base)
+    operation.merged_fields = { from_trainerize: fromTrainerize, kept_local: keptLocal }
+
+    if (fieldConflicts.length === 0 && fromTrainerize.length === 0 && !payloadChanged) {
+      operation.operation = 'skip'
+      operation.reason = keptLocal.length > 0
+        ? 'Only local changes since the last sync'
+        : 'No changes since the last sync'
+      operation.mapped_data = {}
+      return operation
+    }
+
+    // Only write the fields Trainerize changed so local edits survive the update;
+    // conflicting fields are added back once they have been resolved
+    const updatedAtColumn = this.getColumnName('updated_at')
+    if (updatedAtColumn in operation.mapped_data) {
+      update[updatedAtColumn] = operation.mapped_data[updatedAtColumn]
+    }
+    operation.mapped_data = update
+
+    if (fieldConflicts.length > 0) {
+      operation.operation = 'conflict'
+      operation.conflict_type = 'fields'
+      operation.field_conflicts = fieldConflicts
+      operation.conflicts = fieldConflicts.map(c => this.describeConflict(c))
+      operation.reason = 'Changed in both Trainerize and Supabase since the last sync'
+    }
+
+    return operation
+  }
+
+  // Exercises synced before snapshots existed have no base to merge against, so fall back
+  // to flagging differences in the significant fields and taking Trainerize for the rest
+  private mergeWithoutSnapshot(operation: SyncOperation, existingData: any): SyncOperation {
     const significantFields = ['name', 'description', 'category']
+    const fieldConflicts: FieldConflict[] = []
 
     for (const field of significantFields) {
-      const dbColumn = this.getColumnName(field)
-      if (dbColumn && newData[dbColumn] && existingData[dbColumn]) {
-        if (newData[dbColumn] !== existingData[dbColumn]) {
-          conflicts.push(`${field}: "${existingData[dbColumn]}" → "${newData[dbColumn]}"`)
-        }
+      const column = this.getColumnName(field)
+      const trainerizeValue = operation.mapped_data[column]
+      const localValue = existingData[column]
+      if (trainerizeValue && localValue && !this.valuesEqual(trainerizeValue, localValue)) {
+        fieldConflicts.push({
+          field,
+          column,
+          base: undefined,
+          local: localValue,
+          trainerize: trainerizeValue
+        })
       }
     }
 
-    return conflicts
+    // Local metadata keys survive next to the refreshed Trainerize payload
+    const metadataColumn = this.getColumnName('metadata')
+    if (metadataColumn in operation.mapped_data) {
+      operation.mapped_data[metadataColumn] = { ...existingData[metadataColumn], ...operation.mapped_data[metadataColumn] }
+    }
+
+    operation.snapshot = this.buildSnapshot(operation.mapped_data)
+
+    if (fieldConflicts.length > 0) {
+      operation.operation = 'conflict'
+      operation.conflict_type = 'fields'
+      operation.field_conflicts = fieldConflicts
+      operation.conflicts = fieldConflicts.map(c => this.describeConflict(c))
+      operation.reason = 'No sync snapshot to merge against'
+    }
+
+    return operation
+  }
+
+  private buildSnapshot(mappedData: Record<string, any>, previous: Record<string, any> = {}): Record<string, any> {
+    const snapshot: Record<string, any> = { ...previous }
+    for (const field of SyncService.MERGE_FIELDS) {
+      const column = this.getColumnName(field)
+      if (column in mappedData) {
+        snapshot[column] = mappedData[column]
+      }
+    }
+    return snapshot
+  }
+
+  private describeConflict(conflict: FieldConflict): string {
+    return `${conflict.field}: "${this.formatValue(conflict.local)}" → "${this.formatValue(conflict.trainerize)}"`
+  }
+
+  private formatValue(value: any): string {
+    return Array.isArray(value) ? value.join(', ') : String(value ?? '')
+  }
+
+  // Treats null, undefined and empty strings/arrays as the same "no value"
+  private valuesEqual(a: any, b: any): boolean {
+    const normalize = (value: any) => {
+      if (value === undefined || value === null || value === '') return null
+      if (Array.isArray(value) && value.length === 0) return null
+      return value
+    }
+    return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b))
   }
 
   private async createExercise(operation: SyncOperation): Promise<void> {
-    const { error } = await supabaseAdmin
+    const { error } = await this.db
       .from('exercises')
-      .insert([operation.mapped_data])
+      .insert([{
+        ...this.withSnapshot(operation.mapped_data, operation.snapshot || this.buildSnapshot(operation.mapped_data)),
+        connection_id: this.connectionId
+      }])
 
     if (error) {
       throw new Error(`Failed to create exercise: ${error.message}`)
@@ -315,30 +703,147 @@ export class SyncService {
     await this.logOperation('create', operation)
   }
 
-  private async updateExercise(operation: SyncOperation): Promise<void> {
-    const primaryKeyColumn = this.tableSchema?.primaryKey[0] || 'id'
+  private async updateExercise(operation: SyncOperation, logAs: 'update' | 'link' = 'update'): Promise<void> {
+    const primaryKeyColumn = this.tableSchema?.primaryKey?.[0] || 'id'
     const primaryKeyValue = operation.existing_data[primaryKeyColumn]
 
     if (!primaryKeyValue) {
       throw new Error('Cannot update exercise: no primary key found')
     }
 
-    const { error } = await supabaseAdmin
+    const { error } = await this.db
       .from('exercises')
-      .update(operation.mapped_data)
+      .update(this.withSnapshot(operation.mapped_data, operation.snapshot || this.buildSnapshot(operation.mapped_data)))
       .eq(primaryKeyColumn, primaryKeyValue)
 
     if (error) {
       throw new Error(`Failed to update exercise: ${error.message}`)
     }
 
-    await this.logOperation('update', operation)
+    await this.logOperation(logAs, operation)
+  }
+
+  // Only written when the column exists, so older schemas keep syncing without merges
+  private withSnapshot(data: Record<string, any>, snapshot: Record<string, any>): any {
+    const snapshotColumn = this.getColumnName('last_synced_snapshot')
+    if (!this.tableSchema?.columns[snapshotColumn]) return data
+    return { ...data, [snapshotColumn]: snapshot }
+  }
+
+  // Exercises linked to Trainerize that a complete listing no longer returns, plus local
+  // deletions that haven't reached Trainerize yet
+  private detectDeletions(
+    listing: TrainerizeListing,
+    existingExercises: any[],
+    localDeletions: SyncTombstone[],
+    policy: DeletePolicy
+  ): { operations: SyncOperation[]; blocked: number; unverified: number } {
+    const operations: SyncOperation[] = []
+    let blocked = 0
+    let unverified = 0
+
+    const trainerizeIdColumn = this.getColumnName('trainerize_id')
+    const isActiveColumn = this.getColumnName('is_active')
+    const primaryKeyColumn = this.tableSchema?.primaryKey?.[0] || 'id'
+    const trainerizeIds = new Set(listing.exercises.map(ex => String(ex.id)))
+
+    for (const existing of existingExercises) {
+      const trainerizeId = existing[trainerizeIdColumn]
+      if (!trainerizeId || existing[isActiveColumn] === false || trainerizeIds.has(String(trainerizeId))) continue
+
+      if (!listing.complete) {
+        unverified++
+        continue
+      }
+
+      if (!policy.trainerize_to_supabase) {
+        blocked++
+        continue
+      }
+
+      operations.push({
+        id: `delete_${existing[primaryKeyColumn]}`,
+        operation: 'delete',
+        direction: 'to_supabase',
+        trainerize_data: { id: trainerizeId, name: existing[this.getColumnName('name')] },
+        existing_data: existing,
+        mapped_data: {},
+        reason: 'No longer in Trainerize'
+      })
+    }
+
+    for (const tombstone of localDeletions) {
+      if (tombstone.propagation_status === 'propagated' || tombstone.propagation_status === 'skipped' || !tombstone.trainerize_id) continue
+
+      if (!policy.supabase_to_trainerize) {
+        blocked++
+        continue
+      }
+
+      operations.push({
+        id: `delete_tz_${tombstone.trainerize_id}`,
+        operation: 'delete',
+        direction: 'to_trainerize',
+        tombstone_id: tombstone.id,
+        trainerize_data: { id: tombstone.trainerize_id, name: tombstone.name },
+        mapped_data: {},
+        reason: 'Deleted in Supabase'
+      })
+    }
+
+    return { operations, blocked, unverified }
+  }
+
+  private async deleteExercise(operation: SyncOperation): Promise<void> {
+    if (operation.direction === 'to_trainerize') {
+      try {
+        await this.client.deleteExercise(parseInt(operation.trainerize_data.id))
+      } catch (error) {
+        await this.tombstones.markPropagated(operation.tombstone_id!, error instanceof Error ? error.message : String(error))
+        throw error
+      }
+      await this.tombstones.markPropagated(operation.tombstone_id!)
+    } else {
+      // Soft delete so the exercise can be restored if Trainerize removed it by mistake
+      const primaryKeyColumn = this.tableSchema?.primaryKey?.[0] || 'id'
+      const primaryKeyValue = operation.existing_data?.[primaryKeyColumn]
+      if (!primaryKeyValue) {
+        throw new Error('Cannot delete exercise: no primary key found')
+      }
+
+      const update: Record<string, any> = { [this.getColumnName('is_active')]: false }
+      if (this.tableSchema?.columns['sync_status']) update.sync_status = 'deleted'
+      const updatedAtColumn = this.getColumnName('updated_at')
+      if (this.tableSchema?.columns[updatedAtColumn]) update[updatedAtColumn] = new Date().toISOString()
+
+      const { error } = await this.db
+        .from('exercises')
+        .update(update as any)
+        .eq(primaryKeyColumn, primaryKeyValue)
+
+      if (error) {
+        throw new Error(`Failed to delete exercise: ${error.message}`)
+      }
+
+      await this.tombstones.record({
+        local_id: primaryKeyValue,
+        trainerize_id: String(operation.trainerize_data.id),
+        name: operation.trainerize_data.name || null,
+        deleted_from: 'trainerize',
+        propagation_status: 'propagated'
+      })
+    }
+
+    await this.logOperation('delete', operation)
   }
 
   private async getExistingExercises(): Promise<any[]> {
-    const { data, error } = await supabaseAdmin
-      .from('exercises')
-      .select('*')
+    const { data, error } = await scopeToConnection(
+      this.db
+        .from('exercises')
+        .select('*'),
+      this.connectionId
+    )
 
     if (error) {
       throw new Error(`Failed to fetch existing exercises: ${error.message}`)
@@ -347,31 +852,35 @@ export class SyncService {
     return data || []
   }
 
-  private async getTrainerizeExercises(): Promise<any[]> {
+  private async getTrainerizeExercises(): Promise<TrainerizeListing> {
     // For now, return mock data since Trainerize API doesn't have exercise endpoints
-    // This will be replaced with actual Trainerize API calls when available
-    return [
-      {
-        id: 'tr_1',
-        name: 'Push-ups',
-        description: 'Basic bodyweight exercise',
-        category: 'Strength',
-        muscle_groups: ['Chest', 'Triceps'],
-        equipment: ['Bodyweight'],
-        difficulty_level: 'beginner',
-        is_active: true
-      },
-      {
-        id: 'tr_2',
-        name: 'Squats',
-        description: 'Lower body compound exercise',
-        category: 'Strength',
-        muscle_groups: ['Legs', 'Glutes'],
-        equipment: ['Bodyweight'],
-        difficulty_level: 'beginner',
-        is_active: true
-      }
-    ]
+    // This will be replaced with actual Trainerize API calls when available. It is not
+    // the whole library, so nothing is deleted for being absent from it.
+    return {
+      complete: false,
+      exercises: [
+        {
+          id: 'tr_1',
+          name: 'Push-ups',
+          description: 'Basic bodyweight exercise',
+          category: 'Strength',
+          muscle_groups: ['Chest', 'Triceps'],
+          equipment: ['Bodyweight'],
+          difficulty_level: 'beginner',
+          is_active: true
+        },
+        {
+          id: 'tr_2',
+          name: 'Squats',
+          description: 'Lower body compound exercise',
+          category: 'Strength',
+          muscle_groups: ['Legs', 'Glutes'],
+          equipment: ['Bodyweight'],
+          difficulty_level: 'beginner',
+          is_active: true
+        }
+      ]
+    }
   }
 
   private getColumnName(standardField: string): string {
@@ -385,12 +894,13 @@ export class SyncService {
   }
 
   private async createAuditLog(operation: string, details: any): Promise<string> {
-    const { data, error } = await supabaseAdmin
+    const { data, error } = await this.db
       .from('sync_logs')
       .insert([{
         sync_type: 'manual',
         status: 'started',
         started_at: new Date().toISOString(),
+        connection_id: this.connectionId,
         metadata: {
           operation,
           ...details
@@ -408,7 +918,7 @@ export class SyncService {
   }
 
   private async updateAuditLog(logId: string, operation: string, details: any): Promise<void> {
-    const { error } = await supabaseAdmin
+    const { error } = await this.db
       .from('sync_logs')
       .update({
         status: operation === 'sync_complete' ? 'completed' : 'failed',
@@ -424,16 +934,18 @@ export class SyncService {
 
   private async logOperation(operation: string, details: SyncOperation): Promise<void> {
     // Log individual operations for detailed tracking
-    const { error } = await supabaseAdmin
+    const { error } = await this.db
       .from('sync_logs')
       .insert([{
         sync_type: 'manual',
         status: 'completed',
         started_at: new Date().toISOString(),
         completed_at: new Date().toISOString(),
+        connection_id: this.connectionId,
         records_processed: 1,
         records_created: operation === 'create' ? 1 : 0,
         records_updated: operation === 'update' ? 1 : 0,
+        records_deleted: operation === 'delete' ? 1 : 0,
         metadata: {
           operation,
           trainerize_id: details.trainerize_data.id,
@@ -447,4 +959,21 @@ export class SyncService {
   }
 }
 
-export const syncService = new SyncService()
\ No newline at end of file
+export const syncService = new SyncService()
+
+const connectionServices = new Map<string, { client: TrainerizeClient, service: SyncService }>()
+
+// Sync service for a Trainerize connection, reused so the schema is only inspected once.
+// The client is resolved on every call: updating or deactivating the connection drops
+// it, and the service built around the old credentials goes with it
+export async function getSyncService(connectionId?: string | null): Promise<SyncService> {
+  if (!connectionId) return syncService
+
+  const client = await trainerizeConnections.getClient(connectionId)
+  const cached = connectionServices.get(connectionId)
+  if (cached?.client === client) return cached.service
+
+  const service = new SyncService({ connectionId, client })
+  connectionServices.set(connectionId, { client, service })
+  return service
+}
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { supabaseAdmin, scopeToConnection, type DatabaseClient } from './supabase'
+import type { SyncTombstone } from '@/types'
+
+export interface DeletePolicy {
+  // Soft-delete local exercises that disappeared from Trainerize
+  trainerize_to_supabase: boolean
+  // Delete exercises from Trainerize after they were deleted locally
+  supabase_to_trainerize: boolean
+}
+
+// Local deletes are soft and easy to undo, Trainerize deletes are not, so only
+// the first propagates unless configured otherwise
+export function getDefaultDeletePolicy(): DeletePolicy {
+  return {
+    trainerize_to_supabase: process.env.SYNC_PROPAGATE_TRAINERIZE_DELETES !== 'false',
+    supabase_to_trainerize: process.env.SYNC_PROPAGATE_SUPABASE_DELETES === 'true'
+  }
+}
+
+export class SyncTombstones {
+  // Tombstones belong to the Trainerize connection of the deleted exercise
+  constructor(private db: DatabaseClient = supabaseAdmin, private connectionId: string | null = null) {}
+
+  // Soft-delete an exercise and record a tombstone so the deletion can reach Trainerize
+  async softDeleteExercise(exerciseId: string): Promise<void> {
+    const { data: exercise, error } = await this.db
+      .from('exercises')
+      .update({
+        is_active: false,
+        sync_status: 'deleted',
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', exerciseId)
+      .select('id, name, trainerize_id, connection_id')
+      .single()
+
+    if (error || !exercise) {
+      throw new Error(`Failed to delete exercise: ${error?.message || 'not found'}`)
+    }
+
+    // Deleting it again leaves the open tombstone as the one deletion to propagate
+    const { data: open, error: lookupError } = await this.db
+      .from('sync_tombstones')
+      .select('id')
+      .eq('local_id', exercise.id)
+      .eq('deleted_from', 'supabase')
+      .neq('propagation_status', 'propagated')
+      .limit(1)
+
+    if (lookupError) {
+      throw new Error(`Failed to look up tombstone: ${lookupError.message}`)
+    }
+    if (open && open.length > 0) return
+
+    await this.record({
+      local_id: exercise.id,
+      trainerize_id: exercise.trainerize_id || null,
+      name: exercise.name,
+      deleted_from: 'supabase',
+      // Nothing to propagate for exercises that never reached Trainerize
+      propagation_status: exercise.trainerize_id ? 'pending' : 'skipped'
+    }, exercise.connection_id)
+  }
+
+  // A reactivated exercise is no longer deleted: drop the tombstones that haven't reached
+  // Trainerize, so the deletion isn't pushed and the exercise syncs again
+  async clearLocalDeletion(exerciseId: string): Promise<void> {
+    const { error } = await this.db
+      .from('sync_tombstones')
+      .delete()
+      .eq('local_id', exerciseId)
+      .eq('deleted_from', 'supabase')
+      .neq('propagation_status', 'propagated')
+
+    if (error) {
+      throw new Error(`Failed to clear tombstone: ${error.message}`)
+    }
+  }
+
+  async record(
+    tombstone: Omit<SyncTombstone, 'id' | 'entity_type' | 'deleted_at' | 'propagated_at' | 'error' | 'created_at' | 'connection_id'>,
+    connectionId = this.connectionId
+  ): Promise<void> {
+    const { error } = await this.db
+      .from('sync_tombstones')
+      .insert([{
+        ...tombstone,
+        connection_id: connectionId,
+        entity_type: 'exercise',
+        deleted_at: new Date().toISOString(),
+        propagated_at: tombstone.propagation_status === 'propagated' ? new Date().toISOString() : null
+      }])
+
+    if (error) {
+      throw new Error(`Failed to record tombstone: ${error.message}`)
+    }
+  }
+
+  async getLocalDeletions(): Promise<SyncTombstone[]> {
+    const { data, error } = await scopeToConnection(
+      this.db
+        .from('sync_tombstones')
+        .select('*')
+        .eq('entity_type', 'exercise')
+        .eq('deleted_from', 'supabase'),
+      this.connectionId
+    ).order('deleted_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch tombstones: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  async markPropagated(tombstoneId: string, error?: string): Promise<void> {
+    await this.db
+      .from('sync_tombstones')
+      .update({
+        propagation_status: error ? 'error' : 'propagated',
+        propagated_at: error ? null : new Date().toISOString(),
+        error: error || null
+      })
+      .eq('id', tombstoneId)
+  }
+}
+
+export const syncTombstones = new SyncTombstones()
@@ -0,0 +1,76 @@
+import { supabaseAdmin, scopeToConnection, type DatabaseClient } from './supabase'
+
+export type SyncEntity = 'exercises'
+
+export type SyncType = 'full' | 'incremental' | 'manual'
+
+export interface SyncPlan {
+  // What will actually run; incremental falls back to full without a usable watermark
+  sync_type: SyncType
+  requested_type: SyncType
+  since?: string
+  fallback_reason?: string
+}
+
+// Watermarks older than this are not trusted; Trainerize history may have gaps by then
+const DEFAULT_MAX_WATERMARK_AGE_HOURS = 7 * 24
+const RECENT_LOGS_TO_SCAN = 50
+
+export class SyncWatermarks {
+  // Each Trainerize connection syncs on its own schedule, so watermarks are per connection
+  constructor(private db: DatabaseClient = supabaseAdmin, private connectionId: string | null = null) {}
+
+  // Watermarks live in sync_logs.metadata.watermarks of completed syncs, keyed by entity
+  async get(entity: SyncEntity): Promise<string | null> {
+    const { data: logs, error } = await scopeToConnection(
+      this.db
+        .from('sync_logs')
+        .select('metadata, completed_at')
+        .eq('status', 'completed'),
+      this.connectionId
+    )
+      .order('completed_at', { ascending: false })
+      .limit(RECENT_LOGS_TO_SCAN)
+
+    if (error) {
+      console.error('Failed to load sync watermarks:', error)
+      return null
+    }
+
+    for (const log of logs || []) {
+      const watermark = (log.metadata as any)?.watermarks?.[entity]
+      if (watermark) return watermark
+    }
+
+    return null
+  }
+
+  async plan(entity: SyncEntity, requestedType: SyncType): Promise<SyncPlan> {
+    if (requestedType !== 'incremental') {
+      return { sync_type: requestedType, requested_type: requestedType }
+    }
+
+    const watermark = await this.get(entity)
+    if (!watermark) {
+      return {
+        sync_type: 'full',
+        requested_type: requestedType,
+        fallback_reason: `No ${entity} watermark from a previous sync`
+      }
+    }
+
+    const maxAgeHours = parseInt(process.env.SYNC_WATERMARK_MAX_AGE_HOURS || '') || DEFAULT_MAX_WATERMARK_AGE_HOURS
+    const ageHours = (Date.now() - Date.parse(watermark)) / (60 * 60 * 1000)
+    if (isNaN(ageHours) || ageHours > maxAgeHours) {
+      return {
+        sync_type: 'full',
+        requested_type: requestedType,
+        fallback_reason: `${entity} watermark ${watermark} is older than ${maxAgeHours} hours`
+      }
+    }
+
+    return { sync_type: 'incremental', requested_type: requestedType, since: watermark }
+  }
+}
+
+export const syncWatermarks = new SyncWatermarks()
@@ -0,0 +1,157 @@
+import { supabaseAdmin, type DatabaseClient } from './supabase'
+import { DEFAULT_TAXONOMY, canonicalizeExercise, type Taxonomy, type TaxonomyKind } from './exercise-taxonomy'
+import type { ExerciseTag } from './trainerize-client'
+import type { EquipmentTaxonomyRow, MuscleTaxonomyRow } from '@/types'
+
+// Stored muscle and equipment taxonomy: loading it, validating exercises against it and
+// rewriting existing rows to its canonical names.
+
+// Same reasoning as the active mapping profile: edits show up within a minute
+const TAXONOMY_TTL_MS = 60 * 1000
+
+const LABELS: Record<TaxonomyKind, string> = {
+  muscle_groups: 'muscle group',
+  equipment: 'equipment'
+}
+
+export interface TaxonomyNormalizeResult {
+  scanned: number
+  // Rows whose values changed, updated unless this was a dry run
+  changed: Array<{ id: string; name: string; muscle_groups?: string[]; equipment?: string[] }>
+  // Values the taxonomy doesn't know, with how many rows use them; these are left as they are
+  unknown: Record<TaxonomyKind, Record<string, number>>
+  dryRun: boolean
+}
+
+export class TaxonomyValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid exercise taxonomy: ${errors.join('; ')}`)
+    this.name = 'TaxonomyValidationError'
+  }
+}
+
+// One message per value the taxonomy doesn't know
+export function describeUnknownTerms(unknown: Record<TaxonomyKind, string[]>): string[] {
+  return (Object.keys(unknown) as TaxonomyKind[]).flatMap(kind =>
+    unknown[kind].map(value => `Unknown ${LABELS[kind]} "${value}"`)
+  )
+}
+
+export function toTaxonomy(muscles: MuscleTaxonomyRow[], equipment: EquipmentTaxonomyRow[]): Taxonomy {
+  return {
+    muscles: muscles.map(row => ({
+      slug: row.slug,
+      name: row.name,
+      parent: row.parent_slug,
+      trainerizeTag: row.trainerize_tag as ExerciseTag | null,
+      synonyms: row.synonyms || []
+    })),
+    equipment: equipment.map(row => ({ slug: row.slug, name: row.name, synonyms: row.synonyms || [] }))
+  }
+}
+
+const sameValues = (a: unknown, b: string[]) => JSON.stringify(a) === JSON.stringify(b)
+
+export class TaxonomyTerms {
+  private cached: { taxonomy: Taxonomy; loadedAt: number } | null = null
+
+  constructor(private db: DatabaseClient = supabaseAdmin) {}
+
+  async get(): Promise<Taxonomy> {
+    if (this.cached && Date.now() - this.cached.loadedAt < TAXONOMY_TTL_MS) {
+      return this.cached.taxonomy
+    }
+
+    const [muscles, equipment] = await Promise.all([
+      this.db.from('muscle_taxonomy').select('*').order('sort_order'),
+      this.db.from('equipment_taxonomy').select('*').order('sort_order')
+    ])
+
+    if (muscles.error || equipment.error) {
+      // Validation and pushes shouldn't fail over the taxonomy tables; fall back to what we had
+      console.error('Failed to load the exercise taxonomy:', muscles.error || equipment.error)
+      return this.cached?.taxonomy || DEFAULT_TAXONOMY
+    }
+
+    const taxonomy = (muscles.data || []).length > 0 || (equipment.data || []).length > 0
+      ? toTaxonomy(muscles.data || [], equipment.data || [])
+      : DEFAULT_TAXONOMY
+    this.cached = { taxonomy, loadedAt: Date.now() }
+    return taxonomy
+  }
+
+  // The exercise with canonical muscle_groups and equipment; throws TaxonomyValidationError
+  // listing every value the taxonomy doesn't know
+  async validate<T extends { muscle_groups?: unknown; equipment?: unknown }>(exercise: T): Promise<T> {
+    const { values, unknown } = canonicalizeExercise(exercise, await this.get())
+
+    const errors = describeUnknownTerms(unknown)
+    if (errors.length > 0) {
+      throw new TaxonomyValidationError(errors)
+    }
+
+    return { ...exercise, ...values }
+  }
+
+  // Rewrites every exercise's muscle_groups and equipment to canonical names. Values the
+  // taxonomy doesn't know stay in place and are reported, so they can be added as synonyms.
+  async normalizeExisting(options: { dryRun?: boolean; pageSize?: number } = {}): Promise<TaxonomyNormalizeResult> {
+    const { dryRun = false, pageSize = 500 } = options
+    const taxonomy = await this.get()
+    const result: TaxonomyNormalizeResult = {
+      scanned: 0,
+      changed: [],
+      unknown: { muscle_groups: {}, equipment: {} },
+      dryRun
+    }
+
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await this.db
+        .from('exercises')
+        .select('id, name, muscle_groups, equipment')
+        .order('id')
+        .range(from, from + pageSize - 1)
+
+      if (error) {
+        throw new Error(`Failed to read exercises: ${error.message}`)
+      }
+      if (!data || data.length === 0) break
+
+      for (const exercise of data) {
+        result.scanned++
+        const { values, unknown } = canonicalizeExercise(exercise, taxonomy)
+
+        for (const kind of Object.keys(unknown) as TaxonomyKind[]) {
+          for (const value of unknown[kind]) {
+            result.unknown[kind][value] = (result.unknown[kind][value] || 0) + 1
+          }
+        }
+
+        const changes = Object.fromEntries(
+          (Object.keys(values) as TaxonomyKind[])
+            .filter(kind => !sameValues(exercise[kind], values[kind]!))
+            .map(kind => [kind, values[kind]!])
+        )
+        if (Object.keys(changes).length === 0) continue
+
+        result.changed.push({ id: exercise.id, name: exercise.name, ...changes })
+        if (dryRun) continue
+
+        const { error: updateError } = await this.db
+          .from('exercises')
+          .update({ ...changes, updated_at: new Date().toISOString() })
+          .eq('id', exercise.id)
+
+        if (updateError) {
+          throw new Error(`Failed to normalize exercise ${exercise.id}: ${updateError.message}`)
+        }
+      }
+
+      if (data.length < pageSize) break
+    }
+
+    return result
+  }
+}
+
+export const taxonomyTerms = new TaxonomyTerms()
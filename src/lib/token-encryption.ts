@@ -0,0 +1,48 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto'
+
+// AES-256-GCM for Trainerize API tokens stored in trainerize_connections.
+//
+//   TRAINERIZE_TOKEN_ENCRYPTION_KEY=<32 bytes, hex or base64>
+//   e.g. openssl rand -hex 32
+//
+// Stored as v1:<iv>:<auth tag>:<ciphertext>, each part base64
+
+const VERSION = 'v1'
+const ALGORITHM = 'aes-256-gcm'
+
+function getKey(): Buffer {
+  const raw = process.env.TRAINERIZE_TOKEN_ENCRYPTION_KEY || ''
+  const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, 'hex') : Buffer.from(raw, 'base64')
+
+  if (key.length !== 32) {
+    throw new Error('TRAINERIZE_TOKEN_ENCRYPTION_KEY must be set to a 32 byte key, hex or base64 encoded')
+  }
+  return key
+}
+
+export function encryptToken(token: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(token, 'utf8'), cipher.final()])
+
+  return [VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map(part => (typeof part === 'string' ? part : part.toString('base64')))
+    .join(':')
+}
+
+export function decryptToken(payload: string): string {
+  const [version, iv, tag, ciphertext] = payload.split(':')
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unrecognized encrypted token format')
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64'))
+  decipher.setAuthTag(Buffer.from(tag, 'base64'))
+
+  try {
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8')
+  } catch {
+    // GCM authentication failed: wrong key or tampered ciphertext
+    throw new Error('Failed to decrypt Trainerize token; check TRAINERIZE_TOKEN_ENCRYPTION_KEY')
+  }
+}
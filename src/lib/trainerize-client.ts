@@ -1,3 +1,41 @@
+import type {
+  TrainerizeRequest,
+  TrainerizeResponse,
+  TrainerizePageRequest,
+  TrainerizeListItem,
+  TrainerizeUserProfile,
+  TrainerizeUserCreate,
+  TrainerizeBodyStats,
+  TrainerizeMessageThread
+} from './trainerize-endpoints'
+import { trainerizeRateLimiter, parseRetryAfter, type TokenBucketRateLimiter, type RateLimiterMetrics } from './rate-limiter'
+import { getFixturesFromEnv, type TrainerizeFixtures } from './trainerize-fixtures'
+import {
+  TrainerizeError,
+  TrainerizeAuthError,
+  TrainerizeRateLimitError,
+  TrainerizeNotFoundError,
+  TrainerizeBusinessError,
+  TrainerizeNetworkError,
+  TrainerizeCircuitOpenError
+} from './trainerize-errors'
+import { trainerizeCircuitBreaker, type CircuitBreaker, type CircuitBreakerStatus } from './circuit-breaker'
+import { applyMapping, type MappingProfile } from './exercise-mapping'
+import { normalizeVideoUrl } from './exercise-videos'
+import { findDuplicateCandidates, type DuplicateCandidate, type SimilarityInput } from './exercise-similarity'
+import type { MappingProfiles } from './mapping-profiles'
+import type { Taxonomy } from './exercise-taxonomy'
+import type { TaxonomyTerms } from './taxonomy-terms'
+
+export type {
+  TrainerizeEndpoints,
+  TrainerizeEndpoint,
+  TrainerizeRequest,
+  TrainerizeResponse,
+  TrainerizePageRequest,
+  TrainerizeListItem
+} from './trainerize-endpoints'
+
 export type RecordType = 
   | 'general' 
   | 'strength' 
@@ -35,9 +73,23 @@ export interface TrainerizeExercise {
   is_active?: boolean
   created_at?: string
   updated_at?: string
+  // The payload exactly as Trainerize returned it. Stored with the exercise in
+  // exercises.metadata so pushes can send back the fields we don't model.
+  raw?: Record<string, any>
   [key: string]: any
 }
 
+// Lays our values over the Trainerize payload stored in exercises.metadata, so /exercise/set
+// doesn't wipe fields like videoStatus that we never pulled into columns. Undefined
+// values leave the stored ones alone.
+export function withStoredPayload<T extends object>(update: T, metadata: unknown): T {
+  const raw = (metadata as TrainerizeExercise | null)?.raw
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return update
+
+  const defined = Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined))
+  return { ...raw, ...defined } as T
+}
+
 export interface TrainerizeExerciseUpdate {
   id: number
   name?: string
@@ -85,22 +137,62 @@ export interface TrainerizeExerciseResponse {
   error?: string
 }
 
-export interface FieldMapping {
-  supabaseField: string
-  trainerizeField: keyof TrainerizeExerciseCreate
-  transform?: (value: any) => any
+export interface TrainerizeTrainingPlanCreate {
+  name: string
+  instruction?: string
+  startDate?: string
+  durationType?: 'week' | 'month' | 'specificDate' | 'notSpecified'
+  duration?: number
+  endDate?: string
 }
 
-interface TrainerizeResponse<T = any> {
-  code: number
-  message: string
-  data: T
+export interface BulkAddOutcome {
+  status: 'successful' | 'failed' | 'skipped' | 'duplicate'
+  trainerize_id?: string
+  error?: string
+  reason?: string
+  existing_name?: string
+  // Similarity to the existing exercise, 1 for the same name
+  duplicate_score?: number
 }
 
+// Exercises already in Trainerize, as compared against for duplicates
+export type LinkedExercise = SimilarityInput & { id?: string; trainerize_id: string | null }
+
+// Columns findDuplicateCandidates compares
+export const DUPLICATE_CHECK_COLUMNS = 'id, name, equipment, muscle_groups, trainerize_id, metadata'
+
 interface RateLimitOptions {
-  requestsPerSecond: number
   maxRetries: number
   retryDelay: number
+  // Shared process-wide limiter unless a test hands in its own
+  rateLimiter: TokenBucketRateLimiter
+  // Shared with the rate limiter's scope: one breaker for the whole process by default
+  circuitBreaker: CircuitBreaker
+  // Record or replay HTTP exchanges; configured through TRAINERIZE_FIXTURE_MODE by default
+  fixtures: TrainerizeFixtures | null
+  // Group credentials for a stored connection; TRAINERIZE_GROUP_ID/TRAINERIZE_API_TOKEN when null
+  credentials: TrainerizeCredentials | null
+  // trainerize_connections row the credentials came from; scopes the exercises this client reads and writes
+  connectionId: string | null
+  // Where the active mapping profile comes from; the shared store when null
+  mappingProfiles: MappingProfiles | null
+  // Where the muscle and equipment taxonomy comes from; the shared store when null
+  taxonomyTerms: TaxonomyTerms | null
+}
+
+export interface TrainerizeCredentials {
+  groupId: string
+  apiToken: string
+}
+
+export interface PaginateOptions {
+  // Items requested per call
+  pageSize?: number
+  // Offset of the first item
+  start?: number
+  // Stop after this many items; every page is fetched when omitted
+  maxItems?: number
 }
 
 // DiscoveryOptions interface - currently unused but kept for future implementation
@@ -113,18 +205,13 @@ interface RateLimitOptions {
 // }
 
 export class TrainerizeClient {
-  private baseUrl: string
   private authHeader: string
-  private rateLimitDelay: number
-  private lastRequestTime = 0
   private requestQueue: Promise<any> = Promise.resolve()
   private options: RateLimitOptions
-  private fieldMappings: FieldMapping[]
 
   constructor(options: Partial<RateLimitOptions> = {}) {
-    this.baseUrl = process.env.TRAINERIZE_API_URL || 'https://api.trainerize.com/v03'
-    const groupId = process.env.TRAINERIZE_GROUP_ID || 'placeholder-group'
-    const apiToken = process.env.TRAINERIZE_API_TOKEN || 'placeholder-token'
+    const groupId = options.credentials?.groupId || process.env.TRAINERIZE_GROUP_ID || 'placeholder-group'
+    const apiToken = options.credentials?.apiToken || process.env.TRAINERIZE_API_TOKEN || 'placeholder-token'
     
     // Allow placeholder values during build, warn at runtime if not properly configured
     if ((groupId === 'placeholder-group' || apiToken === 'placeholder-token')) {
@@ -137,123 +224,210 @@ export class TrainerizeClient {
     this.authHeader = `Basic ${Buffer.from(credentials).toString('base64')}`
     
     this.options = {
-      requestsPerSecond: 2, // Conservative rate limit
       maxRetries: 3,
       retryDelay: 1000,
+      rateLimiter: trainerizeRateLimiter,
+      circuitBreaker: trainerizeCircuitBreaker,
+      fixtures: getFixturesFromEnv(),
+      credentials: null,
+      connectionId: null,
+      mappingProfiles: null,
+      taxonomyTerms: null,
       ...options
     }
-    
-    this.rateLimitDelay = 1000 / this.options.requestsPerSecond
-    
-    // Initialize field mappings
-    this.fieldMappings = [
-      { supabaseField: 'name', trainerizeField: 'name' },
-      { supabaseField: 'alternate_name', trainerizeField: 'alternateName' },
-      { supabaseField: 'description', trainerizeField: 'description' },
-      { 
-        supabaseField: 'category', 
-        trainerizeField: 'recordType',
-        transform: this.mapToRecordType.bind(this)
-      },
-      { 
-        supabaseField: 'muscle_groups', 
-        trainerizeField: 'tag',
-        transform: this.mapToTag.bind(this)
-      },
-      { supabaseField: 'video_url', trainerizeField: 'videoUrl' },
-      { 
-        supabaseField: 'video_url', 
-        trainerizeField: 'videoType',
-        transform: this.inferVideoType.bind(this)
-      }
-    ]
   }
 
-  private async waitForRateLimit(): Promise<void> {
-    const now = Date.now()
-    const timeSinceLastRequest = now - this.lastRequestTime
-    
-    if (timeSinceLastRequest < this.rateLimitDelay) {
-      const waitTime = this.rateLimitDelay - timeSinceLastRequest
-      await new Promise(resolve => setTimeout(resolve, waitTime))
-    }
-    
-    this.lastRequestTime = Date.now()
+  // The Trainerize group this client acts for
+  get groupId(): string {
+    return this.options.credentials?.groupId || process.env.TRAINERIZE_GROUP_ID || '0'
+  }
+
+  // Read per request so a mock server can be swapped in through TRAINERIZE_API_URL
+  private get baseUrl(): string {
+    return process.env.TRAINERIZE_API_URL || 'https://api.trainerize.com/v03'
   }
 
-  public async makeRequest<T = any>(
-    endpoint: string, 
-    body: any = {}, 
+  // Request and response types come from TrainerizeEndpoints for known endpoints
+  public async makeRequest<E extends string>(
+    endpoint: E,
+    body: TrainerizeRequest<E> = {} as TrainerizeRequest<E>,
     attempt = 1
-  ): Promise<T> {
-    await this.waitForRateLimit()
+  ): Promise<TrainerizeResponse<E>> {
+    const replaying = this.options.fixtures?.mode === 'replay'
+    const { circuitBreaker } = this.options
+    if (!replaying) {
+      // While Trainerize is down, fail fast instead of spending retries on every item
+      if (!circuitBreaker.allowRequest()) {
+        throw new TrainerizeCircuitOpenError(endpoint, circuitBreaker.retryAfterMs())
+      }
+      await this.options.rateLimiter.acquire(endpoint)
+    }
 
+    const startedAt = Date.now()
     try {
-      const response = await fetch(`${this.baseUrl}${endpoint}`, {
-        method: 'POST',
-        headers: {
-          'Authorization': this.authHeader,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(body)
-      })
+      const response = await this.send(endpoint, body)
 
       if (!response.ok) {
-        if (response.status === 429 && attempt < this.options.maxRetries) {
-          // Rate limited - exponential backoff
-          const backoffDelay = this.options.retryDelay * Math.pow(2, attempt - 1)
-          console.log(`Rate limited. Retrying in ${backoffDelay}ms...`)
-          await new Promise(resolve => setTimeout(resolve, backoffDelay))
-          return this.makeRequest(endpoint, body, attempt + 1)
-        }
-
-        if (response.status === 401) {
-          throw new Error('Trainerize API authentication failed. Check your credentials.')
-        }
-
-        if (response.status === 403) {
-          throw new Error('Trainerize API access forbidden. Check your permissions.')
-        }
-
-        if (response.status === 404) {
-          return null as T // Resource not found is valid for some endpoints
-        }
-
-        const errorText = await response.text().catch(() => 'Unknown error')
-        throw new Error(`Trainerize API error ${response.status}: ${errorText}`)
+        throw await this.toError(endpoint, response)
       }
 
       const data = await response.json()
       
       // Check Trainerize's internal response format
       if (data.code !== undefined && data.code !== 0) {
-        throw new Error(`Trainerize API returned error code ${data.code}: ${data.message}`)
+        throw new TrainerizeBusinessError(data.code, data.message, endpoint)
       }
 
+      if (!replaying) circuitBreaker.recordSuccess(Date.now() - startedAt)
       return data
-    } catch (error) {
-      if (attempt < this.options.maxRetries && !(error instanceof Error && error.message.includes('authentication'))) {
+    } catch (caught) {
+      const error = caught instanceof TrainerizeError
+        ? caught
+        : new TrainerizeNetworkError(caught instanceof Error ? caught.message : String(caught), endpoint)
+
+      // Only an unreachable or erroring API counts against the breaker; any other
+      // error still means Trainerize answered
+      if (!replaying) {
+        const latencyMs = Date.now() - startedAt
+        if (error instanceof TrainerizeNetworkError) {
+          circuitBreaker.recordFailure(latencyMs, error.message)
+        } else {
+          circuitBreaker.recordSuccess(latencyMs)
+        }
+      }
+
+      // Replayed fixtures answer the same way every time, so retrying can't help
+      if (replaying || !error.retryable || attempt >= this.options.maxRetries) {
+        throw error
+      }
+
+      if (error instanceof TrainerizeRateLimitError) {
+        // Hold every client off for Retry-After, else exponential backoff
+        const backoffDelay = error.retryAfterMs ?? this.options.retryDelay * Math.pow(2, attempt - 1)
+        console.log(`Rate limited. Retrying in ${backoffDelay}ms...`)
+        this.options.rateLimiter.pauseFor(backoffDelay)
+      } else {
         const retryDelay = this.options.retryDelay * attempt
-        console.log(`Request failed, retrying in ${retryDelay}ms...`, error)
+        console.log(`Request failed, retrying in ${retryDelay}ms...`, error.message)
         await new Promise(resolve => setTimeout(resolve, retryDelay))
-        return this.makeRequest(endpoint, body, attempt + 1)
       }
-      
-      throw error
+
+      return this.makeRequest(endpoint, body, attempt + 1)
     }
   }
 
+  // Maps a non-2xx response onto the error taxonomy in trainerize-errors
+  private async toError(endpoint: string, response: Response): Promise<TrainerizeError> {
+    const errorText = await response.text().catch(() => '')
+    let apiMessage = errorText || response.statusText
+    try {
+      apiMessage = JSON.parse(errorText).message || apiMessage
+    } catch {
+      // Not JSON, keep the raw text
+    }
+
+    switch (response.status) {
+      case 401:
+        return new TrainerizeAuthError('Trainerize API authentication failed. Check your credentials.', endpoint, 401)
+      case 403:
+        return new TrainerizeAuthError('Trainerize API access forbidden. Check your permissions.', endpoint, 403)
+      case 404:
+        return new TrainerizeNotFoundError(`Trainerize resource not found: ${endpoint}`, endpoint)
+      case 429:
+        return new TrainerizeRateLimitError(
+          'Trainerize API rate limit exceeded',
+          endpoint,
+          parseRetryAfter(response.headers.get('Retry-After')) ?? undefined
+        )
+    }
+
+    if (response.status >= 500) {
+      return new TrainerizeNetworkError(`Trainerize API error ${response.status}: ${apiMessage}`, endpoint, response.status)
+    }
+    return new TrainerizeBusinessError(response.status, apiMessage, endpoint, response.status)
+  }
+
+  // Calls Trainerize, recording the exchange or serving it from fixtures when configured
+  private async send(endpoint: string, body: any): Promise<Response> {
+    const { fixtures } = this.options
+    if (fixtures?.mode === 'replay') {
+      return fixtures.replay(endpoint, body)
+    }
+
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': this.authHeader,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body)
+    })
+
+    if (fixtures?.mode === 'record') {
+      await fixtures.record(endpoint, body, response)
+    }
+
+    return response
+  }
+
   // Queue requests to avoid overwhelming the API
   private queueRequest<T>(fn: () => Promise<T>): Promise<T> {
     this.requestQueue = this.requestQueue.then(() => fn(), () => fn())
     return this.requestQueue
   }
 
+  // Pages through a start/count list endpoint until a short or empty page (or the
+  // reported total) says it's exhausted. Breaking out of the loop stops fetching.
+  async *paginate<E extends string>(
+    endpoint: E,
+    params: TrainerizePageRequest<E>,
+    options: PaginateOptions = {}
+  ): AsyncGenerator<TrainerizeListItem<E>> {
+    const { pageSize = 100, maxItems = Infinity } = options
+    let start = options.start ?? 0
+    let yielded = 0
+
+    while (yielded < maxItems) {
+      const count = Math.min(pageSize, maxItems - yielded)
+      const response = await this.makeRequest(endpoint, { ...params, start, count } as TrainerizeRequest<E>)
+      const items = this.extractPageItems(response)
+
+      for (const item of items) {
+        yield item
+        if (++yielded >= maxItems) return
+      }
+
+      start += items.length
+      const total = typeof response?.total === 'number' ? response.total : null
+      if (items.length < count || (total !== null && start >= total)) return
+    }
+  }
+
+  // Collects paginate() into an array
+  async getAllPages<E extends string>(
+    endpoint: E,
+    params: TrainerizePageRequest<E>,
+    options: PaginateOptions = {}
+  ): Promise<TrainerizeListItem<E>[]> {
+    const items: TrainerizeListItem<E>[] = []
+    for await (const item of this.paginate(endpoint, params, options)) {
+      items.push(item)
+    }
+    return items
+  }
+
+  // List responses put their items in a named array (templates, threads, data)
+  private extractPageItems(response: any): any[] {
+    if (Array.isArray(response)) return response
+    if (!response || typeof response !== 'object') return []
+    return (Object.values(response).find(Array.isArray) as any[] | undefined) ?? []
+  }
+
   // Get user profile (can be used to validate connection)
   async validateConnection(): Promise<boolean> {
     try {
       const response = await this.makeRequest('/user/getProfile', {
-        usersid: [parseInt(process.env.TRAINERIZE_GROUP_ID || '0')],
+        usersid: [parseInt(this.groupId)],
         unitBodystats: 'inches'
       })
       return !!response
@@ -263,26 +437,104 @@ export class TrainerizeClient {
     }
   }
 
+  // Get profiles for one or more users
+  async getUserProfiles(userIDs: number[]): Promise<TrainerizeUserProfile[]> {
+    const response = await this.makeRequest('/user/getProfile', {
+      usersid: userIDs,
+      unitBodystats: 'inches'
+    })
+    return response?.users || []
+  }
+
+  // Create a client or trainer, returns the new user ID
+  async addUser(user: TrainerizeUserCreate): Promise<number> {
+    const response = await this.makeRequest('/user/add', user)
+    if (!response?.userID) {
+      throw new Error(`No user ID returned from Trainerize for ${user.user.email}`)
+    }
+    return response.userID
+  }
+
+  async updateUserProfile(user: Partial<TrainerizeUserProfile> & { id: number }): Promise<void> {
+    await this.makeRequest('/user/setProfile', { user })
+  }
+
+  async setUserStatus(userID: number, status: 'active' | 'inactive'): Promise<void> {
+    await this.makeRequest('/user/setStatus', { userID, status })
+  }
+
+  // Body stats for a single day, today by default
+  async getBodyStats(userID: number, date?: string): Promise<TrainerizeBodyStats | null> {
+    return this.makeRequest('/bodystats/get', {
+      userID,
+      date: date || new Date().toISOString().split('T')[0],
+      unitWeight: 'lbs',
+      unitBodystats: 'inches'
+    })
+  }
+
+  async getMessageThreads(
+    userID: number,
+    options: { view?: 'inbox' | 'byClient' | 'archived' } & PaginateOptions = {}
+  ): Promise<TrainerizeMessageThread[]> {
+    const { view = 'inbox', pageSize = 50, ...paging } = options
+    return this.getAllPages('/message/getThreads', { userID, view }, { pageSize, ...paging })
+  }
+
   // Get training plans (could contain exercise data)
   async getTrainingPlans(userID: number): Promise<any[]> {
     try {
-      const response = await this.makeRequest<TrainerizeResponse>('/trainingPlan/getList', {
+      const response = await this.makeRequest('/trainingPlan/getList', {
         userID
       })
-      return response?.data || []
+      return response?.plans || response?.data || []
     } catch (error) {
       console.error('Failed to fetch training plans:', error)
       return []
     }
   }
 
+  // Create a training plan for a client, returns the new plan ID
+  async addTrainingPlan(userID: number, plan: TrainerizeTrainingPlanCreate): Promise<number> {
+    const response = await this.makeRequest('/trainingPlan/add', {
+      userID,
+      plan
+    })
+
+    const planId = response?.id || response?.planID
+    if (!planId) {
+      throw new Error(`No plan ID returned from Trainerize for "${plan.name}"`)
+    }
+
+    return Number(planId)
+  }
+
+  // Update name/duration of an existing training plan
+  async updateTrainingPlan(planID: number, plan: Partial<TrainerizeTrainingPlanCreate>): Promise<void> {
+    await this.makeRequest('/trainingPlan/set', {
+      planID,
+      plan
+    })
+  }
+
+  // Remove a workout definition (e.g. from a training plan); already gone counts as removed
+  async deleteWorkoutDefinition(workoutDefID: number): Promise<void> {
+    try {
+      await this.makeRequest('/workoutDef/delete', {
+        id: workoutDefID
+      })
+    } catch (error) {
+      if (!(error instanceof TrainerizeNotFoundError)) throw error
+    }
+  }
+
   // Get workout definitions from a training plan
   async getWorkoutDefinitions(planID: number): Promise<any[]> {
     try {
-      const response = await this.makeRequest<TrainerizeResponse>('/trainingPlan/getWorkoutDefList', {
+      const response = await this.makeRequest('/trainingPlan/getWorkoutDefList', {
         planID
       })
-      return response?.data || []
+      return response?.workouts || response?.data || []
     } catch (error) {
       console.error('Failed to fetch workout definitions:', error)
       return []
@@ -296,7 +548,7 @@ export class TrainerizeClient {
     endDate: string
   ): Promise<any[]> {
     try {
-      const response = await this.makeRequest<TrainerizeResponse>('/calendar/getList', {
+      const response = await this.makeRequest('/calendar/getList', {
         userID,
         startDate,
         endDate,
@@ -311,29 +563,35 @@ export class TrainerizeClient {
   }
 
   // Discover exercises from training plans and workouts
-  async discoverExercisesFromPlans(userIDs: number[]): Promise<TrainerizeExercise[]> {
+  // Pass `since` for an incremental discovery: only workouts and exercises modified after
+  // it are returned. Records without a timestamp are kept.
+  async discoverExercisesFromPlans(userIDs: number[], options: { since?: string } = {}): Promise<TrainerizeExercise[]> {
+    const { since } = options
     const exercises = new Map<string, TrainerizeExercise>()
     
     for (const userID of userIDs) {
       try {
-        console.log(`Discovering exercises for user ${userID}...`)
+        console.log(`Discovering exercises for user ${userID}${since ? ` changed since ${since}` : ''}...`)
         
-        // Get training plans
+        // Get training plans; every plan is read, since editing one of its workouts
+        // doesn't touch the plan's own modification time
         const plans = await this.getTrainingPlans(userID)
         
         for (const plan of plans) {
           if (plan.id) {
             // Get workouts from plan
-            const workouts = await this.getWorkoutDefinitions(plan.id)
+            const workouts = (await this.getWorkoutDefinitions(plan.id))
+              .map(workout => workout.workoutDef || workout)
+              .filter(workout => this.isModifiedSince(workout, since))
             
             // Extract exercises from workouts
             this.extractExercisesFromWorkouts(workouts, exercises)
           }
         }
         
-        // Get calendar data for recent period
+        // Get calendar data for recent period, or just since the last sync
         const endDate = new Date().toISOString().split('T')[0]
-        const startDate = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000)
+        const startDate = new Date(since ? Date.parse(since) : Date.now() - 90 * 24 * 60 * 60 * 1000)
           .toISOString().split('T')[0]
         
         const calendarData = await this.getCalendarData(userID, startDate, endDate)
@@ -345,6 +603,19 @@ export class TrainerizeClient {
     }
     
     return Array.from(exercises.values())
+      .filter(exercise => this.isModifiedSince(exercise, since))
+  }
+
+  // Trainerize isn't consistent about naming modification timestamps
+  private isModifiedSince(record: any, since?: string): boolean {
+    if (!since) return true
+
+    const modified = record?.updated_at || record?.updatedAt || record?.modified ||
+      record?.dateUpdated || record?.lastModified || record?.modifiedDate
+    if (!modified) return true
+
+    const modifiedAt = Date.parse(modified)
+    return isNaN(modifiedAt) || modifiedAt > Date.parse(since)
   }
 
   private extractExercisesFromWorkouts(
@@ -353,7 +624,8 @@ export class TrainerizeClient {
   ): void {
     for (const workout of workouts) {
       if (workout.exercises && Array.isArray(workout.exercises)) {
-        for (const exercise of workout.exercises) {
+        // Workout definitions hold { def } entries
+        for (const exercise of workout.exercises.map((entry: any) => entry.def || entry)) {
           if (exercise.id && exercise.name) {
             exercises.set(exercise.id, this.normalizeExercise(exercise))
           }
@@ -405,7 +677,8 @@ export class TrainerizeClient {
       is_active: rawExercise.is_active !== false,
       created_at: rawExercise.created_at || rawExercise.createdAt,
       updated_at: rawExercise.updated_at || rawExercise.updatedAt,
-      ...rawExercise // Keep all original data
+      ...rawExercise, // Keep all original data
+      raw: rawExercise
     }
   }
 
@@ -461,12 +734,10 @@ export class TrainerizeClient {
     return Array.from(allExercises.values())
   }
 
-  // Update/Set exercise
-  async updateExercise(exercise: TrainerizeExerciseUpdate): Promise<boolean> {
-    await this.waitForRateLimit()
-    
+  // Update/Set exercise. Pass the exercise's metadata to keep the Trainerize fields it holds.
+  async updateExercise(exercise: TrainerizeExerciseUpdate, metadata?: unknown): Promise<boolean> {
     try {
-      const response = await this.makeRequest('/exercise/set', exercise)
+      const response = await this.makeRequest('/exercise/set', withStoredPayload(exercise, metadata))
       
       if (response) {
         console.log(`✓ Updated exercise ${exercise.id}: ${exercise.name}`)
@@ -474,8 +745,30 @@ export class TrainerizeClient {
       }
       return false
     } catch (error: any) {
+      if (error instanceof TrainerizeNotFoundError) return false
       console.error(`Error updating exercise ${exercise.id}:`, error.message)
-      throw new Error(`Failed to update exercise: ${error.message}`)
+      // Keep the typed error so routes can map it
+      throw error
+    }
+  }
+
+  // Single exercise by Trainerize ID, null when there is none
+  async getExercise(exerciseID: number): Promise<TrainerizeExercise | null> {
+    try {
+      const record = await this.makeRequest('/exercise/get', { id: exerciseID })
+      return record?.id ? this.normalizeExercise(record) : null
+    } catch (error) {
+      if (error instanceof TrainerizeNotFoundError) return null
+      throw error
+    }
+  }
+
+  // Delete a custom exercise from the Trainerize library; already gone counts as deleted
+  async deleteExercise(exerciseID: number): Promise<void> {
+    try {
+      await this.makeRequest('/exercise/delete', { id: exerciseID })
+    } catch (error) {
+      if (!(error instanceof TrainerizeNotFoundError)) throw error
     }
   }
 
@@ -505,20 +798,15 @@ export class TrainerizeClient {
       if (onProgress) {
         onProgress(i + 1, exercises.length)
       }
-
-      // Rate limiting between updates
-      if ((i + 1) % 10 === 0) {
-        await new Promise(resolve => setTimeout(resolve, 1000))
-      }
     }
 
     return results
   }
 
-  // Add single exercise to Trainerize
+  // Add single exercise to Trainerize. Failures come back as success: false, except
+  // retryable ones (open circuit, network errors, 5xx, rate limits), which are thrown so
+  // queued callers can defer the exercise rather than give up on it
   async addExercise(exercise: TrainerizeExerciseCreate): Promise<TrainerizeExerciseResponse> {
-    await this.waitForRateLimit()
-    
     // Validate exercise data first
     const validation = this.validateExerciseCreate(exercise)
     if (!validation.isValid) {
@@ -530,15 +818,18 @@ export class TrainerizeClient {
       }
     }
 
+    // Trainerize gets the canonical URL and the type of the host it points at
+    const video = exercise.videoUrl ? normalizeVideoUrl(exercise.videoUrl) : null
+    const payload = video ? { ...exercise, videoUrl: video.canonicalUrl, videoType: video.host } : exercise
+
     try {
-      const response = await this.makeRequest('/exercise/add', exercise)
+      const response = await this.makeRequest('/exercise/add', payload)
       
-      if (response?.id || response?.exerciseId) {
-        const newId = response.id || response.exerciseId
-        
+      const newId = response?.id || response?.exerciseId
+      if (newId) {
         console.log(`✓ Added exercise to Trainerize: ${exercise.name} (ID: ${newId})`)
         return {
-          id: parseInt(newId),
+          id: Number(newId),
           name: exercise.name,
           success: true,
           ...response
@@ -552,6 +843,7 @@ export class TrainerizeClient {
         error: 'No ID returned from Trainerize'
       }
     } catch (error: any) {
+      if (error instanceof TrainerizeError && error.retryable) throw error
       console.error(`Error adding exercise:`, error.message)
       return {
         id: 0,
@@ -574,16 +866,16 @@ export class TrainerizeClient {
     successful: Array<{ exercise: any; trainerize_id: string }>
     failed: Array<{ exercise: any; error: string }>
     skipped: Array<{ exercise: any; reason: string }>
-    duplicates: Array<{ exercise: any; existing_name: string }>
+    duplicates: Array<{ exercise: any; existing_name: string; score: number }>
   }> {
     const { onProgress, skipExisting = true, checkForDuplicates = true } = options
-    const { supabaseAdmin } = await import('./supabase')
+    const { supabaseAdmin, scopeToConnection } = await import('./supabase')
     
     const results = {
       successful: [] as Array<{ exercise: any; trainerize_id: string }>,
       failed: [] as Array<{ exercise: any; error: string }>,
       skipped: [] as Array<{ exercise: any; reason: string }>,
-      duplicates: [] as Array<{ exercise: any; existing_name: string }>
+      duplicates: [] as Array<{ exercise: any; existing_name: string; score: number }>
     }
 
     // Fetch exercises from Supabase
@@ -599,10 +891,13 @@ export class TrainerizeClient {
     // Get existing exercises for duplicate detection if enabled
     let existingExercises: any[] = []
     if (checkForDuplicates) {
-      const { data: existing } = await supabaseAdmin
-        .from('exercises')
-        .select('name, trainerize_id')
-        .not('trainerize_id', 'is', null)
+      const { data: existing } = await scopeToConnection(
+        supabaseAdmin
+          .from('exercises')
+          .select(DUPLICATE_CHECK_COLUMNS)
+          .not('trainerize_id', 'is', null),
+        this.options.connectionId
+      )
       
       existingExercises = existing || []
     }
@@ -614,121 +909,146 @@ export class TrainerizeClient {
         onProgress(i + 1, exercises.length, exercise)
       }
 
-      // Skip if already has Trainerize ID and skipExisting is true
-      if (skipExisting && exercise.trainerize_id) {
-        results.skipped.push({
-          exercise,
-          reason: 'Already synced to Trainerize'
+      let outcome: BulkAddOutcome
+      try {
+        outcome = await this.addExerciseFromSupabase(exercise, {
+          skipExisting,
+          existingExercises: checkForDuplicates ? existingExercises : undefined
         })
-        continue
-      }
-
-      // Check for duplicates by name
-      if (checkForDuplicates) {
-        const duplicate = existingExercises.find(existing => 
-          existing.name.toLowerCase() === exercise.name.toLowerCase()
-        )
-        
-        if (duplicate && duplicate.trainerize_id) {
-          results.duplicates.push({
-            exercise,
-            existing_name: duplicate.name
-          })
-          continue
-        }
+      } catch (addError) {
+        outcome = { status: 'failed', error: addError instanceof Error ? addError.message : String(addError) }
       }
 
-      // Map Supabase exercise to Trainerize format
-      const trainerizeExercise = this.mapSupabaseToTrainerize(exercise)
-      
-      // Add to Trainerize
-      const result = await this.addExercise(trainerizeExercise)
-      
-      if (result.success && result.id) {
-        results.successful.push({
-          exercise,
-          trainerize_id: result.id.toString()
-        })
-        
-        // Update Supabase with new Trainerize ID
-        try {
-          await supabaseAdmin
-            .from('exercises')
-            .update({
-              trainerize_id: result.id.toString(),
-              synced_at: new Date().toISOString(),
-              sync_status: 'synced'
-            })
-            .eq('id', exercise.id)
-        } catch (updateError) {
-          console.error('Failed to update Supabase with new Trainerize ID:', updateError)
-        }
+      if (outcome.status === 'successful') {
+        results.successful.push({ exercise, trainerize_id: outcome.trainerize_id! })
+      } else if (outcome.status === 'skipped') {
+        results.skipped.push({ exercise, reason: outcome.reason! })
+      } else if (outcome.status === 'duplicate') {
+        results.duplicates.push({ exercise, existing_name: outcome.existing_name!, score: outcome.duplicate_score! })
       } else {
-        results.failed.push({
-          exercise,
-          error: result.error || 'Unknown error'
-        })
-      }
-
-      // Rate limiting between requests
-      if ((i + 1) % 5 === 0) {
-        await new Promise(resolve => setTimeout(resolve, 1000))
+        results.failed.push({ exercise, error: outcome.error! })
       }
     }
 
     return results
   }
 
-  // Map Supabase exercise format to Trainerize format
-  mapSupabaseToTrainerize(exercise: any): TrainerizeExerciseCreate {
-    const mapped: TrainerizeExerciseCreate = {
-      name: exercise.name
+  // Push a single Supabase exercise to Trainerize and store the returned ID.
+  // Pass existingExercises to skip probable duplicates of exercises already linked to Trainerize.
+  // Throws the retryable errors addExercise throws.
+  async addExerciseFromSupabase(
+    exercise: any,
+    options: {
+      skipExisting?: boolean
+      existingExercises?: LinkedExercise[]
+    } = {}
+  ): Promise<BulkAddOutcome> {
+    const { skipExisting = true, existingExercises } = options
+    const { supabaseAdmin } = await import('./supabase')
+
+    // Skip if already has Trainerize ID and skipExisting is true
+    if (skipExisting && exercise.trainerize_id) {
+      return { status: 'skipped', reason: 'Already synced to Trainerize' }
     }
 
-    // Apply field mappings
-    for (const mapping of this.fieldMappings) {
-      const value = exercise[mapping.supabaseField]
+    // Check for probable duplicates among the linked exercises
+    if (existingExercises) {
+      const [duplicate] = findDuplicateCandidates(
+        exercise,
+        existingExercises.filter(existing => existing.trainerize_id && existing.id !== exercise.id)
+      )
       
-      if (value !== undefined && value !== null) {
-        const transformedValue = mapping.transform ? mapping.transform(value) : value
-        if (transformedValue !== undefined) {
-          (mapped as any)[mapping.trainerizeField] = transformedValue
-        }
+      if (duplicate) {
+        return { status: 'duplicate', existing_name: duplicate.exercise.name, duplicate_score: duplicate.score }
       }
     }
 
+    // Map Supabase exercise to Trainerize format
+    const trainerizeExercise = await this.mapSupabaseToTrainerize(exercise)
+    
+    // Add to Trainerize
+    const result = await this.addExercise(trainerizeExercise)
+    
+    if (!result.success || !result.id) {
+      return { status: 'failed', error: result.error || 'Unknown error' }
+    }
+
+    // Update Supabase with new Trainerize ID
+    try {
+      await supabaseAdmin
+        .from('exercises')
+        .update({
+          trainerize_id: result.id.toString(),
+          synced_at: new Date().toISOString(),
+          sync_status: 'synced',
+          // The exercise now lives in this client's Trainerize group
+          connection_id: this.options.connectionId
+        })
+        .eq('id', exercise.id)
+    } catch (updateError) {
+      console.error('Failed to update Supabase with new Trainerize ID:', updateError)
+    }
+
+    return { status: 'successful', trainerize_id: result.id.toString() }
+  }
+
+  // The mapping profile pushes and pulls currently use
+  async getMappingProfile(): Promise<MappingProfile> {
+    const store = this.options.mappingProfiles || (await import('./mapping-profiles')).mappingProfiles
+    return store.getActive()
+  }
+
+  // The taxonomy Trainerize tags are derived from
+  async getTaxonomy(): Promise<Taxonomy> {
+    const store = this.options.taxonomyTerms || (await import('./taxonomy-terms')).taxonomyTerms
+    return store.get()
+  }
+
+  // Map Supabase exercise format to Trainerize format through the active mapping profile
+  async mapSupabaseToTrainerize(exercise: any, profile?: MappingProfile): Promise<TrainerizeExerciseCreate> {
+    const mapped = {
+      name: exercise.name,
+      ...applyMapping(profile || await this.getMappingProfile(), 'push', exercise, await this.getTaxonomy())
+    } as TrainerizeExerciseCreate
+
     // Build tags from exercise data
     mapped.tags = this.buildTags(exercise)
 
     return mapped
   }
 
-  // Check for duplicate exercises before adding
-  async checkForDuplicates(exerciseName: string): Promise<{
+  // Check for probable duplicates among the exercises already in Trainerize before adding.
+  // Candidates are ranked best first; existingExercise is the best one.
+  async checkForDuplicates(exercise: string | SimilarityInput & { id?: string }): Promise<{
     isDuplicate: boolean
     existingExercise?: any
+    candidates: DuplicateCandidate<LinkedExercise>[]
   }> {
-    const { supabaseAdmin } = await import('./supabase')
+    const { supabaseAdmin, scopeToConnection } = await import('./supabase')
+    const candidate = typeof exercise === 'string' ? { name: exercise } : exercise
     
     try {
-      const { data: existing } = await supabaseAdmin
-        .from('exercises')
-        .select('*')
-        .ilike('name', exerciseName)
-        .not('trainerize_id', 'is', null)
-        .limit(1)
+      const { data: existing } = await scopeToConnection(
+        supabaseAdmin
+          .from('exercises')
+          .select(DUPLICATE_CHECK_COLUMNS)
+          .not('trainerize_id', 'is', null),
+        this.options.connectionId
+      )
 
-      if (existing && existing.length > 0) {
-        return {
-          isDuplicate: true,
-          existingExercise: existing[0]
-        }
-      }
+      const candidates = findDuplicateCandidates(
+        candidate,
+        (existing || []).filter(row => !('id' in candidate) || row.id !== candidate.id)
+      )
 
-      return { isDuplicate: false }
+      return {
+        isDuplicate: candidates.length > 0,
+        existingExercise: candidates[0]?.exercise,
+        candidates
+      }
     } catch (error) {
       console.error('Error checking for duplicates:', error)
-      return { isDuplicate: false }
+      return { isDuplicate: false, candidates: [] }
     }
   }
 
@@ -767,51 +1087,16 @@ export class TrainerizeClient {
       errors.push('Video URL must be less than 255 characters')
     }
 
+    if (exercise.videoUrl && !normalizeVideoUrl(exercise.videoUrl)) {
+      errors.push('Video URL must be a YouTube or Vimeo video')
+    }
+
     return {
       isValid: errors.length === 0,
       errors
     }
   }
 
-  // Helper methods for mapping
-  private mapToRecordType(category?: string): RecordType {
-    const mapping: Record<string, RecordType> = {
-      'strength': 'strength',
-      'cardio': 'cardio',
-      'endurance': 'endurance',
-      'timed': 'timedFasterBetter'
-    }
-    return mapping[category?.toLowerCase() || ''] || 'general'
-  }
-
-  private mapToTag(muscleGroups?: string[]): ExerciseTag {
-    if (!muscleGroups || muscleGroups.length === 0) return 'none'
-    
-    // Map first muscle group to tag
-    const firstGroup = muscleGroups[0].toLowerCase()
-    const mapping: Record<string, ExerciseTag> = {
-      'arms': 'arms',
-      'shoulders': 'shoulder', 
-      'shoulder': 'shoulder',
-      'chest': 'chest',
-      'back': 'back',
-      'core': 'abs',
-      'abs': 'abs',
-      'legs': 'legs',
-      'cardio': 'cardio'
-    }
-    
-    return mapping[firstGroup] || 'fullBody'
-  }
-
-  // Infer video type from URL
-  private inferVideoType(url?: string): VideoType | undefined {
-    if (!url) return undefined
-    if (url.includes('youtube.com') || url.includes('youtu.be')) return 'youtube'
-    if (url.includes('vimeo.com')) return 'vimeo'
-    return undefined
-  }
-
   // Build tags array from exercise data
   private buildTags(exercise: any): Array<{ type: string; name: string }> {
     const tags: Array<{ type: string; name: string }> = []
@@ -853,16 +1138,19 @@ export class TrainerizeClient {
   // Export exercises to Trainerize format
   async exportToTrainerizeFormat(exerciseIds: string[]): Promise<TrainerizeExerciseUpdate[]> {
     const exportData: TrainerizeExerciseUpdate[] = []
-    const { supabaseAdmin } = await import('./supabase')
+    const { supabaseAdmin, scopeToConnection } = await import('./supabase')
+    const profile = await this.getMappingProfile()
 
     for (const id of exerciseIds) {
       try {
         // Fetch from our database
-        const { data: exercise, error } = await supabaseAdmin
-          .from('exercises')
-          .select('*')
-          .eq('trainerize_id', id)
-          .single()
+        const { data: exercise, error } = await scopeToConnection(
+          supabaseAdmin
+            .from('exercises')
+            .select('*')
+            .eq('trainerize_id', id),
+          this.options.connectionId
+        ).single()
 
         if (error) {
           console.error(`Error fetching exercise ${id}:`, error)
@@ -871,16 +1159,10 @@ export class TrainerizeClient {
 
         if (exercise) {
           // Map to Trainerize format
-          const trainerizeFormat: TrainerizeExerciseUpdate = {
-            id: parseInt(exercise.trainerize_id),
-            name: exercise.name,
-            description: exercise.description || undefined,
-            recordType: this.mapToRecordType(exercise.category || undefined),
-            tag: this.mapToTag(exercise.muscle_groups),
-            videoUrl: exercise.video_url || undefined,
-            videoType: exercise.video_url?.includes('youtube') ? 'youtube' : 
-                      exercise.video_url?.includes('vimeo') ? 'vimeo' : undefined
-          }
+          const trainerizeFormat: TrainerizeExerciseUpdate = withStoredPayload({
+            ...await this.mapSupabaseToTrainerize(exercise, profile),
+            id: parseInt(id)
+          }, exercise.metadata)
 
           exportData.push(trainerizeFormat)
         }
@@ -923,6 +1205,10 @@ export class TrainerizeClient {
       errors.push('Invalid video type')
     }
 
+    if (exercise.videoUrl && !normalizeVideoUrl(exercise.videoUrl)) {
+      errors.push('Video URL must be a YouTube or Vimeo video')
+    }
+
     return {
       isValid: errors.length === 0,
       errors
@@ -932,17 +1218,18 @@ export class TrainerizeClient {
   // Get stats about the connection and available data
   async getStats(): Promise<{
     connectionValid: boolean
-    rateLimitDelay: number
-    lastRequestTime: number
+    rateLimit: RateLimiterMetrics
     queueLength: number
+    circuit: CircuitBreakerStatus
   }> {
     const connectionValid = await this.validateConnection()
-    
+    const rateLimit = this.options.rateLimiter.getMetrics()
+
     return {
       connectionValid,
-      rateLimitDelay: this.rateLimitDelay,
-      lastRequestTime: this.lastRequestTime,
-      queueLength: 0 // Could implement queue length tracking
+      rateLimit,
+      queueLength: rateLimit.waiting,
+      circuit: this.options.circuitBreaker.getStatus()
     }
   }
 }
@@ -0,0 +1,141 @@
+import { supabaseAdmin, type DatabaseClient } from './supabase'
+import { TrainerizeClient, trainerizeClient } from './trainerize-client'
+import { encryptToken, decryptToken } from './token-encryption'
+import { CircuitBreaker } from './circuit-breaker'
+import type { TrainerizeConnection } from '@/types'
+
+// Trainerize groups the app can sync with. Each connection stores its own encrypted
+// API token; data synced through it carries its connection_id. The group configured
+// through TRAINERIZE_GROUP_ID/TRAINERIZE_API_TOKEN is the default connection, and its
+// rows have a NULL connection_id.
+
+// What leaves the server: never the token, encrypted or not
+export type TrainerizeConnectionSummary = Omit<TrainerizeConnection, 'api_token_encrypted'>
+
+export interface TrainerizeConnectionInput {
+  name: string
+  groupId: string
+  apiToken: string
+}
+
+const SUMMARY_COLUMNS = 'id, name, group_id, is_active, last_validated_at, created_at, updated_at'
+
+export class TrainerizeConnections {
+  // One client per connection, so its breaker and retry state persist across requests
+  private clients = new Map<string, TrainerizeClient>()
+
+  constructor(private db: DatabaseClient = supabaseAdmin) {}
+
+  async list(): Promise<TrainerizeConnectionSummary[]> {
+    const { data, error } = await this.db
+      .from('trainerize_connections')
+      .select(SUMMARY_COLUMNS)
+      .order('name')
+
+    if (error) {
+      throw new Error(`Failed to list Trainerize connections: ${error.message}`)
+    }
+
+    return (data || []) as TrainerizeConnectionSummary[]
+  }
+
+  async get(connectionId: string): Promise<TrainerizeConnection> {
+    const { data, error } = await this.db
+      .from('trainerize_connections')
+      .select('*')
+      .eq('id', connectionId)
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Trainerize connection ${connectionId} not found`)
+    }
+
+    return data
+  }
+
+  async create(input: TrainerizeConnectionInput): Promise<TrainerizeConnectionSummary> {
+    const { data, error } = await this.db
+      .from('trainerize_connections')
+      .insert([{
+        name: input.name,
+        group_id: input.groupId,
+        api_token_encrypted: encryptToken(input.apiToken)
+      }])
+      .select(SUMMARY_COLUMNS)
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create Trainerize connection: ${error.message}`)
+    }
+
+    return data as TrainerizeConnectionSummary
+  }
+
+  async update(
+    connectionId: string,
+    input: Partial<TrainerizeConnectionInput> & { isActive?: boolean }
+  ): Promise<TrainerizeConnectionSummary> {
+    const { data, error } = await this.db
+      .from('trainerize_connections')
+      .update({
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.groupId !== undefined && { group_id: input.groupId }),
+        ...(input.apiToken !== undefined && { api_token_encrypted: encryptToken(input.apiToken) }),
+        ...(input.isActive !== undefined && { is_active: input.isActive })
+      })
+      .eq('id', connectionId)
+      .select(SUMMARY_COLUMNS)
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to update Trainerize connection: ${error.message}`)
+    }
+
+    // Credentials may have changed
+    this.clients.delete(connectionId)
+    return data as TrainerizeConnectionSummary
+  }
+
+  // Client for a connection; the env-configured default client without one
+  async getClient(connectionId?: string | null): Promise<TrainerizeClient> {
+    if (!connectionId) return trainerizeClient
+
+    const cached = this.clients.get(connectionId)
+    if (cached) return cached
+
+    const connection = await this.get(connectionId)
+    if (!connection.is_active) {
+      throw new Error(`Trainerize connection "${connection.name}" is inactive`)
+    }
+
+    // Own breaker so one group's outage doesn't fail the others fast; the request
+    // budget stays shared across the process
+    const client = new TrainerizeClient({
+      circuitBreaker: new CircuitBreaker(),
+      connectionId,
+      credentials: {
+        groupId: connection.group_id,
+        apiToken: decryptToken(connection.api_token_encrypted)
+      }
+    })
+    this.clients.set(connectionId, client)
+    return client
+  }
+
+  // Checks the stored credentials against Trainerize and records when they last worked
+  async validate(connectionId: string): Promise<boolean> {
+    const client = await this.getClient(connectionId)
+    const valid = await client.validateConnection()
+
+    if (valid) {
+      await this.db
+        .from('trainerize_connections')
+        .update({ last_validated_at: new Date().toISOString() })
+        .eq('id', connectionId)
+    }
+
+    return valid
+  }
+}
+
+export const trainerizeConnections = new TrainerizeConnections()
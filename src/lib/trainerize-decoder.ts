@@ -252,10 +252,6 @@ export class TrainerizeDecoder {
             error: 'Exercise not found or inaccessible'
           });
         }
-
-        // Rate limiting
-        await new Promise(resolve => setTimeout(resolve, 300));
-
       } catch (error) {
         results.push({
           id,
@@ -344,10 +340,6 @@ export class TrainerizeDecoder {
             error: 'User data not accessible'
           });
         }
-
-        // Rate limiting
-        await new Promise(resolve => setTimeout(resolve, 300));
-
       } catch {
         results.push({
           id,
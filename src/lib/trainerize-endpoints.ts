@@ -0,0 +1,218 @@
+import type {
+  TrainerizeExerciseCreate,
+  TrainerizeExerciseUpdate,
+  TrainerizeTrainingPlanCreate,
+  RecordType,
+  ExerciseTag,
+  VideoType,
+  VideoStatus
+} from './trainerize-client'
+import type {
+  AddWorkoutRequest,
+  UpdateWorkoutRequest,
+  WorkoutDefinition,
+  WorkoutViewType
+} from './trainerize-workout-manager'
+
+// Request and response shapes for each Trainerize v03 endpoint the app calls.
+// TrainerizeClient.makeRequest picks these up from the endpoint literal; endpoints
+// that aren't listed here (discovery probes) still go through it untyped.
+
+// Every response carries these next to the endpoint specific fields
+export interface TrainerizeEnvelope {
+  code?: number
+  message?: string
+}
+
+export type TrainerizeUserType = 'client' | 'trainer' | 'owner' | 'manager'
+export type TrainerizeUserStatus = 'active' | 'inactive' | 'pending'
+
+export interface TrainerizeUserProfile {
+  id: number
+  firstName?: string
+  lastName?: string
+  email?: string
+  phone?: string
+  type?: TrainerizeUserType
+  status?: TrainerizeUserStatus
+  trainerID?: number
+  timezone?: string
+}
+
+export interface TrainerizeUserCreate {
+  user: {
+    firstName: string
+    lastName: string
+    email: string
+    type?: TrainerizeUserType
+    trainerID?: number
+    phone?: string
+  }
+  password?: string
+  sendMail?: boolean
+  userTag?: string
+}
+
+export interface TrainerizeTrainingPlan {
+  id: number
+  name: string
+  userID?: number
+  instruction?: string
+  startDate?: string
+  endDate?: string
+  durationType?: TrainerizeTrainingPlanCreate['durationType']
+  duration?: number
+  modified?: string
+}
+
+// Trainerize returns full workout definitions, sometimes wrapped in `workoutDef`
+export type TrainerizeWorkoutDef = WorkoutDefinition & {
+  id: number
+  trainingPlanID?: number
+  userID?: number
+  modified?: string
+}
+
+export interface TrainerizeWorkoutTemplateSummary {
+  id: number
+  name: string
+  type?: WorkoutDefinition['type']
+  [field: string]: any
+}
+
+export interface TrainerizeExerciseRecord {
+  id: number
+  name: string
+  alternateName?: string
+  description?: string
+  recordType?: RecordType
+  tag?: ExerciseTag
+  videoUrl?: string
+  videoType?: VideoType
+  videoStatus?: VideoStatus
+  modified?: string
+  [field: string]: any
+}
+
+export interface TrainerizeCalendarItem {
+  id?: number
+  date: string
+  type?: string
+  title?: string
+  status?: string
+  workout?: { id: number; name?: string; exercises?: any[] }
+  exercises?: any[]
+  [field: string]: any
+}
+
+export interface TrainerizeBodyStats {
+  id?: number
+  date: string
+  status?: 'scheduled' | 'tracked'
+  from?: string
+  bodyMeasures?: Record<string, number | null>
+}
+
+export interface TrainerizeMessageThread {
+  threadID: number
+  subject?: string
+  type?: string
+  lastMessage?: string
+  lastSentTime?: string
+  unread?: boolean
+  ccUsers?: Array<{ id: number; firstName?: string; lastName?: string }>
+}
+
+interface Endpoint<Request, Response> {
+  request: Request
+  response: Response
+}
+
+export interface TrainerizeEndpoints {
+  '/user/getProfile': Endpoint<
+    { usersid: number[]; unitBodystats?: 'inches' | 'cm' },
+    { users?: TrainerizeUserProfile[] }
+  >
+  '/user/add': Endpoint<TrainerizeUserCreate, { userID?: number }>
+  '/user/setProfile': Endpoint<{ user: Partial<TrainerizeUserProfile> & { id: number } }, object>
+  '/user/setStatus': Endpoint<{ userID: number; status: 'active' | 'inactive' }, object>
+
+  '/trainingPlan/getList': Endpoint<
+    { userID: number },
+    { plans?: TrainerizeTrainingPlan[]; data?: TrainerizeTrainingPlan[] }
+  >
+  '/trainingPlan/add': Endpoint<
+    { userID: number; plan: TrainerizeTrainingPlanCreate },
+    { id?: number; planID?: number }
+  >
+  '/trainingPlan/set': Endpoint<{ planID: number; plan: Partial<TrainerizeTrainingPlanCreate> }, object>
+  '/trainingPlan/getWorkoutDefList': Endpoint<
+    { planID: number },
+    {
+      workouts?: Array<{ workoutDef: TrainerizeWorkoutDef } | TrainerizeWorkoutDef>
+      data?: TrainerizeWorkoutDef[]
+    }
+  >
+
+  '/workoutDef/add': Endpoint<AddWorkoutRequest, { id?: number; workoutId?: number }>
+  '/workoutDef/set': Endpoint<UpdateWorkoutRequest, object>
+  '/workoutDef/delete': Endpoint<{ id: number }, object>
+
+  '/workoutTemplate/getList': Endpoint<
+    {
+      view?: WorkoutViewType | 'all'
+      tags?: number[]
+      userID?: number
+      sort?: 'name' | 'dateCreated' | 'dateUpdated'
+      searchTerm?: string
+      start?: number
+      count?: number
+    },
+    { templates?: TrainerizeWorkoutTemplateSummary[]; total?: number }
+  >
+  '/workoutTemplate/get': Endpoint<{ id: number }, TrainerizeWorkoutDef & { [field: string]: any }>
+
+  '/exercise/get': Endpoint<{ id: number }, TrainerizeExerciseRecord>
+  '/exercise/add': Endpoint<TrainerizeExerciseCreate, { id?: number; exerciseId?: number }>
+  '/exercise/set': Endpoint<TrainerizeExerciseUpdate, object>
+  '/exercise/delete': Endpoint<{ id: number }, object>
+
+  '/calendar/getList': Endpoint<
+    {
+      userID: number
+      startDate: string
+      endDate: string
+      unitDistance?: 'miles' | 'km'
+      unitWeight?: 'lbs' | 'kg'
+    },
+    { data?: TrainerizeCalendarItem[] }
+  >
+  '/bodystats/get': Endpoint<
+    { userID: number; date: string; unitWeight?: 'lbs' | 'kg'; unitBodystats?: 'inches' | 'cm' },
+    TrainerizeBodyStats
+  >
+  '/message/getThreads': Endpoint<
+    { userID: number; view: 'inbox' | 'byClient' | 'archived'; start?: number; count?: number },
+    { threads?: TrainerizeMessageThread[]; total?: number }
+  >
+}
+
+export type TrainerizeEndpoint = keyof TrainerizeEndpoints
+
+export type TrainerizeRequest<E extends string> =
+  E extends TrainerizeEndpoint ? TrainerizeEndpoints[E]['request'] : any
+
+export type TrainerizeResponse<E extends string> =
+  E extends TrainerizeEndpoint ? TrainerizeEndpoints[E]['response'] & TrainerizeEnvelope : any
+
+// List endpoints that page with start/count. The item type is the element of the
+// response's array field (templates, threads, ...).
+export type TrainerizePageRequest<E extends string> = Omit<TrainerizeRequest<E>, 'start' | 'count'>
+
+export type TrainerizeListItem<E extends string> = E extends TrainerizeEndpoint
+  ? {
+      [K in keyof TrainerizeEndpoints[E]['response']]-?: NonNullable<TrainerizeEndpoints[E]['response'][K]> extends Array<infer Item>
+        ? Item
+        : never
+    }[keyof TrainerizeEndpoints[E]['response']]
+  : any
@@ -0,0 +1,75 @@
+// Typed failures thrown by TrainerizeClient.makeRequest. `retryable` tells the client
+// (and callers like the job queue) whether trying the same request again can succeed.
+
+export type TrainerizeErrorCode =
+  | 'TRAINERIZE_AUTH'
+  | 'TRAINERIZE_RATE_LIMIT'
+  | 'TRAINERIZE_NOT_FOUND'
+  | 'TRAINERIZE_BUSINESS'
+  | 'TRAINERIZE_NETWORK'
+  | 'TRAINERIZE_UNAVAILABLE'
+
+export class TrainerizeError extends Error {
+  constructor(
+    message: string,
+    public code: TrainerizeErrorCode,
+    public retryable: boolean,
+    public endpoint?: string,
+    public status?: number
+  ) {
+    super(message)
+    this.name = 'TrainerizeError'
+  }
+}
+
+// 401/403: bad credentials or missing permissions, retrying won't help
+export class TrainerizeAuthError extends TrainerizeError {
+  constructor(message: string, endpoint?: string, status = 401) {
+    super(message, 'TRAINERIZE_AUTH', false, endpoint, status)
+    this.name = 'TrainerizeAuthError'
+  }
+}
+
+// 429 that outlasted the client's own retries
+export class TrainerizeRateLimitError extends TrainerizeError {
+  constructor(message: string, endpoint?: string, public retryAfterMs?: number) {
+    super(message, 'TRAINERIZE_RATE_LIMIT', true, endpoint, 429)
+    this.name = 'TrainerizeRateLimitError'
+  }
+}
+
+export class TrainerizeNotFoundError extends TrainerizeError {
+  constructor(message: string, endpoint?: string) {
+    super(message, 'TRAINERIZE_NOT_FOUND', false, endpoint, 404)
+    this.name = 'TrainerizeNotFoundError'
+  }
+}
+
+// A non-zero Trainerize `code` (or another 4xx): the API understood and refused the request
+export class TrainerizeBusinessError extends TrainerizeError {
+  constructor(public apiCode: number, public apiMessage: string, endpoint?: string, status = 200) {
+    super(`Trainerize API returned error code ${apiCode}: ${apiMessage}`, 'TRAINERIZE_BUSINESS', false, endpoint, status)
+    this.name = 'TrainerizeBusinessError'
+  }
+}
+
+// Connection failures, timeouts and 5xx responses
+export class TrainerizeNetworkError extends TrainerizeError {
+  constructor(message: string, endpoint?: string, status?: number) {
+    super(message, 'TRAINERIZE_NETWORK', true, endpoint, status)
+    this.name = 'TrainerizeNetworkError'
+  }
+}
+
+// Thrown without calling the API while the circuit breaker is open; worth retrying
+// once the breaker lets requests through again
+export class TrainerizeCircuitOpenError extends TrainerizeError {
+  constructor(endpoint?: string, public retryAfterMs?: number) {
+    super('Trainerize API is unavailable, failing fast until it recovers', 'TRAINERIZE_UNAVAILABLE', true, endpoint, 503)
+    this.name = 'TrainerizeCircuitOpenError'
+  }
+}
+
+export function isTrainerizeError(error: unknown): error is TrainerizeError {
+  return error instanceof TrainerizeError
+}
@@ -0,0 +1,102 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { createHash } from 'crypto'
+
+// Record/replay of raw Trainerize HTTP exchanges. In record mode every response the
+// client receives is written to a fixture file keyed by endpoint and request body; in
+// replay mode those files are served instead of calling the API, so discovery and
+// decoder runs can be reproduced offline.
+//
+//   TRAINERIZE_FIXTURE_MODE=record|replay
+//   TRAINERIZE_FIXTURE_DIR=fixtures/trainerize
+
+export type FixtureMode = 'record' | 'replay'
+
+export interface TrainerizeFixture {
+  endpoint: string
+  request: any
+  status: number
+  response: any
+  recordedAt: string
+}
+
+// Never written to disk; matched against object keys at any depth
+const SENSITIVE_KEYS = /^(authorization|password|token|apitoken|api_token|secret|accesstoken|refreshtoken)$/i
+const SCRUBBED = '[scrubbed]'
+
+// Sorted keys, so the same request always maps to the same fixture
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`
+  }
+  return JSON.stringify(value ?? null)
+}
+
+function scrub(value: any): any {
+  if (Array.isArray(value)) return value.map(scrub)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, SENSITIVE_KEYS.test(key) ? SCRUBBED : scrub(v)])
+    )
+  }
+  return value
+}
+
+export class TrainerizeFixtures {
+  constructor(public mode: FixtureMode, private dir: string) {}
+
+  // <dir>/<endpoint path>/<hash of the scrubbed body>.json
+  fixturePath(endpoint: string, body: any): string {
+    const hash = createHash('sha1').update(stableStringify(scrub(body))).digest('hex').slice(0, 16)
+    const folder = endpoint.replace(/^\//, '').replace(/[^a-zA-Z0-9]+/g, '_')
+    return path.join(this.dir, folder, `${hash}.json`)
+  }
+
+  async record(endpoint: string, body: any, response: Response): Promise<void> {
+    const text = await response.clone().text()
+    let parsed: any = text
+    try {
+      parsed = text ? JSON.parse(text) : null
+    } catch {
+      // Keep non-JSON error bodies as text
+    }
+
+    const fixture: TrainerizeFixture = {
+      endpoint,
+      request: scrub(body),
+      status: response.status,
+      response: scrub(parsed),
+      recordedAt: new Date().toISOString()
+    }
+
+    const file = this.fixturePath(endpoint, body)
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2))
+  }
+
+  async replay(endpoint: string, body: any): Promise<Response> {
+    const file = this.fixturePath(endpoint, body)
+
+    let fixture: TrainerizeFixture
+    try {
+      fixture = JSON.parse(await fs.readFile(file, 'utf8'))
+    } catch {
+      throw new Error(`No recorded Trainerize fixture for ${endpoint} (${path.relative(process.cwd(), file)})`)
+    }
+
+    const payload = typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response)
+    return new Response(payload, {
+      status: fixture.status,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+}
+
+export function getFixturesFromEnv(): TrainerizeFixtures | null {
+  const mode = process.env.TRAINERIZE_FIXTURE_MODE
+  if (mode !== 'record' && mode !== 'replay') return null
+
+  const dir = path.resolve(process.cwd(), process.env.TRAINERIZE_FIXTURE_DIR || 'fixtures/trainerize')
+  return new TrainerizeFixtures(mode, dir)
+}
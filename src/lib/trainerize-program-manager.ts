@@ -1,8 +1,8 @@
 import { TrainerizeClient } from './trainerize-client';
-import { supabaseAdmin } from './supabase';
-
-// Use admin client to bypass RLS
-const supabase = supabaseAdmin;
+import { TrainerizeWorkoutManager, type WorkoutDefinition } from './trainerize-workout-manager';
+import { supabaseAdmin, scopeToConnection, type DatabaseClient } from './supabase';
+import { trainerizeConnections } from './trainerize-connections';
+import { ExerciseMerges } from './exercise-merge';
 
 // Core type definitions for programs and training plans
 export interface Program {
@@ -14,6 +14,7 @@ export interface Program {
   goals?: string[];
   equipment_required?: string[];
   trainerize_program_id?: string;
+  trainerize_client_id?: string;
   sync_status?: 'pending' | 'synced' | 'error';
   synced_at?: string;
   created_at: string;
@@ -41,6 +42,10 @@ export interface PlanWorkout {
   week_number: number;
   order_in_day: number;
   rest_day: boolean;
+  trainerize_workout_id?: string | null;
+  sync_status?: 'pending' | 'synced' | 'error';
+  sync_error?: string | null;
+  synced_at?: string | null;
   created_at: string;
 }
 
@@ -78,26 +83,130 @@ export interface ProgramGenerationResult {
   workouts: PlanWorkout[];
 }
 
+export interface PlanExportResult {
+  trainingPlanId: string;
+  trainerizePlanId?: string;
+  exportedWorkouts: number;
+  failedWorkouts: number;
+  error?: string;
+}
+
 export interface ExportResult {
   trainerizeProgramId: string;
   exportedWorkouts: number;
-  syncStatus: 'success' | 'error';
+  failedWorkouts: number;
+  syncStatus: 'success' | 'partial' | 'error';
+  plans: PlanExportResult[];
+}
+
+export interface ImportResult {
+  program: Program;
+  trainingPlans: TrainingPlan[];
+  importedWorkouts: number;
+  importedTemplates: number;
+  importedExercises: number;
+}
+
+export type SyncSourceOfTruth = 'local' | 'trainerize';
+
+export interface ProgramSyncOptions {
+  // Which side wins when both have the entity but it differs
+  sourceOfTruth?: SyncSourceOfTruth;
+  // Include removals for entities that only the losing side still has
+  allowRemovals?: boolean;
+}
+
+export interface ProgramSyncOperation {
+  id: string;
+  entity: 'plan' | 'workout' | 'exercises';
+  action: 'create' | 'update' | 'remove';
+  // push = local -> Trainerize, pull = Trainerize -> local
+  direction: 'push' | 'pull';
+  description: string;
+  training_plan_id?: string;
+  plan_workout_id?: string;
+  workout_template_id?: string;
+  trainerize_plan_id?: string;
+  trainerize_workout_id?: string;
+  local_data?: any;
+  trainerize_data?: any;
+}
+
+export interface ProgramSyncPreview {
+  program_id: string;
+  source_of_truth: SyncSourceOfTruth;
+  operations: ProgramSyncOperation[];
+  summary: {
+    to_push: number;
+    to_pull: number;
+    to_remove: number;
+    unchanged: number;
+  };
+}
+
+export interface ProgramSyncResult {
+  success: boolean;
+  operations_performed: ProgramSyncOperation[];
+  errors: Array<{ operation: ProgramSyncOperation; error: string }>;
+  summary: {
+    pushed: number;
+    pulled: number;
+    removed: number;
+    failed: number;
+  };
+}
+
+// Approved operations that a fresh preview no longer contains; the coach has to review again
+export class ProgramSyncStaleError extends Error {
+  constructor(public readonly operationIds: string[]) {
+    super(`Program changed since the preview; operations no longer apply: ${operationIds.join(', ')}`);
+    this.name = 'ProgramSyncStaleError';
+  }
+}
+
+const SYNC_ENTITY_ORDER: Record<ProgramSyncOperation['entity'], number> = {
+  plan: 0,
+  workout: 1,
+  exercises: 2
+};
+
+// Name suffix exportToTrainerize appends to each scheduled workout
+const IMPORTED_WORKOUT_SUFFIX = / - Week (\d+) Day (\d+)$/;
+
+export interface ProgramManagerOptions {
+  // Defaults to the admin client to bypass RLS
+  db?: DatabaseClient;
+  // Pass the connection's client along with connectionId
+  client?: TrainerizeClient;
+  // Trainerize connection the programs and workout templates belong to
+  connectionId?: string | null;
 }
 
 export class TrainerizeProgramManager {
+  private db: DatabaseClient;
   private trainerizeClient: TrainerizeClient;
-
-  constructor() {
-    this.trainerizeClient = new TrainerizeClient();
+  private workoutManager: TrainerizeWorkoutManager;
+  private connectionId: string | null;
+
+  constructor(options: ProgramManagerOptions = {}) {
+    this.db = options.db || supabaseAdmin;
+    this.trainerizeClient = options.client || new TrainerizeClient();
+    this.connectionId = options.connectionId || null;
+    this.workoutManager = new TrainerizeWorkoutManager({
+      db: this.db,
+      client: this.trainerizeClient,
+      connectionId: this.connectionId
+    });
   }
 
   // Program CRUD operations
   async createProgram(programData: Omit<Program, 'id' | 'created_at' | 'updated_at'>): Promise<Program> {
-    const { data, error } = await supabase
+    const { data, error } = await this.db
       .from('training_programs')
       .insert([{
         ...programData,
-        sync_status: 'pending'
+        sync_status: 'pending',
+        connection_id: this.connectionId
       }])
       .select()
       .single();
@@ -114,17 +223,20 @@ export class TrainerizeProgramManager {
       goals: data.goals || undefined,
       equipment_required: data.equipment_required || undefined,
       trainerize_program_id: data.trainerize_program_id || undefined,
+      trainerize_client_id: data.trainerize_client_id || undefined,
       sync_status: data.sync_status || undefined,
       synced_at: data.synced_at || undefined
     };
   }
 
   async getProgram(programId: string): Promise<Program | null> {
-    const { data, error } = await supabase
-      .from('training_programs')
-      .select('*')
-      .eq('id', programId)
-      .single();
+    const { data, error } = await scopeToConnection(
+      this.db
+        .from('training_programs')
+        .select('*')
+        .eq('id', programId),
+      this.connectionId
+    ).single();
 
     if (error) {
       if (error.code === 'PGRST116') return null; // Not found
@@ -139,13 +251,14 @@ export class TrainerizeProgramManager {
       goals: data.goals || undefined,
       equipment_required: data.equipment_required || undefined,
       trainerize_program_id: data.trainerize_program_id || undefined,
+      trainerize_client_id: data.trainerize_client_id || undefined,
       sync_status: data.sync_status || undefined,
       synced_at: data.synced_at || undefined
     };
   }
 
   async updateProgram(programId: string, updates: Partial<Program>): Promise<Program> {
-    const { data, error } = await supabase
+    const { data, error } = await this.db
       .from('training_programs')
       .update({
         ...updates,
@@ -167,6 +280,7 @@ export class TrainerizeProgramManager {
       goals: data.goals || undefined,
       equipment_required: data.equipment_required || undefined,
       trainerize_program_id: data.trainerize_program_id || undefined,
+      trainerize_client_id: data.trainerize_client_id || undefined,
       sync_status: data.sync_status || undefined,
       synced_at: data.synced_at || undefined
     };
@@ -174,13 +288,13 @@ export class TrainerizeProgramManager {
 
   async deleteProgram(programId: string): Promise<void> {
     // First delete related training plans
-    await supabase
+    await this.db
       .from('training_plans')
       .delete()
       .eq('program_id', programId);
 
     // Then delete the program
-    const { error } = await supabase
+    const { error } = await this.db
       .from('training_programs')
       .delete()
       .eq('id', programId);
@@ -191,10 +305,12 @@ export class TrainerizeProgramManager {
   }
 
   async getAllPrograms(): Promise<Program[]> {
-    const { data, error } = await supabase
-      .from('training_programs')
-      .select('*')
-      .order('created_at', { ascending: false });
+    const { data, error } = await scopeToConnection(
+      this.db
+        .from('training_programs')
+        .select('*'),
+      this.connectionId
+    ).order('created_at', { ascending: false });
 
     if (error) {
       throw new Error(`Failed to get programs: ${error.message}`);
@@ -208,6 +324,7 @@ export class TrainerizeProgramManager {
       goals: program.goals || undefined,
       equipment_required: program.equipment_required || undefined,
       trainerize_program_id: program.trainerize_program_id || undefined,
+      trainerize_client_id: program.trainerize_client_id || undefined,
       sync_status: program.sync_status || undefined,
       synced_at: program.synced_at || undefined
     }));
@@ -215,7 +332,7 @@ export class TrainerizeProgramManager {
 
   // Training plan management within programs
   async createTrainingPlan(planData: Omit<TrainingPlan, 'id' | 'created_at' | 'updated_at'>): Promise<TrainingPlan> {
-    const { data, error } = await supabase
+    const { data, error } = await this.db
       .from('training_plans')
       .insert([{
         ...planData,
@@ -237,7 +354,7 @@ export class TrainerizeProgramManager {
   }
 
   async getTrainingPlansForProgram(programId: string): Promise<TrainingPlan[]> {
-    const { data, error } = await supabase
+    const { data, error } = await this.db
       .from('training_plans')
       .select('*')
       .eq('program_id', programId)
@@ -257,7 +374,7 @@ export class TrainerizeProgramManager {
 
   // Calendar scheduling for workouts
   async scheduleWorkouts(trainingPlanId: string, workouts: Omit<PlanWorkout, 'id' | 'created_at'>[]): Promise<PlanWorkout[]> {
-    const { data, error } = await supabase
+    const { data, error } = await this.db
       .from('plan_workouts')
       .insert(workouts.map(workout => ({
         ...workout,
@@ -273,7 +390,7 @@ export class TrainerizeProgramManager {
   }
 
   async getScheduledWorkouts(trainingPlanId: string): Promise<PlanWorkout[]> {
-    const { data, error } = await supabase
+    const { data, error } = await this.db
       .from('plan_workouts')
       .select('*')
       .eq('training_plan_id', trainingPlanId)
@@ -290,7 +407,7 @@ export class TrainerizeProgramManager {
 
   // Client assignment to programs
   async assignClientToProgram(clientId: string, programId: string, startDate?: string): Promise<void> {
-    const { error } = await supabase
+    const { error } = await this.db
       .from('client_programs')
       .insert([{
         client_id: clientId,
@@ -305,7 +422,7 @@ export class TrainerizeProgramManager {
   }
 
   async getClientPrograms(clientId: string): Promise<any[]> {
-    const { data, error } = await supabase
+    const { data, error } = await this.db
       .from('client_programs')
       .select(`
         *,
@@ -369,7 +486,7 @@ export class TrainerizeProgramManager {
 
   private async getGenerationRules(assessment: ClientAssessment): Promise<GenerationRules> {
     // Try to get specific rules for this fitness level and goals
-    const { data, error } = await supabase
+    const { data, error } = await this.db
       .from('generation_rules')
       .select('*')
       .eq('fitness_level', assessment.fitnessLevel)
@@ -411,10 +528,12 @@ export class TrainerizeProgramManager {
 
   private async selectWorkoutsForProgram(assessment: ClientAssessment, rules: GenerationRules): Promise<Omit<PlanWorkout, 'id' | 'created_at'>[]> {
     // Get available workout templates (simplified - ignore equipment filtering for now)
-    const { data: workoutTemplates, error } = await supabase
-      .from('workout_templates')
-      .select('*')
-      .limit(10); // Get some templates to work with
+    const { data: workoutTemplates, error } = await scopeToConnection(
+      this.db
+        .from('workout_templates')
+        .select('*'),
+      this.connectionId
+    ).limit(10); // Get some templates to work with
 
     if (error) {
       throw new Error(`Failed to get workout templates: ${error.message}`);
@@ -481,9 +600,16 @@ export class TrainerizeProgramManager {
   }
 
   // Full sync with Trainerize API
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  // Plans and workouts that already carry a Trainerize ID are skipped, so calling
+  // this again after a partial failure only retries what is still outstanding.
   async exportToTrainerize(programId: string, clientId: string): Promise<ExportResult> {
+    const userID = parseInt(clientId);
+
     try {
+      if (isNaN(userID)) {
+        throw new Error('Client ID must be a numeric Trainerize user ID');
+      }
+
       const program = await this.getProgram(programId);
       if (!program) {
         throw new Error('Program not found');
@@ -494,35 +620,36 @@ export class TrainerizeProgramManager {
         throw new Error('No training plans found for program');
       }
 
-      // Export to Trainerize (this would need actual Trainerize API implementation)
-      // const trainerizeProgramData = {
-      //   name: program.name,
-      //   description: program.description,
-      //   clientId: clientId,
-      //   durationWeeks: program.duration_weeks
-      // };
+      const planResults: PlanExportResult[] = [];
+      for (const plan of trainingPlans) {
+        planResults.push(await this.exportTrainingPlan(program, plan, userID));
+      }
 
-      // For now, simulate the export
-      const trainerizeProgramId = `trainerize_${Date.now()}`;
-      
-      // Update program with Trainerize ID
+      const exportedWorkouts = planResults.reduce((sum, p) => sum + p.exportedWorkouts, 0);
+      const failedWorkouts = planResults.reduce((sum, p) => sum + p.failedWorkouts, 0);
+      const planFailures = planResults.filter(p => !p.trainerizePlanId).length;
+      const trainerizeProgramId = program.trainerize_program_id
+        || planResults.find(p => p.trainerizePlanId)?.trainerizePlanId;
+
+      let syncStatus: ExportResult['syncStatus'] = 'success';
+      if (failedWorkouts > 0 || planFailures > 0) {
+        syncStatus = exportedWorkouts > 0 || planFailures < planResults.length ? 'partial' : 'error';
+      }
+
+      // A partial export stays 'pending' so it is picked up again on retry
       await this.updateProgram(programId, {
         trainerize_program_id: trainerizeProgramId,
-        sync_status: 'synced',
-        synced_at: new Date().toISOString()
+        trainerize_client_id: clientId,
+        sync_status: syncStatus === 'success' ? 'synced' : syncStatus === 'partial' ? 'pending' : 'error',
+        ...(syncStatus === 'success' && { synced_at: new Date().toISOString() })
       });
 
-      // Count exported workouts
-      let exportedWorkouts = 0;
-      for (const plan of trainingPlans) {
-        const workouts = await this.getScheduledWorkouts(plan.id);
-        exportedWorkouts += workouts.filter(w => !w.rest_day).length;
-      }
-
       return {
-        trainerizeProgramId,
+        trainerizeProgramId: trainerizeProgramId || '',
         exportedWorkouts,
-        syncStatus: 'success'
+        failedWorkouts,
+        syncStatus,
+        plans: planResults
       };
     } catch (error: any) {
       // Update sync status to error
@@ -534,37 +661,497 @@ export class TrainerizeProgramManager {
     }
   }
 
-  async importFromTrainerize(trainerizeProgramId: string): Promise<Program> {
-    // This would implement importing a program from Trainerize
-    // For now, create a placeholder
-    const program = await this.createProgram({
-      name: `Imported Program ${trainerizeProgramId}`,
-      description: `Program imported from Trainerize ID: ${trainerizeProgramId}`,
-      trainerize_program_id: trainerizeProgramId,
-      sync_status: 'synced',
-      synced_at: new Date().toISOString()
+  private async exportTrainingPlan(program: Program, plan: TrainingPlan, userID: number): Promise<PlanExportResult> {
+    const result: PlanExportResult = {
+      trainingPlanId: plan.id,
+      trainerizePlanId: plan.trainerize_plan_id,
+      exportedWorkouts: 0,
+      failedWorkouts: 0
+    };
+
+    const workouts = (await this.getScheduledWorkouts(plan.id))
+      .filter(w => !w.rest_day && w.workout_template_id);
+
+    if (!result.trainerizePlanId) {
+      try {
+        const trainerizePlanId = await this.trainerizeClient.addTrainingPlan(userID, {
+          name: plan.name,
+          instruction: program.description,
+          startDate: new Date().toISOString().split('T')[0],
+          durationType: 'week',
+          duration: plan.duration_weeks
+        });
+        result.trainerizePlanId = trainerizePlanId.toString();
+
+        await this.updateTrainingPlanSync(plan.id, {
+          trainerize_plan_id: result.trainerizePlanId,
+          sync_status: 'pending'
+        });
+      } catch (error: any) {
+        await this.updateTrainingPlanSync(plan.id, { sync_status: 'error' });
+        result.failedWorkouts = workouts.filter(w => w.sync_status !== 'synced').length;
+        result.error = error.message;
+        return result;
+      }
+    }
+
+    for (const workout of workouts) {
+      if (workout.sync_status === 'synced' && workout.trainerize_workout_id) {
+        result.exportedWorkouts++;
+        continue;
+      }
+
+      try {
+        await this.exportPlanWorkout(workout, parseInt(result.trainerizePlanId!), userID);
+        result.exportedWorkouts++;
+      } catch {
+        result.failedWorkouts++;
+      }
+    }
+
+    await this.updateTrainingPlanSync(plan.id, {
+      sync_status: result.failedWorkouts === 0 ? 'synced' : 'error',
+      ...(result.failedWorkouts === 0 && { synced_at: new Date().toISOString() })
     });
 
-    return program;
+    return result;
   }
 
-  async syncProgramWithTrainerize(programId: string): Promise<void> {
+  // Add one scheduled workout to a Trainerize plan and record the outcome on the row
+  private async exportPlanWorkout(workout: PlanWorkout, trainerizePlanId: number, userID: number): Promise<string> {
     try {
-      const program = await this.getProgram(programId);
-      if (!program) {
-        throw new Error('Program not found');
+      const request = await this.workoutManager.createWorkoutFromTemplate(workout.workout_template_id!);
+      const response = await this.workoutManager.addWorkout({
+        ...request,
+        type: 'trainingPlan',
+        userID,
+        trainingPlanID: trainerizePlanId,
+        workoutDef: {
+          ...request.workoutDef,
+          name: `${request.workoutDef.name} - Week ${workout.week_number} Day ${workout.day_of_week}`
+        }
+      });
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to add workout');
       }
 
-      if (!program.trainerize_program_id) {
-        throw new Error('Program not linked to Trainerize');
+      await this.updatePlanWorkoutSync(workout.id, {
+        trainerize_workout_id: response.workoutId.toString(),
+        sync_status: 'synced',
+        sync_error: null,
+        synced_at: new Date().toISOString()
+      });
+
+      return response.workoutId.toString();
+    } catch (error: any) {
+      await this.updatePlanWorkoutSync(workout.id, {
+        sync_status: 'error',
+        sync_error: error.message
+      });
+      throw error;
+    }
+  }
+
+  private async updateTrainingPlanSync(
+    trainingPlanId: string,
+    updates: Pick<Partial<TrainingPlan>, 'trainerize_plan_id' | 'sync_status' | 'synced_at'>
+  ): Promise<void> {
+    const { error } = await this.db
+      .from('training_plans')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', trainingPlanId);
+
+    if (error) {
+      throw new Error(`Failed to update training plan: ${error.message}`);
+    }
+  }
+
+  private async updatePlanWorkoutSync(
+    planWorkoutId: string,
+    updates: Pick<PlanWorkout, 'sync_status' | 'sync_error' | 'trainerize_workout_id' | 'synced_at'>
+  ): Promise<void> {
+    const { error } = await this.db
+      .from('plan_workouts')
+      .update(updates)
+      .eq('id', planWorkoutId);
+
+    if (error) {
+      console.error(`Failed to record export status for plan workout ${planWorkoutId}:`, error);
+    }
+  }
+
+  // Mirror a client's Trainerize training plans into a local program. Re-importing the
+  // same client updates the existing program and replaces each plan's schedule.
+  async importFromTrainerize(clientId: string): Promise<ImportResult> {
+    const userID = parseInt(clientId);
+    if (isNaN(userID)) {
+      throw new Error('Client ID must be a numeric Trainerize user ID');
+    }
+
+    const trainerizePlans = await this.fetchTrainerizePlans(userID);
+    if (trainerizePlans.length === 0) {
+      throw new Error(`No training plans found in Trainerize for client ${clientId}`);
+    }
+
+    const program = await this.findOrCreateImportedProgram(clientId, trainerizePlans);
+    const result: ImportResult = {
+      program,
+      trainingPlans: [],
+      importedWorkouts: 0,
+      importedTemplates: 0,
+      importedExercises: 0
+    };
+    const templateIds = new Map<string, string>();
+
+    for (const trainerizePlan of trainerizePlans) {
+      const imported = await this.importTrainerizePlan(program.id, trainerizePlan, templateIds);
+      result.trainingPlans.push(imported.plan);
+      result.importedWorkouts += imported.importedWorkouts;
+      result.importedExercises += imported.importedExercises;
+    }
+
+    result.importedTemplates = templateIds.size;
+    result.program = await this.updateProgram(program.id, {
+      duration_weeks: Math.max(...result.trainingPlans.map(plan => plan.duration_weeks)),
+      sync_status: 'synced',
+      synced_at: new Date().toISOString()
+    });
+
+    return result;
+  }
+
+  // Materialize one Trainerize plan (workouts, templates and exercises) under a local program
+  private async importTrainerizePlan(
+    programId: string,
+    trainerizePlan: any,
+    templateIds: Map<string, string> = new Map()
+  ): Promise<{ plan: TrainingPlan; importedWorkouts: number; importedExercises: number }> {
+    // A failed fetch throws before the local schedule below is replaced
+    const definitions = await this.fetchTrainerizeWorkoutDefs(trainerizePlan.id);
+
+    const importedExercises = await this.importReferencedExercises(definitions);
+
+    const placements = this.placeImportedWorkouts(definitions, this.getPlanDurationWeeks(trainerizePlan));
+    const durationWeeks = Math.max(1, ...placements.map(p => p.week_number));
+    const workoutsPerWeek = Math.max(1, ...placements.map(p =>
+      placements.filter(other => other.week_number === p.week_number).length
+    ));
+
+    const plan = await this.saveImportedPlan(programId, trainerizePlan, durationWeeks, workoutsPerWeek);
+
+    const schedule: Omit<PlanWorkout, 'id' | 'created_at'>[] = [];
+    for (const placement of placements) {
+      const trainerizeWorkoutId = String(placement.definition.id);
+      if (!templateIds.has(trainerizeWorkoutId)) {
+        templateIds.set(trainerizeWorkoutId, await this.saveImportedTemplate(placement.definition));
       }
 
-      // Implement sync logic here
-      // For now, just update sync timestamp
-      await this.updateProgram(programId, {
+      schedule.push({
+        training_plan_id: plan.id,
+        workout_template_id: templateIds.get(trainerizeWorkoutId)!,
+        day_of_week: placement.day_of_week,
+        week_number: placement.week_number,
+        order_in_day: placement.order_in_day,
+        rest_day: false,
+        trainerize_workout_id: trainerizeWorkoutId,
         sync_status: 'synced',
         synced_at: new Date().toISOString()
       });
+    }
+
+    // Replace the local schedule with the one from Trainerize
+    const { error: deleteError } = await this.db
+      .from('plan_workouts')
+      .delete()
+      .eq('training_plan_id', plan.id);
+
+    if (deleteError) {
+      throw new Error(`Failed to clear schedule for training plan: ${deleteError.message}`);
+    }
+
+    if (schedule.length > 0) {
+      await this.scheduleWorkouts(plan.id, schedule);
+    }
+
+    return { plan, importedWorkouts: schedule.length, importedExercises };
+  }
+
+  private async findOrCreateImportedProgram(clientId: string, trainerizePlans: any[]): Promise<Program> {
+    const { data: linkedPlans, error } = await this.db
+      .from('training_plans')
+      .select('program_id')
+      .in('trainerize_plan_id', trainerizePlans.map(plan => String(plan.id)));
+
+    if (error) {
+      throw new Error(`Failed to look up imported training plans: ${error.message}`);
+    }
+
+    // Trainerize plan IDs are only unique within a group; plans are scoped through their program
+    const programIds = Array.from(new Set((linkedPlans || []).map(plan => plan.program_id)));
+    if (programIds.length > 0) {
+      const { data: programs, error: programError } = await scopeToConnection(
+        this.db
+          .from('training_programs')
+          .select('id')
+          .in('id', programIds),
+        this.connectionId
+      ).limit(1);
+
+      if (programError) {
+        throw new Error(`Failed to look up imported program: ${programError.message}`);
+      }
+
+      const existing = programs && programs.length > 0 ? await this.getProgram(programs[0].id) : null;
+      if (existing) return existing;
+    }
+
+    return this.createProgram({
+      name: trainerizePlans.length === 1
+        ? trainerizePlans[0].name || `Trainerize Plan ${trainerizePlans[0].id}`
+        : `Trainerize Program for Client ${clientId}`,
+      description: trainerizePlans[0].instruction || `Imported from Trainerize for client ${clientId}`,
+      trainerize_program_id: String(trainerizePlans[0].id),
+      trainerize_client_id: clientId
+    });
+  }
+
+  private async saveImportedPlan(
+    programId: string,
+    trainerizePlan: any,
+    durationWeeks: number,
+    workoutsPerWeek: number
+  ): Promise<TrainingPlan> {
+    const trainerizePlanId = String(trainerizePlan.id);
+    const planFields = {
+      program_id: programId,
+      name: trainerizePlan.name || `Trainerize Plan ${trainerizePlanId}`,
+      duration_weeks: durationWeeks,
+      workouts_per_week: workoutsPerWeek
+    };
+
+    // Plans are scoped through their program
+    const { data: existing } = await this.db
+      .from('training_plans')
+      .select('id')
+      .eq('program_id', programId)
+      .eq('trainerize_plan_id', trainerizePlanId)
+      .limit(1);
+
+    const planId = existing && existing.length > 0
+      ? existing[0].id
+      : (await this.createTrainingPlan(planFields)).id;
+
+    const { data, error } = await this.db
+      .from('training_plans')
+      .update({
+        ...planFields,
+        trainerize_plan_id: trainerizePlanId,
+        sync_status: 'synced',
+        synced_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', planId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save imported training plan: ${error.message}`);
+    }
+
+    return {
+      ...data,
+      trainerize_plan_id: data.trainerize_plan_id || undefined,
+      sync_status: data.sync_status || undefined,
+      synced_at: data.synced_at || undefined
+    };
+  }
+
+  private async saveImportedTemplate(definition: any): Promise<string> {
+    const exercises = definition.exercises || [];
+    const templateFields = {
+      trainerize_id: String(definition.id),
+      name: String(definition.name || `Workout ${definition.id}`).replace(IMPORTED_WORKOUT_SUFFIX, ''),
+      workout_type: definition.type || null,
+      instructions: definition.instructions || null,
+      exercises,
+      exercise_count: exercises.length,
+      total_sets: exercises.reduce((sum: number, ex: any) => sum + ((ex.def || ex).sets || 0), 0),
+      tags: definition.tags || [],
+      tracking_stats: definition.trackingStats || {},
+      metadata: definition,
+      sync_status: 'synced' as const,
+      synced_at: new Date().toISOString(),
+      connection_id: this.connectionId
+    };
+
+    const { data: existing } = await scopeToConnection(
+      this.db
+        .from('workout_templates')
+        .select('id')
+        .eq('trainerize_id', templateFields.trainerize_id),
+      this.connectionId
+    ).limit(1);
+
+    if (existing && existing.length > 0) {
+      const { error } = await this.db
+        .from('workout_templates')
+        .update({ ...templateFields, updated_at: new Date().toISOString() })
+        .eq('id', existing[0].id);
+
+      if (error) {
+        throw new Error(`Failed to update workout template: ${error.message}`);
+      }
+      return existing[0].id;
+    }
+
+    const { data, error } = await this.db
+      .from('workout_templates')
+      .insert([templateFields])
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create workout template: ${error.message}`);
+    }
+
+    return data.id;
+  }
+
+  // Create local rows for exercises the workouts reference but we haven't synced yet
+  private async importReferencedExercises(definitions: any[]): Promise<number> {
+    const referenced = new Map<string, any>();
+    for (const definition of definitions) {
+      for (const entry of definition.exercises || []) {
+        const exercise = entry.def || entry;
+        if (exercise.id && exercise.name) {
+          referenced.set(String(exercise.id), exercise);
+        }
+      }
+    }
+
+    if (referenced.size === 0) return 0;
+
+    const { data: existing, error } = await scopeToConnection(
+      this.db
+        .from('exercises')
+        .select('trainerize_id')
+        .in('trainerize_id', Array.from(referenced.keys())),
+      this.connectionId
+    );
+
+    if (error) {
+      throw new Error(`Failed to look up referenced exercises: ${error.message}`);
+    }
+
+    // Exercises merged into another resolve to the survivor, not to a fresh copy of the duplicate
+    const redirects = await new ExerciseMerges(this.db).getRedirects(this.connectionId);
+    const known = new Set([...(existing || []).map(ex => ex.trainerize_id), ...redirects.keys()]);
+    const missing = Array.from(referenced.entries())
+      .filter(([trainerizeId]) => !known.has(trainerizeId))
+      .map(([trainerizeId, exercise]) => ({
+        trainerize_id: trainerizeId,
+        name: exercise.name,
+        description: exercise.description || null,
+        category: exercise.recordType || null,
+        is_active: true,
+        sync_status: 'synced' as const,
+        synced_at: new Date().toISOString(),
+        metadata: exercise,
+        connection_id: this.connectionId
+      }));
+
+    if (missing.length === 0) return 0;
+
+    const { error: insertError } = await this.db
+      .from('exercises')
+      .insert(missing);
+
+    if (insertError) {
+      throw new Error(`Failed to import referenced exercises: ${insertError.message}`);
+    }
+
+    return missing.length;
+  }
+
+  private getPlanDurationWeeks(trainerizePlan: any): number | null {
+    const duration = Number(trainerizePlan.duration);
+    if (trainerizePlan.durationType === 'week' && duration > 0) return duration;
+    if (trainerizePlan.durationType === 'month' && duration > 0) return duration * 4;
+
+    if (trainerizePlan.startDate && trainerizePlan.endDate) {
+      const days = (new Date(trainerizePlan.endDate).getTime() - new Date(trainerizePlan.startDate).getTime()) / 86400000;
+      if (days > 0) return Math.ceil(days / 7);
+    }
+
+    return null;
+  }
+
+  // Work out where each Trainerize workout sits in the week grid. Explicit week/day fields
+  // win, then the suffix exportToTrainerize adds to names; anything left is treated as a
+  // weekly rotation repeated for the length of the plan.
+  private placeImportedWorkouts(
+    definitions: any[],
+    durationWeeks: number | null
+  ): Array<{ definition: any; week_number: number; day_of_week: number; order_in_day: number }> {
+    const placements: Array<{ definition: any; week_number: number; day_of_week: number; order_in_day: number }> = [];
+    const unplaced: any[] = [];
+
+    for (const definition of definitions) {
+      if (!definition?.id) continue;
+
+      const suffix = String(definition.name || '').match(IMPORTED_WORKOUT_SUFFIX);
+      const week = Number(definition.week ?? definition.weekNumber ?? suffix?.[1]);
+      const day = Number(definition.day ?? definition.dayOfWeek ?? suffix?.[2]);
+
+      if (week >= 1 && day >= 1 && day <= 7) {
+        placements.push({ definition, week_number: week, day_of_week: day, order_in_day: 1 });
+      } else {
+        unplaced.push(definition);
+      }
+    }
+
+    if (unplaced.length > 0) {
+      const weeks = durationWeeks || 1;
+      if (unplaced.length <= 7) {
+        for (let week = 1; week <= weeks; week++) {
+          unplaced.forEach((definition, index) => {
+            placements.push({ definition, week_number: week, day_of_week: index + 1, order_in_day: 1 });
+          });
+        }
+      } else {
+        unplaced.forEach((definition, index) => {
+          placements.push({
+            definition,
+            week_number: Math.floor(index / 7) + 1,
+            day_of_week: (index % 7) + 1,
+            order_in_day: 1
+          });
+        });
+      }
+    }
+
+    // Several workouts on the same day are ordered as they came from Trainerize
+    placements.sort((a, b) => a.week_number - b.week_number || a.day_of_week - b.day_of_week);
+    for (let i = 1; i < placements.length; i++) {
+      const previous = placements[i - 1];
+      if (previous.week_number === placements[i].week_number && previous.day_of_week === placements[i].day_of_week) {
+        placements[i].order_in_day = previous.order_in_day + 1;
+      }
+    }
+
+    return placements;
+  }
+
+  // Two-way sync: preview the structural diff, then apply every operation in it.
+  // Use previewProgramSync/performProgramSync directly to let a coach review first.
+  async syncProgramWithTrainerize(programId: string, options: ProgramSyncOptions = {}): Promise<ProgramSyncResult> {
+    try {
+      const preview = await this.previewProgramSync(programId, options);
+      return await this.performProgramSync(programId, preview.operations);
     } catch (error: any) {
       await this.updateProgram(programId, {
         sync_status: 'error'
@@ -573,6 +1160,483 @@ export class TrainerizeProgramManager {
     }
   }
 
+  async previewProgramSync(programId: string, options: ProgramSyncOptions = {}): Promise<ProgramSyncPreview> {
+    const { sourceOfTruth = 'local', allowRemovals = false } = options;
+    const { userID } = await this.getLinkedProgram(programId);
+
+    const localPlans = await this.getTrainingPlansForProgram(programId);
+    const remotePlans = await this.fetchTrainerizePlans(userID);
+    const remoteById = new Map(remotePlans.map(plan => [String(plan.id), plan]));
+
+    const operations: ProgramSyncOperation[] = [];
+    let unchanged = 0;
+
+    for (const plan of localPlans) {
+      if (!plan.trainerize_plan_id) {
+        operations.push(this.planOperation('create', 'push', plan, undefined, `Create plan "${plan.name}" in Trainerize`));
+        continue;
+      }
+
+      const remote = remoteById.get(plan.trainerize_plan_id);
+      remoteById.delete(plan.trainerize_plan_id);
+
+      if (!remote) {
+        if (sourceOfTruth === 'local') {
+          operations.push(this.planOperation('create', 'push', plan, undefined, `Recreate plan "${plan.name}" missing from Trainerize`));
+        } else if (allowRemovals) {
+          operations.push(this.planOperation('remove', 'pull', plan, undefined, `Remove plan "${plan.name}" deleted in Trainerize`));
+        }
+        continue;
+      }
+
+      const remoteWeeks = this.getPlanDurationWeeks(remote);
+      if ((remote.name && remote.name !== plan.name) || (remoteWeeks && remoteWeeks !== plan.duration_weeks)) {
+        operations.push(sourceOfTruth === 'local'
+          ? this.planOperation('update', 'push', plan, remote, `Update plan "${remote.name}" in Trainerize to "${plan.name}"`)
+          : this.planOperation('update', 'pull', plan, remote, `Update plan "${plan.name}" from Trainerize "${remote.name}"`));
+      } else {
+        unchanged++;
+      }
+
+      const workoutDiff = await this.diffPlanWorkouts(plan, sourceOfTruth, allowRemovals);
+      operations.push(...workoutDiff.operations);
+      unchanged += workoutDiff.unchanged;
+    }
+
+    // Plans the client has in Trainerize that no local program owns yet. They are only
+    // ever pulled, never removed: they may belong to something the coach built by hand.
+    if (sourceOfTruth === 'trainerize' && remoteById.size > 0) {
+      const { data: linkedElsewhere } = await this.db
+        .from('training_plans')
+        .select('trainerize_plan_id')
+        .in('trainerize_plan_id', Array.from(remoteById.keys()));
+
+      const owned = new Set((linkedElsewhere || []).map(plan => plan.trainerize_plan_id));
+      for (const [trainerizePlanId, remote] of remoteById) {
+        if (owned.has(trainerizePlanId)) continue;
+        operations.push(this.planOperation('create', 'pull', undefined, remote, `Import plan "${remote.name}" from Trainerize`));
+      }
+    }
+
+    return {
+      program_id: programId,
+      source_of_truth: sourceOfTruth,
+      operations,
+      summary: {
+        to_push: operations.filter(op => op.direction === 'push' && op.action !== 'remove').length,
+        to_pull: operations.filter(op => op.direction === 'pull' && op.action !== 'remove').length,
+        to_remove: operations.filter(op => op.action === 'remove').length,
+        unchanged
+      }
+    };
+  }
+
+  // Apply the operations a coach approved from previewProgramSync. Only their ids are taken
+  // from the caller: the preview is recomputed and its own operations are applied, so an
+  // operation can't target entities outside the program. Throws ProgramSyncStaleError when
+  // an approved id is no longer in the preview.
+  async performReviewedProgramSync(
+    programId: string,
+    operationIds: string[],
+    options: ProgramSyncOptions = {}
+  ): Promise<ProgramSyncResult> {
+    const preview = await this.previewProgramSync(programId, options);
+    const approved = new Set(operationIds);
+    const current = new Set(preview.operations.map(op => op.id));
+
+    const stale = operationIds.filter(id => !current.has(id));
+    if (stale.length > 0) {
+      throw new ProgramSyncStaleError(stale);
+    }
+
+    return this.performProgramSync(programId, preview.operations.filter(op => approved.has(op.id)));
+  }
+
+  private async performProgramSync(programId: string, operations: ProgramSyncOperation[]): Promise<ProgramSyncResult> {
+    const { program, userID } = await this.getLinkedProgram(programId);
+
+    const result: ProgramSyncResult = {
+      success: true,
+      operations_performed: [],
+      errors: [],
+      summary: {
+        pushed: 0,
+        pulled: 0,
+        removed: 0,
+        failed: 0
+      }
+    };
+
+    // Plans go first so workout operations see Trainerize IDs of freshly created plans
+    const ordered = [...operations].sort((a, b) => SYNC_ENTITY_ORDER[a.entity] - SYNC_ENTITY_ORDER[b.entity]);
+
+    for (const operation of ordered) {
+      try {
+        await this.applyProgramSyncOperation(program, userID, operation);
+
+        if (operation.action === 'remove') {
+          result.summary.removed++;
+        } else if (operation.direction === 'push') {
+          result.summary.pushed++;
+        } else {
+          result.summary.pulled++;
+        }
+        result.operations_performed.push(operation);
+      } catch (error) {
+        console.error(`Error applying program sync operation ${operation.id}:`, error);
+        result.errors.push({
+          operation,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        result.summary.failed++;
+        result.success = false;
+      }
+    }
+
+    await this.updateProgram(programId, {
+      sync_status: result.success ? 'synced' : result.operations_performed.length > 0 ? 'pending' : 'error',
+      ...(result.success && { synced_at: new Date().toISOString() })
+    });
+
+    return result;
+  }
+
+  private async applyProgramSyncOperation(
+    program: Program,
+    userID: number,
+    operation: ProgramSyncOperation
+  ): Promise<void> {
+    const key = `${operation.entity}:${operation.action}:${operation.direction}`;
+
+    switch (key) {
+      case 'plan:create:push': {
+        const plan: TrainingPlan = operation.local_data;
+        if (plan.trainerize_plan_id) {
+          // Plan was deleted in Trainerize: drop the stale links before exporting again
+          const { error: planError } = await this.db
+            .from('training_plans')
+            .update({ trainerize_plan_id: null })
+            .eq('id', plan.id);
+          if (planError) {
+            throw new Error(`Failed to unlink training plan: ${planError.message}`);
+          }
+
+          const { error: workoutsError } = await this.db
+            .from('plan_workouts')
+            .update({ trainerize_workout_id: null, sync_status: 'pending' })
+            .eq('training_plan_id', plan.id);
+          if (workoutsError) {
+            throw new Error(`Failed to unlink scheduled workouts: ${workoutsError.message}`);
+          }
+        }
+
+        const exported = await this.exportTrainingPlan(program, { ...plan, trainerize_plan_id: undefined }, userID);
+        if (exported.error || exported.failedWorkouts > 0) {
+          throw new Error(exported.error || `${exported.failedWorkouts} workouts failed to export`);
+        }
+        return;
+      }
+
+      case 'plan:create:pull':
+        await this.importTrainerizePlan(program.id, operation.trainerize_data);
+        return;
+
+      case 'plan:update:push': {
+        const plan: TrainingPlan = operation.local_data;
+        await this.trainerizeClient.updateTrainingPlan(parseInt(operation.trainerize_plan_id!), {
+          name: plan.name,
+          durationType: 'week',
+          duration: plan.duration_weeks
+        });
+        await this.updateTrainingPlanSync(plan.id, { sync_status: 'synced', synced_at: new Date().toISOString() });
+        return;
+      }
+
+      case 'plan:update:pull': {
+        const remote = operation.trainerize_data;
+        const { error } = await this.db
+          .from('training_plans')
+          .update({
+            name: remote.name,
+            duration_weeks: this.getPlanDurationWeeks(remote) || operation.local_data.duration_weeks,
+            sync_status: 'synced',
+            synced_at: new Date().toISOString(),
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', operation.training_plan_id!);
+
+        if (error) {
+          throw new Error(`Failed to update training plan: ${error.message}`);
+        }
+        return;
+      }
+
+      case 'plan:remove:pull': {
+        const { error } = await this.db
+          .from('training_plans')
+          .delete()
+          .eq('id', operation.training_plan_id!);
+
+        if (error) {
+          throw new Error(`Failed to remove training plan: ${error.message}`);
+        }
+        return;
+      }
+
+      case 'workout:create:push': {
+        const { data: plan } = await this.db
+          .from('training_plans')
+          .select('trainerize_plan_id')
+          .eq('id', operation.training_plan_id!)
+          .single();
+
+        if (!plan?.trainerize_plan_id) {
+          throw new Error('Training plan is not linked to Trainerize');
+        }
+
+        await this.exportPlanWorkout(operation.local_data, parseInt(plan.trainerize_plan_id), userID);
+        return;
+      }
+
+      case 'workout:create:pull':
+        await this.pullPlanWorkout(operation.training_plan_id!, operation.trainerize_data);
+        return;
+
+      case 'workout:remove:push':
+        await this.trainerizeClient.deleteWorkoutDefinition(parseInt(operation.trainerize_workout_id!));
+        return;
+
+      case 'workout:remove:pull': {
+        const { error } = await this.db
+          .from('plan_workouts')
+          .delete()
+          .eq('id', operation.plan_workout_id!);
+
+        if (error) {
+          throw new Error(`Failed to remove scheduled workout: ${error.message}`);
+        }
+        return;
+      }
+
+      case 'exercises:update:push':
+        await this.trainerizeClient.makeRequest('/workoutDef/set', {
+          workoutDef: {
+            ...operation.local_data,
+            id: parseInt(operation.trainerize_workout_id!),
+            name: operation.trainerize_data.name
+          }
+        });
+        await this.updatePlanWorkoutSync(operation.plan_workout_id!, {
+          trainerize_workout_id: operation.trainerize_workout_id!,
+          sync_status: 'synced',
+          sync_error: null,
+          synced_at: new Date().toISOString()
+        });
+        return;
+
+      case 'exercises:update:pull': {
+        // Templates are shared, so every plan using this one picks up the change
+        const exercises = operation.trainerize_data.exercises || [];
+        const { error } = await this.db
+          .from('workout_templates')
+          .update({
+            exercises,
+            exercise_count: exercises.length,
+            total_sets: exercises.reduce((sum: number, ex: any) => sum + ((ex.def || ex).sets || 0), 0),
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', operation.workout_template_id!);
+
+        if (error) {
+          throw new Error(`Failed to update workout template: ${error.message}`);
+        }
+        return;
+      }
+
+      default:
+        throw new Error(`Unsupported program sync operation: ${key}`);
+    }
+  }
+
+  private async diffPlanWorkouts(
+    plan: TrainingPlan,
+    sourceOfTruth: SyncSourceOfTruth,
+    allowRemovals: boolean
+  ): Promise<{ operations: ProgramSyncOperation[]; unchanged: number }> {
+    const operations: ProgramSyncOperation[] = [];
+    let unchanged = 0;
+
+    const localWorkouts = (await this.getScheduledWorkouts(plan.id))
+      .filter(w => !w.rest_day && w.workout_template_id);
+    const remoteDefs = await this.fetchTrainerizeWorkoutDefs(parseInt(plan.trainerize_plan_id!));
+    const remoteById = new Map(remoteDefs.map(def => [String(def.id), def]));
+    // Imported plans schedule the same definition in several weeks, so a remote workout
+    // stays matchable after the first local row that points at it
+    const matchedRemoteIds = new Set<string>();
+    const localDefs = new Map<string, WorkoutDefinition>();
+
+    const base = {
+      entity: 'workout' as const,
+      training_plan_id: plan.id,
+      trainerize_plan_id: plan.trainerize_plan_id
+    };
+
+    for (const workout of localWorkouts) {
+      const label = `week ${workout.week_number} day ${workout.day_of_week}`;
+      const workoutBase = {
+        ...base,
+        plan_workout_id: workout.id,
+        workout_template_id: workout.workout_template_id!,
+        trainerize_workout_id: workout.trainerize_workout_id || undefined
+      };
+
+      if (!workout.trainerize_workout_id) {
+        operations.push({ ...workoutBase, id: `workout:create:${workout.id}`, action: 'create', direction: 'push', description: `Add ${label} workout to "${plan.name}" in Trainerize`, local_data: workout });
+        continue;
+      }
+
+      const remote = remoteById.get(workout.trainerize_workout_id);
+      matchedRemoteIds.add(workout.trainerize_workout_id);
+
+      if (!remote) {
+        if (sourceOfTruth === 'local') {
+          operations.push({ ...workoutBase, id: `workout:create:${workout.id}`, action: 'create', direction: 'push', description: `Re-add ${label} workout missing from Trainerize`, local_data: workout });
+        } else if (allowRemovals) {
+          operations.push({ ...workoutBase, id: `workout:remove:${workout.id}`, action: 'remove', direction: 'pull', description: `Remove ${label} workout deleted in Trainerize`, local_data: workout });
+        }
+        continue;
+      }
+
+      if (!localDefs.has(workout.workout_template_id!)) {
+        const request = await this.workoutManager.createWorkoutFromTemplate(workout.workout_template_id!);
+        localDefs.set(workout.workout_template_id!, request.workoutDef);
+      }
+      const localDef = localDefs.get(workout.workout_template_id!)!;
+
+      if (this.workoutExercisesKey(localDef.exercises) === this.workoutExercisesKey(remote.exercises)) {
+        unchanged++;
+        continue;
+      }
+
+      operations.push({
+        ...workoutBase,
+        entity: 'exercises',
+        id: `exercises:update:${workout.id}`,
+        action: 'update',
+        direction: sourceOfTruth === 'local' ? 'push' : 'pull',
+        description: sourceOfTruth === 'local'
+          ? `Push exercise changes for "${remote.name}" to Trainerize`
+          : `Pull exercise changes for "${remote.name}" into "${localDef.name}"`,
+        local_data: localDef,
+        trainerize_data: remote
+      });
+    }
+
+    // Workout definitions inside a linked plan that no local row points at
+    for (const [trainerizeWorkoutId, remote] of remoteById) {
+      if (matchedRemoteIds.has(trainerizeWorkoutId)) continue;
+      if (sourceOfTruth === 'trainerize') {
+        operations.push({ ...base, id: `workout:create:tz_${trainerizeWorkoutId}`, action: 'create', direction: 'pull', trainerize_workout_id: trainerizeWorkoutId, description: `Import workout "${remote.name}" into "${plan.name}"`, trainerize_data: remote });
+      } else if (allowRemovals) {
+        operations.push({ ...base, id: `workout:remove:tz_${trainerizeWorkoutId}`, action: 'remove', direction: 'push', trainerize_workout_id: trainerizeWorkoutId, description: `Remove workout "${remote.name}" from Trainerize`, trainerize_data: remote });
+      }
+    }
+
+    return { operations, unchanged };
+  }
+
+  // Schedule a workout that only exists in Trainerize into a local plan
+  private async pullPlanWorkout(trainingPlanId: string, definition: any): Promise<void> {
+    const { data: plan } = await this.db
+      .from('training_plans')
+      .select('duration_weeks')
+      .eq('id', trainingPlanId)
+      .single();
+
+    await this.importReferencedExercises([definition]);
+    const templateId = await this.saveImportedTemplate(definition);
+    const existing = await this.getScheduledWorkouts(trainingPlanId);
+
+    const schedule = this.placeImportedWorkouts([definition], plan?.duration_weeks || 1).map(placement => ({
+      training_plan_id: trainingPlanId,
+      workout_template_id: templateId,
+      day_of_week: placement.day_of_week,
+      week_number: placement.week_number,
+      // Slot after whatever is already scheduled that day
+      order_in_day: 1 + Math.max(0, ...existing
+        .filter(w => w.week_number === placement.week_number && w.day_of_week === placement.day_of_week)
+        .map(w => w.order_in_day)),
+      rest_day: false,
+      trainerize_workout_id: String(definition.id),
+      sync_status: 'synced' as const,
+      synced_at: new Date().toISOString()
+    }));
+
+    await this.scheduleWorkouts(trainingPlanId, schedule);
+  }
+
+  private planOperation(
+    action: ProgramSyncOperation['action'],
+    direction: ProgramSyncOperation['direction'],
+    plan: TrainingPlan | undefined,
+    remote: any,
+    description: string
+  ): ProgramSyncOperation {
+    const trainerizePlanId = plan?.trainerize_plan_id || (remote?.id ? String(remote.id) : undefined);
+    return {
+      id: `plan:${action}:${plan?.id || `tz_${trainerizePlanId}`}`,
+      entity: 'plan',
+      action,
+      direction,
+      description,
+      training_plan_id: plan?.id,
+      trainerize_plan_id: trainerizePlanId,
+      local_data: plan,
+      trainerize_data: remote
+    };
+  }
+
+  // Comparable fingerprint of a workout's exercise list, using the same defaults
+  // createWorkoutFromTemplate applies so unset fields don't read as changes
+  private workoutExercisesKey(exercises: any[] = []): string {
+    return JSON.stringify(exercises.map(entry => {
+      const ex = entry.def || entry;
+      return [
+        String(ex.id || ex.exerciseId || ex.trainerize_id || ex.name || '').toLowerCase(),
+        ex.sets || 3,
+        ex.target || `${ex.reps || '10'} reps`,
+        ex.restTime || 60
+      ];
+    }));
+  }
+
+  // The client helpers swallow errors and return [], which a diff or a re-import would
+  // read as "everything was deleted", so these go through makeRequest directly
+  private async fetchTrainerizePlans(userID: number): Promise<any[]> {
+    const response = await this.trainerizeClient.makeRequest('/trainingPlan/getList', { userID });
+    return (response?.plans || response?.data || []).filter((plan: any) => plan?.id);
+  }
+
+  private async fetchTrainerizeWorkoutDefs(planID: number): Promise<any[]> {
+    const response = await this.trainerizeClient.makeRequest('/trainingPlan/getWorkoutDefList', { planID });
+    return (response?.workouts || response?.data || [])
+      .map((workout: any) => workout.workoutDef || workout)
+      .filter((def: any) => def?.id);
+  }
+
+  private async getLinkedProgram(programId: string): Promise<{ program: Program; userID: number }> {
+    const program = await this.getProgram(programId);
+    if (!program) {
+      throw new Error('Program not found');
+    }
+
+    if (!program.trainerize_program_id || !program.trainerize_client_id) {
+      throw new Error('Program not linked to Trainerize');
+    }
+
+    return { program, userID: parseInt(program.trainerize_client_id) };
+  }
+
   // Utility methods
   async cloneProgram(programId: string, newName?: string): Promise<Program> {
     const originalProgram = await this.getProgram(programId);
@@ -626,7 +1690,7 @@ export class TrainerizeProgramManager {
     const trainingPlans = await this.getTrainingPlansForProgram(programId);
     
     // Get client assignments
-    const { data: assignments } = await supabase
+    const { data: assignments } = await this.db
       .from('client_programs')
       .select('*')
       .eq('program_id', programId);
@@ -645,4 +1709,12 @@ export class TrainerizeProgramManager {
       completedClients: assignments?.filter(a => a.status === 'completed').length || 0
     };
   }
-}
\ No newline at end of file
+}
+
+// Program manager working with a Trainerize connection's client and data
+export async function getProgramManager(connectionId?: string | null): Promise<TrainerizeProgramManager> {
+  return new TrainerizeProgramManager({
+    connectionId,
+    client: await trainerizeConnections.getClient(connectionId)
+  });
+}
@@ -10,6 +10,7 @@ interface WorkoutTemplateListParams {
   sort?: 'name' | 'dateCreated' | 'dateUpdated';
   searchTerm?: string;
   start?: number;
+  // Caps how many templates are returned; every page is fetched when omitted
   count?: number;
 }
 
@@ -31,7 +32,7 @@ export class WorkoutTemplateDiscovery {
     
     for (const view of views) {
       console.log(`\n📋 Fetching ${view} templates...`);
-      const templates = await this.getWorkoutTemplates({ view, count: 100 });
+      const templates = await this.getWorkoutTemplates({ view });
       allTemplates.push(...templates);
       
       // Save raw response for analysis
@@ -62,24 +63,17 @@ export class WorkoutTemplateDiscovery {
     return fullAnalysis;
   }
 
-  // Fetch workout templates
+  // Fetch workout templates, following pagination
   async getWorkoutTemplates(params: WorkoutTemplateListParams): Promise<any[]> {
+    const { start, count, ...filters } = params;
     try {
-      const response = await this.client.makeRequest('/workoutTemplate/getList', params);
-      
-      // Log response structure
-      console.log('Response keys:', Object.keys(response));
-      
-      if (response.templates) {
-        console.log(`Found ${response.templates.length} templates`);
-        return response.templates;
-      } else if (Array.isArray(response)) {
-        console.log(`Found ${response.length} templates`);
-        return response;
-      }
-      
-      console.log('Unexpected response structure:', JSON.stringify(response, null, 2));
-      return [];
+      const templates = await this.client.getAllPages('/workoutTemplate/getList', filters, {
+        start,
+        maxItems: count
+      });
+
+      console.log(`Found ${templates.length} templates`);
+      return templates;
     } catch (error) {
       console.error('Error fetching templates:', error);
       return [];
@@ -253,9 +247,6 @@ export class WorkoutTemplateDiscovery {
         } catch {
           console.log(`✗ Could not get details for template ${id}`);
         }
-        
-        // Rate limiting
-        await new Promise(resolve => setTimeout(resolve, 500));
       }
     }
     
@@ -1,5 +1,9 @@
 import { TrainerizeClient } from './trainerize-client';
-import { supabase } from './supabase';
+import { supabase, scopeToConnection, type DatabaseClient } from './supabase';
+import { trainerizeConnections } from './trainerize-connections';
+import { normalizeVideoUrl } from './exercise-videos';
+import type { TablesInsert } from '@/types';
+import type { Json } from '@/types/database';
 
 // Complete type definitions based on API docs
 export type WorkoutType = 'cardio' | 'workoutRegular' | 'workoutCircuit' | 'workoutTimed' | 'workoutInterval' | 'workoutVideo';
@@ -61,11 +65,66 @@ export interface UpdateWorkoutRequest {
   workoutDef: WorkoutDefinition & { id: number };
 }
 
+// An exercise as workout templates refer to it: by local id or Trainerize ID
+export interface ExerciseReference {
+  id: string;
+  trainerize_id: string | null;
+  name: string;
+}
+
+// Rewrites the entries of a workout template's exercises that refer to one exercise so they
+// refer to another. Entries come as Trainerize { def } items or flat rows.
+export function repointExerciseEntries(
+  entries: any[],
+  from: ExerciseReference,
+  to: ExerciseReference
+): { entries: any[]; changed: number } {
+  const isFrom = (value: any) =>
+    value !== undefined && value !== null && (String(value) === from.id || String(value) === from.trainerize_id);
+  // Keep the type the entry used, numeric Trainerize IDs included
+  const toTrainerizeId = (value: any) =>
+    typeof value === 'number' && to.trainerize_id ? parseInt(to.trainerize_id) : to.trainerize_id;
+  let changed = 0;
+
+  const repointed = entries.map(entry => {
+    if (entry?.def) {
+      if (!isFrom(entry.def.id)) return entry;
+      changed++;
+      return { ...entry, def: { ...entry.def, id: toTrainerizeId(entry.def.id), name: to.name } };
+    }
+
+    if (!entry || ![entry.exercise_id, entry.exerciseId, entry.trainerize_id].some(isFrom)) return entry;
+    changed++;
+    return {
+      ...entry,
+      ...('exercise_id' in entry && { exercise_id: to.id }),
+      ...('exerciseId' in entry && { exerciseId: toTrainerizeId(entry.exerciseId) }),
+      ...('trainerize_id' in entry && { trainerize_id: to.trainerize_id }),
+      ...('name' in entry && { name: to.name }),
+      ...('exerciseName' in entry && { exerciseName: to.name })
+    };
+  });
+
+  return { entries: repointed, changed };
+}
+
+export interface WorkoutManagerOptions {
+  db?: DatabaseClient;
+  // Pass the connection's client along with connectionId
+  client?: TrainerizeClient;
+  // Trainerize connection the workout templates and exercises belong to
+  connectionId?: string | null;
+}
+
 export class TrainerizeWorkoutManager {
+  private db: DatabaseClient;
   private client: TrainerizeClient;
+  private connectionId: string | null;
 
-  constructor() {
-    this.client = new TrainerizeClient();
+  constructor(options: WorkoutManagerOptions = {}) {
+    this.db = options.db || supabase;
+    this.client = options.client || new TrainerizeClient();
+    this.connectionId = options.connectionId || null;
   }
 
   // Add a new workout definition
@@ -73,11 +132,12 @@ export class TrainerizeWorkoutManager {
     try {
       const response = await this.client.makeRequest('/workoutDef/add', params);
       
-      if (response?.id || response?.workoutId) {
-        const workoutId = response.id || response.workoutId;
-        
-        // Save to Supabase
-        await this.saveWorkoutToSupabase(workoutId, params.workoutDef);
+      const workoutId = response?.id || response?.workoutId;
+      if (workoutId) {
+        // Save to Supabase (training plan copies are tracked on plan_workouts instead)
+        if (params.type !== 'trainingPlan') {
+          await this.saveWorkoutToSupabase(workoutId, params.workoutDef);
+        }
         
         console.log(`✓ Added workout: ${params.workoutDef.name} (ID: ${workoutId})`);
         return { success: true, workoutId };
@@ -127,10 +187,13 @@ export class TrainerizeWorkoutManager {
     } = options;
 
     // Fetch exercises from Supabase
-    const { data: exercises } = await supabase
-      .from('exercises')
-      .select('*')
-      .in('id', exerciseIds);
+    const { data: exercises } = await scopeToConnection(
+      this.db
+        .from('exercises')
+        .select('*')
+        .in('id', exerciseIds),
+      this.connectionId
+    );
 
     if (!exercises) {
       throw new Error('Failed to fetch exercises');
@@ -191,11 +254,13 @@ export class TrainerizeWorkoutManager {
     }
   ): Promise<AddWorkoutRequest> {
     // Fetch template from Supabase
-    const { data: template } = await supabase
-      .from('workout_templates')
-      .select('*')
-      .eq('id', templateId)
-      .single();
+    const { data: template } = await scopeToConnection(
+      this.db
+        .from('workout_templates')
+        .select('*')
+        .eq('id', templateId),
+      this.connectionId
+    ).single();
 
     if (!template) {
       throw new Error('Template not found');
@@ -208,21 +273,24 @@ export class TrainerizeWorkoutManager {
       exercises = customizations.modifyExercises(exercises);
     }
 
-    // Convert to Trainerize format
-    const exerciseDefs = exercises.map((ex: any) => ({
-      def: {
-        id: ex.exerciseId || ex.trainerize_id,
-        name: ex.name,
-        description: ex.description,
-        sets: ex.sets || 3,
-        target: ex.target || `${ex.reps || '10'} reps`,
-        restTime: ex.restTime || 60,
-        recordType: ex.recordType || 'strength',
-        type: ex.type || 'system',
-        supersetID: ex.supersetID,
-        supersetType: ex.supersetType || 'none'
-      }
-    }));
+    // Convert to Trainerize format (templates saved from Trainerize already hold { def } entries)
+    const exerciseDefs = exercises.map((entry: any) => {
+      const ex = entry.def || entry;
+      return {
+        def: {
+          id: entry.def ? ex.id : ex.exerciseId || ex.trainerize_id,
+          name: ex.name,
+          description: ex.description,
+          sets: ex.sets || 3,
+          target: ex.target || `${ex.reps || '10'} reps`,
+          restTime: ex.restTime || 60,
+          recordType: ex.recordType || 'strength',
+          type: ex.type || 'system',
+          supersetID: ex.supersetID,
+          supersetType: ex.supersetType || 'none'
+        }
+      };
+    });
 
     return {
       type: 'mine',
@@ -254,10 +322,13 @@ export class TrainerizeWorkoutManager {
     };
 
     // Fetch workouts from Supabase
-    const { data: workouts } = await supabase
-      .from('workout_templates')
-      .select('*')
-      .in('id', workoutIds);
+    const { data: workouts } = await scopeToConnection(
+      this.db
+        .from('workout_templates')
+        .select('*')
+        .in('id', workoutIds),
+      this.connectionId
+    );
 
     if (!workouts) {
       throw new Error('Failed to fetch workouts');
@@ -270,58 +341,136 @@ export class TrainerizeWorkoutManager {
         options.onProgress(i + 1, workouts.length);
       }
 
-      // Skip if already synced
-      if (options.skipExisting && workout.trainerize_id) {
+      const outcome = await this.syncWorkoutTemplate(workout, options.skipExisting);
+      if (outcome.status === 'skipped') {
         results.skipped.push(workout);
         continue;
       }
 
-      try {
-        // Build workout definition
-        const workoutDef = await this.buildWorkoutFromSupabase(workout);
-        
-        // Add or update in Trainerize
-        let result;
-        if (workout.trainerize_id) {
-          result = await this.updateWorkout({
-            workoutDef: {
-              ...workoutDef,
-              id: parseInt(workout.trainerize_id)
-            }
-          });
-        } else {
-          result = await this.addWorkout({
-            type: 'mine',
-            workoutDef
-          });
-        }
+      if (outcome.status === 'successful') {
+        results.successful.push({
+          ...workout,
+          trainerize_id: outcome.trainerize_id
+        });
+      } else {
+        results.failed.push({ ...workout, error: outcome.error });
+      }
+    }
+
+    return results;
+  }
+
+  // Add or update a single workout template in Trainerize and store the returned ID
+  async syncWorkoutTemplate(
+    workout: any,
+    skipExisting = false
+  ): Promise<{ status: 'successful' | 'failed' | 'skipped'; trainerize_id?: string; error?: string }> {
+    // Skip if already synced
+    if (skipExisting && workout.trainerize_id) {
+      return { status: 'skipped' };
+    }
 
-        if (result.success) {
-          results.successful.push({
-            ...workout,
-            trainerize_id: result.workoutId || workout.trainerize_id
-          });
-
-          // Update Supabase with Trainerize ID
-          if (result.workoutId && !workout.trainerize_id) {
-            await supabase
-              .from('workout_templates')
-              .update({ 
-                trainerize_id: result.workoutId.toString(),
-                synced_at: new Date().toISOString()
-              })
-              .eq('id', workout.id);
+    try {
+      // Build workout definition
+      const workoutDef = await this.buildWorkoutFromSupabase(workout);
+      
+      // Add or update in Trainerize
+      let result;
+      if (workout.trainerize_id) {
+        result = await this.updateWorkout({
+          workoutDef: {
+            ...workoutDef,
+            id: parseInt(workout.trainerize_id)
           }
-        } else {
-          results.failed.push({ ...workout, error: result.error });
-        }
-      } catch (error: any) {
-        results.failed.push({ ...workout, error: error.message });
+        });
+      } else {
+        result = await this.addWorkout({
+          type: 'mine',
+          workoutDef
+        });
+      }
+
+      if (!result.success) {
+        return { status: 'failed', error: result.error };
       }
 
-      // Rate limiting
-      if ((i + 1) % 5 === 0) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
+      // Update Supabase with Trainerize ID
+      if (result.workoutId && !workout.trainerize_id) {
+        await this.db
+          .from('workout_templates')
+          .update({ 
+            trainerize_id: result.workoutId.toString(),
+            synced_at: new Date().toISOString()
+          })
+          .eq('id', workout.id);
+      }
+
+      return { status: 'successful', trainerize_id: result.workoutId?.toString() || workout.trainerize_id };
+    } catch (error: any) {
+      return { status: 'failed', error: error.message };
+    }
+  }
+
+  // Point every workout template that uses one exercise at another, e.g. after merging
+  // duplicates, and push the rewritten definitions of templates that are in Trainerize
+  async replaceExerciseInTemplates(
+    from: ExerciseReference,
+    to: ExerciseReference,
+    options: { push?: boolean } = {}
+  ): Promise<{ updated: string[]; pushed: string[]; failed: Array<{ id: string; error: string }> }> {
+    const { push = true } = options;
+    const results = { updated: [] as string[], pushed: [] as string[], failed: [] as Array<{ id: string; error: string }> };
+
+    const { data: templates, error } = await scopeToConnection(
+      this.db
+        .from('workout_templates')
+        .select('*')
+        .not('exercises', 'is', null),
+      this.connectionId
+    );
+
+    if (error) {
+      throw new Error(`Failed to fetch workout templates: ${error.message}`);
+    }
+
+    for (const template of templates || []) {
+      if (!Array.isArray(template.exercises)) continue;
+
+      const { entries, changed } = repointExerciseEntries(template.exercises, from, to);
+      if (changed === 0) continue;
+
+      // The stored definition holds the same exercise list
+      const metadata = template.metadata as any;
+      const { error: updateError } = await this.db
+        .from('workout_templates')
+        .update({
+          exercises: entries,
+          ...(Array.isArray(metadata?.exercises) && {
+            metadata: { ...metadata, exercises: repointExerciseEntries(metadata.exercises, from, to).entries }
+          })
+        })
+        .eq('id', template.id);
+
+      if (updateError) {
+        results.failed.push({ id: template.id, error: updateError.message });
+        continue;
+      }
+      results.updated.push(template.id);
+
+      if (!push || !template.trainerize_id) continue;
+
+      try {
+        const workoutDef = await this.buildWorkoutFromSupabase({ ...template, exercises: entries });
+        await this.client.makeRequest('/workoutDef/set', {
+          workoutDef: { ...workoutDef, id: parseInt(template.trainerize_id) }
+        });
+        await this.db
+          .from('workout_templates')
+          .update({ synced_at: new Date().toISOString(), sync_status: 'synced' })
+          .eq('id', template.id);
+        results.pushed.push(template.id);
+      } catch (pushError: any) {
+        results.failed.push({ id: template.id, error: pushError.message });
       }
     }
 
@@ -332,17 +481,14 @@ export class TrainerizeWorkoutManager {
   async extractAndSaveWorkouts(
     params: {
       view?: WorkoutViewType;
-      count?: number;
+      // Templates requested per page
+      pageSize?: number;
     } = {}
   ): Promise<number> {
-    const { view = 'mine', count = 100 } = params;
+    const { view = 'mine', pageSize = 100 } = params;
     
-    // Get workout templates
-    const templates = await this.client.makeRequest('/workoutTemplate/getList', {
-      view,
-      count,
-      start: 0
-    });
+    // Get every workout template, page by page
+    const templates = await this.client.getAllPages('/workoutTemplate/getList', { view }, { pageSize });
 
     const workoutIds = this.extractWorkoutIds(templates);
     
@@ -351,10 +497,7 @@ export class TrainerizeWorkoutManager {
     for (const id of workoutIds) {
       try {
         const def = await this.client.makeRequest('/workoutTemplate/get', { id });
-        definitions.push({ id, ...def });
-        
-        // Rate limiting
-        await new Promise(resolve => setTimeout(resolve, 300));
+        definitions.push({ ...def, id });
       } catch (error) {
         console.error(`Failed to get workout ${id}:`, error);
       }
@@ -381,26 +524,49 @@ export class TrainerizeWorkoutManager {
       (sum, ex) => sum + (ex.def.sets || 0), 0
     ) || 0;
 
-    await supabase
-      .from('workout_templates')
-      .upsert({
-        trainerize_id: workoutId.toString(),
-        name: definition.name,
-        workout_type: definition.type,
-        instructions: definition.instructions,
-        exercises: definition.exercises,
-        exercise_count: exerciseCount,
-        total_sets: totalSets,
-        tags: definition.tags,
-        tracking_stats: definition.trackingStats,
-        metadata: definition,
-        synced_at: new Date().toISOString()
-      });
+    const row: TablesInsert<'workout_templates'> = {
+      trainerize_id: workoutId.toString(),
+      name: definition.name,
+      workout_type: definition.type,
+      instructions: definition.instructions,
+      exercises: definition.exercises as unknown as Json,
+      exercise_count: exerciseCount,
+      total_sets: totalSets,
+      tags: definition.tags as Json,
+      tracking_stats: definition.trackingStats as unknown as Json,
+      metadata: definition as unknown as Json,
+      synced_at: new Date().toISOString(),
+      connection_id: this.connectionId
+    };
+
+    // Without a conflict target an upsert would add a second template for the same workout
+    const { data: existing, error: lookupError } = await scopeToConnection(
+      this.db
+        .from('workout_templates')
+        .select('id')
+        .eq('trainerize_id', workoutId.toString()),
+      this.connectionId
+    ).maybeSingle();
+
+    if (lookupError) {
+      throw new Error(`Failed to look up workout ${workoutId}: ${lookupError.message}`);
+    }
+
+    const { error } = existing
+      ? await this.db.from('workout_templates').update(row).eq('id', existing.id)
+      : await this.db.from('workout_templates').insert([row]);
+
+    if (error) {
+      throw new Error(`Failed to save workout ${workoutId}: ${error.message}`);
+    }
   }
 
   // Helper: Build workout from Supabase format
   private async buildWorkoutFromSupabase(workout: any): Promise<WorkoutDefinition> {
-    const exercises = workout.exercises || [];
+    // Templates saved from Trainerize hold { def } entries
+    const exercises = (workout.exercises || []).map((entry: any) =>
+      entry.def ? { ...entry.def, exerciseId: entry.def.id } : entry
+    );
     
     return {
       name: workout.name,
@@ -484,7 +650,15 @@ export class TrainerizeWorkoutManager {
   // Helper: Extract YouTube ID
   private extractYouTubeId(url?: string): string | undefined {
     if (!url) return undefined;
-    const match = url.match(/(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/);
-    return match ? match[1] : undefined;
+    const video = normalizeVideoUrl(url);
+    return video?.host === 'youtube' ? video.videoId : undefined;
   }
-}
\ No newline at end of file
+}
+
+// Workout manager working with a Trainerize connection's client and data
+export async function getWorkoutManager(connectionId?: string | null): Promise<TrainerizeWorkoutManager> {
+  return new TrainerizeWorkoutManager({
+    connectionId,
+    client: await trainerizeConnections.getClient(connectionId)
+  });
+}
@@ -19,10 +19,12 @@ export interface Database {
           goals: string[]
           equipment_required: string[]
           trainerize_program_id: string | null
+          trainerize_client_id: string | null
           sync_status: 'pending' | 'synced' | 'error'
           synced_at: string | null
           created_at: string
           updated_at: string
+          connection_id: string | null
         }
         Insert: {
           id?: string
@@ -33,10 +35,12 @@ export interface Database {
           goals?: string[]
           equipment_required?: string[]
           trainerize_program_id?: string | null
+          trainerize_client_id?: string | null
           sync_status?: 'pending' | 'synced' | 'error'
           synced_at?: string | null
           created_at?: string
           updated_at?: string
+          connection_id?: string | null
         }
         Update: {
           id?: string
@@ -47,10 +51,12 @@ export interface Database {
           goals?: string[]
           equipment_required?: string[]
           trainerize_program_id?: string | null
+          trainerize_client_id?: string | null
           sync_status?: 'pending' | 'synced' | 'error'
           synced_at?: string | null
           created_at?: string
           updated_at?: string
+          connection_id?: string | null
         }
         Relationships: []
       }
@@ -102,6 +108,10 @@ export interface Database {
           week_number: number
           order_in_day: number
           rest_day: boolean
+          trainerize_workout_id: string | null
+          sync_status: 'pending' | 'synced' | 'error'
+          sync_error: string | null
+          synced_at: string | null
           created_at: string
         }
         Insert: {
@@ -112,6 +122,10 @@ export interface Database {
           week_number: number
           order_in_day?: number
           rest_day?: boolean
+          trainerize_workout_id?: string | null
+          sync_status?: 'pending' | 'synced' | 'error'
+          sync_error?: string | null
+          synced_at?: string | null
           created_at?: string
         }
         Update: {
@@ -122,6 +136,10 @@ export interface Database {
           week_number?: number
           order_in_day?: number
           rest_day?: boolean
+          trainerize_workout_id?: string | null
+          sync_status?: 'pending' | 'synced' | 'error'
+          sync_error?: string | null
+          synced_at?: string | null
           created_at?: string
         }
         Relationships: []
@@ -216,10 +234,15 @@ export interface Database {
           exercise_count: number | null
           total_sets: number | null
           instructions: string | null
+          exercises: Json | null
+          tags: Json | null
+          tracking_stats: Json | null
+          metadata: Json | null
           synced_at: string | null
           sync_status: 'synced' | 'pending' | 'error'
           created_at: string
           updated_at: string
+          connection_id: string | null
         }
         Insert: {
           id?: string
@@ -229,10 +252,15 @@ export interface Database {
           exercise_count?: number | null
           total_sets?: number | null
           instructions?: string | null
+          exercises?: Json | null
+          tags?: Json | null
+          tracking_stats?: Json | null
+          metadata?: Json | null
           synced_at?: string | null
           sync_status?: 'synced' | 'pending' | 'error'
           created_at?: string
           updated_at?: string
+          connection_id?: string | null
         }
         Update: {
           id?: string
@@ -242,17 +270,22 @@ export interface Database {
           exercise_count?: number | null
           total_sets?: number | null
           instructions?: string | null
+          exercises?: Json | null
+          tags?: Json | null
+          tracking_stats?: Json | null
+          metadata?: Json | null
           synced_at?: string | null
           sync_status?: 'synced' | 'pending' | 'error'
           created_at?: string
           updated_at?: string
+          connection_id?: string | null
         }
         Relationships: []
       }
       exercises: {
         Row: {
           id: string
-          trainerize_id: string
+          trainerize_id: string | null
           name: string
           description: string | null
           category: string | null
@@ -268,10 +301,13 @@ export interface Database {
           synced_at: string | null
           sync_status: 'pending' | 'synced' | 'error' | 'deleted'
           metadata: Json | null
+          last_synced_snapshot: Json | null
+          connection_id: string | null
+          video_status: 'processing' | 'ready' | 'failing' | null
         }
         Insert: {
           id?: string
-          trainerize_id: string
+          trainerize_id?: string | null
           name: string
           description?: string | null
           category?: string | null
@@ -287,10 +323,13 @@ export interface Database {
           synced_at?: string | null
           sync_status?: 'pending' | 'synced' | 'error' | 'deleted'
           metadata?: Json | null
+          last_synced_snapshot?: Json | null
+          connection_id?: string | null
+          video_status?: 'processing' | 'ready' | 'failing' | null
         }
         Update: {
           id?: string
-          trainerize_id?: string
+          trainerize_id?: string | null
           name?: string
           description?: string | null
           category?: string | null
@@ -306,6 +345,9 @@ export interface Database {
           synced_at?: string | null
           sync_status?: 'pending' | 'synced' | 'error' | 'deleted'
           metadata?: Json | null
+          last_synced_snapshot?: Json | null
+          connection_id?: string | null
+          video_status?: 'processing' | 'ready' | 'failing' | null
         }
         Relationships: []
       }
@@ -322,6 +364,7 @@ export interface Database {
           records_deleted: number
           error_message: string | null
           metadata: Json | null
+          connection_id: string | null
         }
         Insert: {
           id?: string
@@ -335,6 +378,7 @@ export interface Database {
           records_deleted?: number
           error_message?: string | null
           metadata?: Json | null
+          connection_id?: string | null
         }
         Update: {
           id?: string
@@ -348,6 +392,319 @@ export interface Database {
           records_deleted?: number
           error_message?: string | null
           metadata?: Json | null
+          connection_id?: string | null
+        }
+        Relationships: []
+      }
+      sync_jobs: {
+        Row: {
+          id: string
+          job_type: 'sync_exercises' | 'bulk_add_exercises' | 'bulk_sync_workouts' | 'track_video_status'
+          status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+          payload: Json
+          cursor: number
+          total_items: number
+          processed_items: number
+          failed_items: number
+          attempts: number
+          max_attempts: number
+          locked_by: string | null
+          locked_at: string | null
+          run_after: string | null
+          last_error: string | null
+          result: Json | null
+          started_at: string | null
+          completed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          job_type: 'sync_exercises' | 'bulk_add_exercises' | 'bulk_sync_workouts' | 'track_video_status'
+          status?: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+          payload?: Json
+          cursor?: number
+          total_items?: number
+          processed_items?: number
+          failed_items?: number
+          attempts?: number
+          max_attempts?: number
+          locked_by?: string | null
+          locked_at?: string | null
+          run_after?: string | null
+          last_error?: string | null
+          result?: Json | null
+          started_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          job_type?: 'sync_exercises' | 'bulk_add_exercises' | 'bulk_sync_workouts' | 'track_video_status'
+          status?: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+          payload?: Json
+          cursor?: number
+          total_items?: number
+          processed_items?: number
+          failed_items?: number
+          attempts?: number
+          max_attempts?: number
+          locked_by?: string | null
+          locked_at?: string | null
+          run_after?: string | null
+          last_error?: string | null
+          result?: Json | null
+          started_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      sync_job_items: {
+        Row: {
+          id: string
+          job_id: string
+          position: number
+          item_key: string
+          payload: Json
+          status: 'pending' | 'completed' | 'failed' | 'skipped'
+          attempts: number
+          result: Json | null
+          error: string | null
+          processed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          job_id: string
+          position: number
+          item_key: string
+          payload?: Json
+          status?: 'pending' | 'completed' | 'failed' | 'skipped'
+          attempts?: number
+          result?: Json | null
+          error?: string | null
+          processed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          job_id?: string
+          position?: number
+          item_key?: string
+          payload?: Json
+          status?: 'pending' | 'completed' | 'failed' | 'skipped'
+          attempts?: number
+          result?: Json | null
+          error?: string | null
+          processed_at?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      sync_tombstones: {
+        Row: {
+          id: string
+          entity_type: 'exercise'
+          local_id: string | null
+          trainerize_id: string | null
+          name: string | null
+          deleted_from: 'supabase' | 'trainerize'
+          deleted_at: string
+          propagation_status: 'pending' | 'propagated' | 'skipped' | 'error'
+          propagated_at: string | null
+          error: string | null
+          created_at: string
+          connection_id: string | null
+        }
+        Insert: {
+          id?: string
+          entity_type?: 'exercise'
+          local_id?: string | null
+          trainerize_id?: string | null
+          name?: string | null
+          deleted_from: 'supabase' | 'trainerize'
+          deleted_at?: string
+          propagation_status?: 'pending' | 'propagated' | 'skipped' | 'error'
+          propagated_at?: string | null
+          error?: string | null
+          created_at?: string
+          connection_id?: string | null
+        }
+        Update: {
+          id?: string
+          entity_type?: 'exercise'
+          local_id?: string | null
+          trainerize_id?: string | null
+          name?: string | null
+          deleted_from?: 'supabase' | 'trainerize'
+          deleted_at?: string
+          propagation_status?: 'pending' | 'propagated' | 'skipped' | 'error'
+          propagated_at?: string | null
+          error?: string | null
+          created_at?: string
+          connection_id?: string | null
+        }
+        Relationships: []
+      }
+      trainerize_connections: {
+        Row: {
+          id: string
+          name: string
+          group_id: string
+          api_token_encrypted: string
+          is_active: boolean
+          last_validated_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          group_id: string
+          api_token_encrypted: string
+          is_active?: boolean
+          last_validated_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          group_id?: string
+          api_token_encrypted?: string
+          is_active?: boolean
+          last_validated_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      mapping_profiles: {
+        Row: {
+          id: string
+          name: string
+          version: number
+          description: string | null
+          fields: Json
+          is_active: boolean
+          activated_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          version?: number
+          description?: string | null
+          fields?: Json
+          is_active?: boolean
+          activated_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          version?: number
+          description?: string | null
+          fields?: Json
+          is_active?: boolean
+          activated_at?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      exercise_redirects: {
+        Row: {
+          id: string
+          merged_exercise_id: string
+          survivor_id: string
+          trainerize_id: string | null
+          connection_id: string | null
+          name: string | null
+          field_choices: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          merged_exercise_id: string
+          survivor_id: string
+          trainerize_id?: string | null
+          connection_id?: string | null
+          name?: string | null
+          field_choices?: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          merged_exercise_id?: string
+          survivor_id?: string
+          trainerize_id?: string | null
+          connection_id?: string | null
+          name?: string | null
+          field_choices?: Json
+          created_at?: string
+        }
+        Relationships: []
+      }
+      muscle_taxonomy: {
+        Row: {
+          id: string
+          slug: string
+          name: string
+          parent_slug: string | null
+          trainerize_tag: string | null
+          synonyms: string[]
+          sort_order: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          slug: string
+          name: string
+          parent_slug?: string | null
+          trainerize_tag?: string | null
+          synonyms?: string[]
+          sort_order?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          slug?: string
+          name?: string
+          parent_slug?: string | null
+          trainerize_tag?: string | null
+          synonyms?: string[]
+          sort_order?: number
+          created_at?: string
+        }
+        Relationships: []
+      }
+      equipment_taxonomy: {
+        Row: {
+          id: string
+          slug: string
+          name: string
+          synonyms: string[]
+          sort_order: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          slug: string
+          name: string
+          synonyms?: string[]
+          sort_order?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          slug?: string
+          name?: string
+          synonyms?: string[]
+          sort_order?: number
+          created_at?: string
         }
         Relationships: []
       }
@@ -12,6 +12,15 @@ export type SyncLog = Tables<'sync_logs'>
 export type SyncLogInsert = TablesInsert<'sync_logs'>
 export type SyncLogUpdate = TablesUpdate<'sync_logs'>
 
+export type SyncJob = Tables<'sync_jobs'>
+export type SyncJobItem = Tables<'sync_job_items'>
+export type SyncTombstone = Tables<'sync_tombstones'>
+export type TrainerizeConnection = Tables<'trainerize_connections'>
+export type MappingProfileRow = Tables<'mapping_profiles'>
+export type ExerciseRedirect = Tables<'exercise_redirects'>
+export type MuscleTaxonomyRow = Tables<'muscle_taxonomy'>
+export type EquipmentTaxonomyRow = Tables<'equipment_taxonomy'>
+
 export interface FilterState {
   search: string
   category: string
@@ -44,6 +53,8 @@ export interface BulkOperationResult {
 export interface ApiResponse<T = any> {
   data?: T
   error?: string
+  // Machine readable failure kind, e.g. TRAINERIZE_RATE_LIMIT (see src/lib/api-errors.ts)
+  code?: string
   message?: string
   success: boolean
 }